@@ -0,0 +1,4 @@
+ALTER TABLE memories ADD COLUMN access_count INTEGER NOT NULL DEFAULT 0 CHECK (access_count >= 0);
+ALTER TABLE memories ADD COLUMN last_accessed_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_memories_layer_importance ON memories(layer, importance);
@@ -0,0 +1,13 @@
+ALTER TABLE memories ADD COLUMN decayed_at INTEGER;
+
+-- Access tracking and decay only touch bookkeeping columns; keep FTS in sync only when
+-- indexed fields change.
+DROP TRIGGER IF EXISTS trg_memories_au;
+
+CREATE TRIGGER IF NOT EXISTS trg_memories_au AFTER UPDATE OF content, summary, layer ON memories BEGIN
+  UPDATE fts_memories
+  SET content = new.content,
+      summary = COALESCE(new.summary, ''),
+      layer = new.layer
+  WHERE memory_id = old.id;
+END;
@@ -0,0 +1,21 @@
+-- Snapshots of a memory taken right before it is updated or deleted. Rows are kept after
+-- the memory itself is gone so deleted memories can be restored.
+CREATE TABLE IF NOT EXISTS memory_revisions (
+  id TEXT PRIMARY KEY,
+  memory_id TEXT NOT NULL,
+  revision INTEGER NOT NULL CHECK (revision >= 1),
+  operation TEXT NOT NULL CHECK (operation IN ('update', 'delete')),
+  layer TEXT NOT NULL,
+  content TEXT NOT NULL,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  importance REAL NOT NULL,
+  session_id TEXT,
+  episode_id TEXT,
+  summary TEXT,
+  refs TEXT NOT NULL DEFAULT '[]',
+  memory_created_at INTEGER NOT NULL,
+  recorded_at INTEGER NOT NULL,
+  UNIQUE (memory_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_revisions_memory ON memory_revisions(memory_id, revision DESC);
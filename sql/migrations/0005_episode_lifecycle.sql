@@ -0,0 +1,5 @@
+ALTER TABLE episodes ADD COLUMN ended_at INTEGER;
+ALTER TABLE episodes ADD COLUMN summary_memory_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_episodes_session ON episodes(session_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_episodes_created ON episodes(created_at);
@@ -0,0 +1,23 @@
+-- Sessions are implicit (memories.session_id); this table only holds lifecycle state.
+CREATE TABLE IF NOT EXISTS session_state (
+  session_id TEXT PRIMARY KEY,
+  closed_at INTEGER,
+  summary_memory_id TEXT
+);
+
+-- One row per session id seen on memories. The session's own summary memory is excluded
+-- from its statistics.
+CREATE VIEW IF NOT EXISTS sessions AS
+SELECT
+  m.session_id AS id,
+  MIN(m.created_at) AS started_at,
+  MAX(m.created_at) AS last_activity_at,
+  COUNT(*) AS memory_count,
+  (SELECT COUNT(*) FROM episodes e WHERE e.session_id = m.session_id) AS episode_count,
+  s.closed_at AS closed_at,
+  s.summary_memory_id AS summary_memory_id
+FROM memories m
+LEFT JOIN session_state s ON s.session_id = m.session_id
+WHERE m.session_id IS NOT NULL
+  AND m.id IS NOT s.summary_memory_id
+GROUP BY m.session_id;
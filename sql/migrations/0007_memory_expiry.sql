@@ -0,0 +1,3 @@
+ALTER TABLE memories ADD COLUMN expires_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_memories_expires ON memories(expires_at) WHERE expires_at IS NOT NULL;
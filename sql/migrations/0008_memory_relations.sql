@@ -0,0 +1,16 @@
+-- Typed, directed links between memories ("src supersedes dst", "src follows dst", ...).
+CREATE TABLE IF NOT EXISTS memory_relations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  src_id TEXT NOT NULL,
+  dst_id TEXT NOT NULL,
+  relation TEXT NOT NULL CHECK (relation IN ('supersedes', 'contradicts', 'elaborates', 'follows')),
+  weight REAL,
+  metadata TEXT NOT NULL DEFAULT '{}',
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (src_id) REFERENCES memories(id) ON DELETE CASCADE,
+  FOREIGN KEY (dst_id) REFERENCES memories(id) ON DELETE CASCADE,
+  UNIQUE (src_id, dst_id, relation),
+  CHECK (src_id <> dst_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_memory_relations_dst ON memory_relations(dst_id, relation);
@@ -0,0 +1,22 @@
+-- Entity occurrences in memories and document chunks, written when content is stored.
+-- Offsets are character positions within the memory content / chunk content; they are
+-- NULL when the extractor reported an entity whose surface form was not found verbatim.
+CREATE TABLE IF NOT EXISTS mentions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  entity_id TEXT NOT NULL,
+  memory_id TEXT,
+  chunk_id TEXT,
+  surface TEXT NOT NULL,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  confidence REAL NOT NULL DEFAULT 0.5,
+  created_at INTEGER NOT NULL,
+  FOREIGN KEY (entity_id) REFERENCES entities(id) ON DELETE CASCADE,
+  FOREIGN KEY (memory_id) REFERENCES memories(id) ON DELETE CASCADE,
+  FOREIGN KEY (chunk_id) REFERENCES doc_chunks(id) ON DELETE CASCADE,
+  CHECK ((memory_id IS NULL) <> (chunk_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_mentions_entity ON mentions(entity_id);
+CREATE INDEX IF NOT EXISTS idx_mentions_memory ON mentions(memory_id) WHERE memory_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_mentions_chunk ON mentions(chunk_id) WHERE chunk_id IS NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE memories ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0 CHECK (pinned IN (0, 1));
+
+CREATE INDEX IF NOT EXISTS idx_memories_pinned ON memories(layer, created_at) WHERE pinned = 1;
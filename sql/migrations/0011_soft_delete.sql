@@ -0,0 +1,27 @@
+-- Soft delete: trashed rows keep their data until the trash purge job removes them.
+ALTER TABLE memories ADD COLUMN deleted_at INTEGER;
+ALTER TABLE documents ADD COLUMN deleted_at INTEGER;
+ALTER TABLE entities ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_memories_deleted_at ON memories(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON documents(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_entities_deleted_at ON entities(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed memories no longer count towards their session.
+DROP VIEW IF EXISTS sessions;
+
+CREATE VIEW sessions AS
+SELECT
+  m.session_id AS id,
+  MIN(m.created_at) AS started_at,
+  MAX(m.created_at) AS last_activity_at,
+  COUNT(*) AS memory_count,
+  (SELECT COUNT(*) FROM episodes e WHERE e.session_id = m.session_id) AS episode_count,
+  s.closed_at AS closed_at,
+  s.summary_memory_id AS summary_memory_id
+FROM memories m
+LEFT JOIN session_state s ON s.session_id = m.session_id
+WHERE m.session_id IS NOT NULL
+  AND m.deleted_at IS NULL
+  AND m.id IS NOT s.summary_memory_id
+GROUP BY m.session_id;
@@ -0,0 +1,75 @@
+-- migrate:foreign-keys-off
+-- Namespaces isolate memories, documents and the knowledge graph per project; existing
+-- rows land in 'default'. Document hashes and entity names become unique per namespace,
+-- which needs a table rebuild. Foreign keys are off for this migration so dropping the
+-- old tables does not cascade into chunks, references, edges and mentions.
+ALTER TABLE memories ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE memory_revisions ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE kg_edges ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+
+CREATE TABLE documents_next (
+  id TEXT PRIMARY KEY,
+  namespace TEXT NOT NULL DEFAULT 'default',
+  hash TEXT NOT NULL,
+  source_path TEXT,
+  mime TEXT,
+  title TEXT,
+  metadata TEXT NOT NULL DEFAULT '{}' CHECK (json_valid(metadata)),
+  ingested_at INTEGER NOT NULL,
+  size_bytes INTEGER NOT NULL DEFAULT 0 CHECK (size_bytes >= 0),
+  deleted_at INTEGER,
+  UNIQUE (namespace, hash)
+);
+
+INSERT INTO documents_next (
+  id, hash, source_path, mime, title, metadata, ingested_at, size_bytes, deleted_at
+)
+SELECT id, hash, source_path, mime, title, metadata, ingested_at, size_bytes, deleted_at
+FROM documents;
+
+DROP TABLE documents;
+ALTER TABLE documents_next RENAME TO documents;
+
+CREATE TABLE entities_next (
+  id TEXT PRIMARY KEY,
+  namespace TEXT NOT NULL DEFAULT 'default',
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  first_seen INTEGER NOT NULL,
+  last_seen INTEGER NOT NULL,
+  tags TEXT NOT NULL DEFAULT '[]' CHECK (json_valid(tags)),
+  deleted_at INTEGER,
+  UNIQUE (namespace, name)
+);
+
+INSERT INTO entities_next (id, name, type, count, first_seen, last_seen, tags, deleted_at)
+SELECT id, name, type, count, first_seen, last_seen, tags, deleted_at
+FROM entities;
+
+-- Dropping the table drops its FTS triggers; fts_entities keeps its rows since ids are unchanged.
+DROP TABLE entities;
+ALTER TABLE entities_next RENAME TO entities;
+
+CREATE TRIGGER IF NOT EXISTS trg_entities_ai AFTER INSERT ON entities BEGIN
+  INSERT INTO fts_entities(entity_id, name, type, tags)
+  VALUES (new.id, new.name, new.type, new.tags);
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_entities_au AFTER UPDATE ON entities BEGIN
+  UPDATE fts_entities
+  SET name = new.name,
+      type = new.type,
+      tags = new.tags
+  WHERE entity_id = old.id;
+END;
+
+CREATE TRIGGER IF NOT EXISTS trg_entities_ad AFTER DELETE ON entities BEGIN
+  DELETE FROM fts_entities WHERE entity_id = old.id;
+END;
+
+CREATE INDEX IF NOT EXISTS idx_documents_deleted_at ON documents(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_entities_deleted_at ON entities(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_memories_namespace ON memories(namespace, created_at);
+CREATE INDEX IF NOT EXISTS idx_kg_edges_namespace ON kg_edges(namespace, relation);
@@ -0,0 +1,3 @@
+-- Revisions keep the pinned flag and expiry, so restoring a deleted memory brings both back.
+ALTER TABLE memory_revisions ADD COLUMN pinned INTEGER NOT NULL DEFAULT 0 CHECK (pinned IN (0, 1));
+ALTER TABLE memory_revisions ADD COLUMN expires_at INTEGER;
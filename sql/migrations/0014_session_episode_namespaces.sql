@@ -0,0 +1,55 @@
+-- Sessions and episodes belong to a namespace like the memories in them. A session id may be
+-- reused across namespaces, so session state is keyed by both. Existing episodes and session
+-- state take the namespace of their memories, or 'default' when they have none.
+ALTER TABLE episodes ADD COLUMN namespace TEXT NOT NULL DEFAULT 'default';
+
+UPDATE episodes
+SET namespace = COALESCE(
+  (SELECT m.namespace FROM memories m WHERE m.episode_id = episodes.id ORDER BY m.created_at LIMIT 1),
+  'default'
+);
+
+CREATE TABLE session_state_next (
+  namespace TEXT NOT NULL DEFAULT 'default',
+  session_id TEXT NOT NULL,
+  closed_at INTEGER,
+  summary_memory_id TEXT,
+  PRIMARY KEY (namespace, session_id)
+);
+
+INSERT INTO session_state_next (namespace, session_id, closed_at, summary_memory_id)
+SELECT
+  COALESCE(
+    (SELECT m.namespace FROM memories m WHERE m.id = s.summary_memory_id),
+    (SELECT m.namespace FROM memories m WHERE m.session_id = s.session_id ORDER BY m.created_at LIMIT 1),
+    'default'
+  ),
+  s.session_id,
+  s.closed_at,
+  s.summary_memory_id
+FROM session_state s;
+
+DROP VIEW IF EXISTS sessions;
+DROP TABLE session_state;
+ALTER TABLE session_state_next RENAME TO session_state;
+
+-- One row per session id and namespace seen on live memories.
+CREATE VIEW sessions AS
+SELECT
+  m.session_id AS id,
+  m.namespace AS namespace,
+  MIN(m.created_at) AS started_at,
+  MAX(m.created_at) AS last_activity_at,
+  COUNT(*) AS memory_count,
+  (SELECT COUNT(*) FROM episodes e
+    WHERE e.session_id = m.session_id AND e.namespace = m.namespace) AS episode_count,
+  s.closed_at AS closed_at,
+  s.summary_memory_id AS summary_memory_id
+FROM memories m
+LEFT JOIN session_state s ON s.namespace = m.namespace AND s.session_id = m.session_id
+WHERE m.session_id IS NOT NULL
+  AND m.deleted_at IS NULL
+  AND m.id IS NOT s.summary_memory_id
+GROUP BY m.namespace, m.session_id;
+
+CREATE INDEX IF NOT EXISTS idx_episodes_namespace ON episodes(namespace, created_at);
@@ -2,9 +2,29 @@ import { config as loadEnvFile } from "dotenv";
 import { existsSync } from "node:fs";
 import path from "node:path";
 import { z } from "zod";
+import { FusionStrategySchema, RankingProfileSchema } from "../schemas/memory";
+import { NamespaceSchema } from "../schemas/namespace";
 
 const LOG_LEVELS = ["fatal", "error", "warn", "info", "debug", "trace", "silent"] as const;
 const ENVIRONMENTS = ["development", "test", "production"] as const;
+const DAY_MS = 86_400_000;
+
+const RetentionRuleSchema = z.object({
+  maxAgeMs: z.number().int().min(1),
+  // Memories with importance above this survive the age limit.
+  keepImportanceAbove: z.number().min(0).max(1).nullable(),
+});
+
+const RankingProfileSettingsSchema = z
+  .object({
+    // Shares of the blended score; retrieval relevance gets the remainder.
+    recencyWeight: z.number().min(0).max(1),
+    importanceWeight: z.number().min(0).max(1),
+    halfLifeMs: z.number().int().min(1),
+  })
+  .refine((profile) => profile.recencyWeight + profile.importanceWeight <= 1, {
+    message: "recencyWeight and importanceWeight must not add up to more than 1",
+  });
 
 export const ConfigSchema = z.object({
   env: z.enum(ENVIRONMENTS),
@@ -30,11 +50,80 @@ export const ConfigSchema = z.object({
     cleanupCron: z.string(),
     reindexCron: z.string(),
     metricsCron: z.string(),
+    decayCron: z.string(),
+    retentionCron: z.string(),
+    trashPurgeCron: z.string(),
+  }),
+  consolidation: z.object({
+    batchSize: z.number().int().min(1).max(10_000),
+    minAgeMs: z.number().int().min(0),
+    promoteThreshold: z.number().min(0).max(1),
+    duplicateThreshold: z.number().min(0).max(1),
+  }),
+  dedupe: z.object({
+    enabled: z.boolean(),
+    threshold: z.number().min(0).max(1),
+    importanceBoost: z.number().min(0).max(1),
+  }),
+  decay: z.object({
+    curve: z.enum(["exponential", "linear"]),
+    halfLifeMs: z.number().int().min(1),
+    floor: z.number().min(0).max(1),
+    reinforcement: z.number().min(0).max(1),
+    batchSize: z.number().int().min(1).max(10_000),
+  }),
+  retention: z.object({
+    batchSize: z.number().int().min(1).max(10_000),
+    layers: z.object({
+      stm: RetentionRuleSchema.nullable(),
+      ltm: RetentionRuleSchema.nullable(),
+      episodic: RetentionRuleSchema.nullable(),
+      semantic: RetentionRuleSchema.nullable(),
+      documentary: RetentionRuleSchema.nullable(),
+    }),
+  }),
+  trash: z.object({
+    // How long soft-deleted items stay restorable before the purge job removes them.
+    gracePeriodMs: z.number().int().min(0),
+  }),
+  namespace: z.object({
+    // Used by every service call and tool that does not name a namespace.
+    default: NamespaceSchema,
+  }),
+  search: z.object({
+    // How memory.search merges vector, full-text and graph hits unless a request picks a fusion.
+    fusion: FusionStrategySchema,
+    rrfK: z.number().int().min(1).max(1_000),
+    weights: z.object({
+      vector: z.number().min(0),
+      text: z.number().min(0),
+      graph: z.number().min(0),
+    }),
+    // Knowledge-graph hops expanded from the entities named in a query.
+    graphHops: z.number().int().min(0).max(2),
+    // Profile of requests that do not pick one, and the blend behind every profile.
+    ranking: z.object({
+      profile: RankingProfileSchema,
+      profiles: z.object({
+        relevance: RankingProfileSettingsSchema,
+        recent: RankingProfileSettingsSchema,
+        important: RankingProfileSettingsSchema,
+        balanced: RankingProfileSettingsSchema,
+      }),
+    }),
+    // Per-process LRU caches of memory.search; 0 entries disables a cache.
+    cache: z.object({
+      resultEntries: z.number().int().min(0),
+      embeddingEntries: z.number().int().min(0),
+      ttlMs: z.number().int().min(0),
+    }),
   }),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
 type ConfigInput = z.input<typeof ConfigSchema>;
+export type RetentionRule = z.infer<typeof RetentionRuleSchema>;
+export type RankingProfileSettings = z.infer<typeof RankingProfileSettingsSchema>;
 
 export interface LoadConfigOptions {
   /**
@@ -168,6 +257,176 @@ export function loadConfig(
         overrides.jobs?.metricsCron ??
         mergedEnv.CRON_METRICS ??
         "*/15 * * * *",
+      decayCron:
+        overrides.jobs?.decayCron ??
+        mergedEnv.CRON_DECAY ??
+        "30 * * * *",
+      retentionCron:
+        overrides.jobs?.retentionCron ??
+        mergedEnv.CRON_RETENTION ??
+        "15 3 * * *",
+      trashPurgeCron:
+        overrides.jobs?.trashPurgeCron ??
+        mergedEnv.CRON_TRASH_PURGE ??
+        "45 3 * * *",
+    },
+    consolidation: {
+      batchSize:
+        overrides.consolidation?.batchSize ??
+        coerceInteger(mergedEnv.CONSOLIDATE_BATCH_SIZE, 500),
+      minAgeMs:
+        overrides.consolidation?.minAgeMs ??
+        coerceInteger(mergedEnv.CONSOLIDATE_MIN_AGE_MS, 3_600_000),
+      promoteThreshold:
+        overrides.consolidation?.promoteThreshold ??
+        coerceNumber(mergedEnv.CONSOLIDATE_PROMOTE_THRESHOLD, 0.6),
+      duplicateThreshold:
+        overrides.consolidation?.duplicateThreshold ??
+        coerceNumber(mergedEnv.CONSOLIDATE_DUPLICATE_THRESHOLD, 0.95),
+    },
+    dedupe: {
+      enabled:
+        overrides.dedupe?.enabled ??
+        coerceBoolean(mergedEnv.MEMORY_DEDUPE) ??
+        false,
+      threshold:
+        overrides.dedupe?.threshold ??
+        coerceNumber(mergedEnv.MEMORY_DEDUPE_THRESHOLD, 0.92),
+      importanceBoost:
+        overrides.dedupe?.importanceBoost ??
+        coerceNumber(mergedEnv.MEMORY_DEDUPE_IMPORTANCE_BOOST, 0.1),
+    },
+    decay: {
+      curve:
+        overrides.decay?.curve ??
+        (mergedEnv.DECAY_CURVE as ConfigInput["decay"]["curve"]) ??
+        "exponential",
+      halfLifeMs:
+        overrides.decay?.halfLifeMs ??
+        coerceInteger(mergedEnv.DECAY_HALF_LIFE_MS, 2_592_000_000),
+      floor:
+        overrides.decay?.floor ??
+        coerceNumber(mergedEnv.DECAY_FLOOR, 0.05),
+      reinforcement:
+        overrides.decay?.reinforcement ??
+        coerceNumber(mergedEnv.DECAY_REINFORCEMENT, 0.05),
+      batchSize:
+        overrides.decay?.batchSize ??
+        coerceInteger(mergedEnv.DECAY_BATCH_SIZE, 1_000),
+    },
+    retention: {
+      batchSize:
+        overrides.retention?.batchSize ??
+        coerceInteger(mergedEnv.RETENTION_BATCH_SIZE, 500),
+      layers: {
+        stm: resolveRetentionRule(
+          overrides.retention?.layers?.stm,
+          mergedEnv.RETENTION_STM_MAX_AGE_MS,
+          mergedEnv.RETENTION_STM_KEEP_IMPORTANCE,
+          // Off until a max age is configured, since retention deletes rows for good.
+          { maxAgeMs: 0, keepImportanceAbove: 0.8 },
+        ),
+        ltm: resolveRetentionRule(
+          overrides.retention?.layers?.ltm,
+          mergedEnv.RETENTION_LTM_MAX_AGE_MS,
+          mergedEnv.RETENTION_LTM_KEEP_IMPORTANCE,
+          null,
+        ),
+        episodic: resolveRetentionRule(
+          overrides.retention?.layers?.episodic,
+          mergedEnv.RETENTION_EPISODIC_MAX_AGE_MS,
+          mergedEnv.RETENTION_EPISODIC_KEEP_IMPORTANCE,
+          null,
+        ),
+        semantic: resolveRetentionRule(
+          overrides.retention?.layers?.semantic,
+          mergedEnv.RETENTION_SEMANTIC_MAX_AGE_MS,
+          mergedEnv.RETENTION_SEMANTIC_KEEP_IMPORTANCE,
+          null,
+        ),
+        documentary: resolveRetentionRule(
+          overrides.retention?.layers?.documentary,
+          mergedEnv.RETENTION_DOCUMENTARY_MAX_AGE_MS,
+          mergedEnv.RETENTION_DOCUMENTARY_KEEP_IMPORTANCE,
+          null,
+        ),
+      },
+    },
+    trash: {
+      gracePeriodMs:
+        overrides.trash?.gracePeriodMs ??
+        coerceInteger(mergedEnv.TRASH_GRACE_PERIOD_MS, 30 * DAY_MS),
+    },
+    namespace: {
+      default:
+        overrides.namespace?.default ??
+        (mergedEnv.DEFAULT_NAMESPACE?.trim() || "default"),
+    },
+    search: {
+      fusion:
+        overrides.search?.fusion ??
+        (mergedEnv.SEARCH_FUSION as ConfigInput["search"]["fusion"]) ??
+        "rrf",
+      rrfK:
+        overrides.search?.rrfK ??
+        coerceInteger(mergedEnv.SEARCH_RRF_K, 60),
+      weights: {
+        vector:
+          overrides.search?.weights?.vector ??
+          coerceNumber(mergedEnv.SEARCH_WEIGHT_VECTOR, 0.7),
+        text:
+          overrides.search?.weights?.text ??
+          coerceNumber(mergedEnv.SEARCH_WEIGHT_TEXT, 0.3),
+        graph:
+          overrides.search?.weights?.graph ??
+          coerceNumber(mergedEnv.SEARCH_WEIGHT_GRAPH, 0.2),
+      },
+      graphHops:
+        overrides.search?.graphHops ??
+        coerceInteger(mergedEnv.SEARCH_GRAPH_HOPS, 2),
+      ranking: {
+        profile:
+          overrides.search?.ranking?.profile ??
+          (mergedEnv.SEARCH_PROFILE as ConfigInput["search"]["ranking"]["profile"]) ??
+          "relevance",
+        profiles: {
+          relevance: resolveRankingProfile(
+            overrides.search?.ranking?.profiles?.relevance,
+            mergedEnv,
+            "RELEVANCE",
+            { recencyWeight: 0, importanceWeight: 0, halfLifeMs: 30 * DAY_MS },
+          ),
+          recent: resolveRankingProfile(
+            overrides.search?.ranking?.profiles?.recent,
+            mergedEnv,
+            "RECENT",
+            { recencyWeight: 0.5, importanceWeight: 0.1, halfLifeMs: 7 * DAY_MS },
+          ),
+          important: resolveRankingProfile(
+            overrides.search?.ranking?.profiles?.important,
+            mergedEnv,
+            "IMPORTANT",
+            { recencyWeight: 0.1, importanceWeight: 0.5, halfLifeMs: 30 * DAY_MS },
+          ),
+          balanced: resolveRankingProfile(
+            overrides.search?.ranking?.profiles?.balanced,
+            mergedEnv,
+            "BALANCED",
+            { recencyWeight: 0.25, importanceWeight: 0.25, halfLifeMs: 30 * DAY_MS },
+          ),
+        },
+      },
+      cache: {
+        resultEntries:
+          overrides.search?.cache?.resultEntries ??
+          coerceInteger(mergedEnv.SEARCH_CACHE_SIZE, 500),
+        embeddingEntries:
+          overrides.search?.cache?.embeddingEntries ??
+          coerceInteger(mergedEnv.SEARCH_EMBEDDING_CACHE_SIZE, 1_000),
+        ttlMs:
+          overrides.search?.cache?.ttlMs ??
+          coerceInteger(mergedEnv.SEARCH_CACHE_TTL_MS, 300_000),
+      },
     },
   };
 
@@ -221,6 +480,80 @@ function coerceInteger(
   throw new Error("Unable to coerce integer value from input");
 }
 
+function coerceNumber(
+  value?: string | number | null,
+  fallback?: number,
+): number {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+
+  if (typeof value === "string" && value.trim().length) {
+    const parsed = Number.parseFloat(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+
+  if (typeof fallback === "number") {
+    return fallback;
+  }
+
+  throw new Error("Unable to coerce numeric value from input");
+}
+
+/**
+ * Resolves a layer's retention rule. A max age of `0`/`off` disables retention for the
+ * layer; a keep-importance of `off` purges regardless of importance.
+ */
+function resolveRetentionRule(
+  override: RetentionRule | null | undefined,
+  maxAgeEnv: string | undefined,
+  keepImportanceEnv: string | undefined,
+  fallback: RetentionRule | null,
+): RetentionRule | null {
+  if (override !== undefined) {
+    return override;
+  }
+
+  const maxAgeMs = isDisabled(maxAgeEnv)
+    ? 0
+    : coerceInteger(maxAgeEnv, fallback?.maxAgeMs ?? 0);
+  if (maxAgeMs <= 0) {
+    return null;
+  }
+
+  const keepImportanceAbove = isDisabled(keepImportanceEnv)
+    ? null
+    : keepImportanceEnv?.trim()
+      ? coerceNumber(keepImportanceEnv)
+      : (fallback?.keepImportanceAbove ?? null);
+
+  return { maxAgeMs, keepImportanceAbove };
+}
+
+function isDisabled(value?: string): boolean {
+  return ["off", "none"].includes(value?.trim().toLowerCase() ?? "");
+}
+
+/** Reads `SEARCH_PROFILE_<NAME>_RECENCY_WEIGHT`, `_IMPORTANCE_WEIGHT` and `_HALF_LIFE_MS`. */
+function resolveRankingProfile(
+  override: RankingProfileSettings | undefined,
+  env: Record<string, string | undefined>,
+  name: string,
+  fallback: RankingProfileSettings,
+): RankingProfileSettings {
+  if (override !== undefined) {
+    return override;
+  }
+  const prefix = `SEARCH_PROFILE_${name}`;
+  return {
+    recencyWeight: coerceNumber(env[`${prefix}_RECENCY_WEIGHT`], fallback.recencyWeight),
+    importanceWeight: coerceNumber(env[`${prefix}_IMPORTANCE_WEIGHT`], fallback.importanceWeight),
+    halfLifeMs: coerceInteger(env[`${prefix}_HALF_LIFE_MS`], fallback.halfLifeMs),
+  };
+}
+
 function resolvePath(
   input: string | undefined,
   baseDir: string,
@@ -6,9 +6,16 @@ import { createLogger, type AppLogger } from "./logging";
 import { applyMigrations } from "./database/migrations";
 import { createSQLiteClient, type SQLiteClient } from "./database/sqlite";
 import { VectraAdapter } from "./vector/vectra";
+import { DEFAULT_NAMESPACE } from "./repositories/base";
 import { DocumentRepository } from "./repositories/document-repository";
 import { DocumentChunkRepository } from "./repositories/document-chunk-repository";
 import { MemoryRepository } from "./repositories/memory-repository";
+import { MemoryRelationRepository } from "./repositories/memory-relation-repository";
+import { MentionRepository } from "./repositories/mention-repository";
+import { EpisodeRepository } from "./repositories/episode-repository";
+import { SessionRepository } from "./repositories/session-repository";
+import { TrashRepository } from "./repositories/trash-repository";
+import { NamespaceRepository } from "./repositories/namespace-repository";
 import { KnowledgeGraphRepository } from "./repositories/knowledge-graph-repository";
 import { TagRepository } from "./repositories/tag-repository";
 import { AnalyticsRepository } from "./repositories/analytics-repository";
@@ -18,11 +25,19 @@ import {
   SlidingWindowTextSplitter,
 } from "./services/document-service";
 import { DefaultMemoryService } from "./services/memory-service";
+import { DefaultConsolidationService } from "./services/consolidation-service";
+import { DefaultDecayService } from "./services/decay-service";
+import { DefaultRetentionService } from "./services/retention-service";
+import { DefaultTrashService } from "./services/trash-service";
+import { DefaultNamespaceService } from "./services/namespace-service";
+import { DefaultEpisodeService } from "./services/episode-service";
+import { DefaultSessionService } from "./services/session-service";
 import {
   DefaultKnowledgeGraphService,
   CompromiseEntityExtractor,
 } from "./services/knowledge-graph-service";
 import { DefaultSearchService } from "./services/search-service";
+import { DefaultUnifiedSearchService } from "./services/unified-search-service";
 import { DefaultAnalyticsService } from "./services/analytics-service";
 import { DefaultSystemService } from "./services/system-service";
 import { TransformersEmbeddingProvider } from "./services/embedding";
@@ -32,6 +47,12 @@ export interface RepositoryRegistry {
   document: DocumentRepository;
   documentChunks: DocumentChunkRepository;
   memory: MemoryRepository;
+  memoryRelations: MemoryRelationRepository;
+  mentions: MentionRepository;
+  episodes: EpisodeRepository;
+  sessions: SessionRepository;
+  trash: TrashRepository;
+  namespaces: NamespaceRepository;
   knowledgeGraph: KnowledgeGraphRepository;
   tags: TagRepository;
   analytics: AnalyticsRepository;
@@ -86,23 +107,62 @@ export async function createAppContainer(
     documentCollection: config.vectra.documentCollection,
   });
   await vectra.initialize();
+  // Vectors written before namespaces existed belong to the same namespace migration 0012
+  // gave their rows.
+  const backfilled = await vectra.backfillNamespace(DEFAULT_NAMESPACE);
+  if (backfilled.memories > 0 || backfilled.docChunks > 0) {
+    logger.info(backfilled, "Backfilled vector namespaces");
+  }
 
   const documentRepository = new DocumentRepository(sqlite);
   const documentChunkRepository = new DocumentChunkRepository(sqlite);
   const memoryRepository = new MemoryRepository(sqlite);
+  const memoryRelationRepository = new MemoryRelationRepository(sqlite);
+  const mentionRepository = new MentionRepository(sqlite);
+  const episodeRepository = new EpisodeRepository(sqlite);
+  const sessionRepository = new SessionRepository(sqlite);
+  const trashRepository = new TrashRepository(sqlite);
+  const namespaceRepository = new NamespaceRepository(sqlite);
   const knowledgeRepository = new KnowledgeGraphRepository(sqlite);
   const tagRepository = new TagRepository(sqlite);
   const analyticsRepository = new AnalyticsRepository(sqlite);
   const jobRepository = new JobRepository(sqlite);
 
+  // Vectors written before they carried session and episode ids cannot be filtered by them.
+  const rescoped = await vectra.backfillMemoryScopes(memoryRepository.listSessionAssignments());
+  if (rescoped > 0) {
+    logger.info({ memories: rescoped }, "Backfilled vector session and episode ids");
+  }
+
   const embeddings = new TransformersEmbeddingProvider(config.transformer.model);
   const textSplitter = new SlidingWindowTextSplitter();
   const entityExtractor = new CompromiseEntityExtractor();
 
+  const fusion = {
+    strategy: config.search.fusion,
+    weights: config.search.weights,
+    rrfK: config.search.rrfK,
+  };
+
+  const analyticsService = new DefaultAnalyticsService({
+    repository: analyticsRepository,
+  });
+
   const searchService = new DefaultSearchService({
     memoryRepository,
     sqlite,
     vectra,
+    relationRepository: memoryRelationRepository,
+    mentionRepository,
+    defaultNamespace: config.namespace.default,
+    fusion,
+    knowledgeRepository,
+    entityExtractor,
+    graphHops: config.search.graphHops,
+    embeddings,
+    analytics: analyticsService,
+    cache: config.search.cache,
+    ranking: config.search.ranking,
   });
 
   const documentService = new DefaultDocumentService({
@@ -114,6 +174,9 @@ export async function createAppContainer(
     textSplitter,
     entityExtractor,
     memoryRepository,
+    mentionRepository,
+    defaultNamespace: config.namespace.default,
+    fusion,
   });
 
   const memoryService = new DefaultMemoryService({
@@ -122,6 +185,74 @@ export async function createAppContainer(
     embeddings,
     searchService,
     knowledgeRepository,
+    documentRepository,
+    chunkRepository: documentChunkRepository,
+    relationRepository: memoryRelationRepository,
+    entityExtractor,
+    mentionRepository,
+    reinforcement: config.decay.reinforcement,
+    dedupe: config.dedupe,
+    defaultNamespace: config.namespace.default,
+  });
+
+  const unifiedSearchService = new DefaultUnifiedSearchService({
+    memoryService,
+    documentService,
+    knowledgeRepository,
+    embeddings,
+    defaultNamespace: config.namespace.default,
+    fusion,
+  });
+
+  const consolidationService = new DefaultConsolidationService({
+    memoryRepository,
+    vectra,
+    embeddings,
+    settings: config.consolidation,
+    knowledgeRepository,
+    entityExtractor,
+  });
+
+  const decayService = new DefaultDecayService({
+    memoryRepository,
+    vectra,
+    settings: config.decay,
+  });
+
+  const retentionService = new DefaultRetentionService({
+    memoryRepository,
+    vectra,
+    settings: config.retention,
+  });
+
+  const trashService = new DefaultTrashService({
+    trashRepository,
+    memoryRepository,
+    documentRepository,
+    chunkRepository: documentChunkRepository,
+    knowledgeRepository,
+    vectra,
+    settings: config.trash,
+    defaultNamespace: config.namespace.default,
+  });
+
+  const namespaceService = new DefaultNamespaceService({
+    namespaceRepository,
+    defaultNamespace: config.namespace.default,
+  });
+
+  const episodeService = new DefaultEpisodeService({
+    episodeRepository,
+    memoryRepository,
+    memoryService,
+    defaultNamespace: config.namespace.default,
+  });
+
+  const sessionService = new DefaultSessionService({
+    sessionRepository,
+    memoryRepository,
+    memoryService,
+    defaultNamespace: config.namespace.default,
   });
 
   const knowledgeService = new DefaultKnowledgeGraphService({
@@ -130,11 +261,9 @@ export async function createAppContainer(
     memoryRepository,
     documentChunkRepository,
     entityExtractor,
+    defaultNamespace: config.namespace.default,
   });
 
-  const analyticsService = new DefaultAnalyticsService({
-    repository: analyticsRepository,
-  });
 
   const systemService = new DefaultSystemService({
     config,
@@ -145,8 +274,16 @@ export async function createAppContainer(
   const services: ServiceRegistry = {
     document: documentService,
     memory: memoryService,
+    consolidation: consolidationService,
+    decay: decayService,
+    retention: retentionService,
+    trash: trashService,
+    namespace: namespaceService,
+    episode: episodeService,
+    session: sessionService,
     knowledge: knowledgeService,
     search: searchService,
+    unifiedSearch: unifiedSearchService,
     analytics: analyticsService,
     system: systemService,
   };
@@ -155,6 +292,12 @@ export async function createAppContainer(
     document: documentRepository,
     documentChunks: documentChunkRepository,
     memory: memoryRepository,
+    memoryRelations: memoryRelationRepository,
+    mentions: mentionRepository,
+    episodes: episodeRepository,
+    sessions: sessionRepository,
+    trash: trashRepository,
+    namespaces: namespaceRepository,
     knowledgeGraph: knowledgeRepository,
     tags: tagRepository,
     analytics: analyticsRepository,
@@ -3,6 +3,8 @@ export type DatabaseErrorCode =
   | "SQLITE_BUSY"
   | "SQLITE_SCHEMA"
   | "NOT_FOUND"
+  | "PINNED"
+  | "INVALID_QUERY"
   | "UNKNOWN";
 
 export interface DatabaseErrorOptions {
@@ -32,6 +34,26 @@ export class NotFoundError extends DatabaseError {
   }
 }
 
+export class PinnedMemoryError extends DatabaseError {
+  readonly memoryId: string;
+
+  constructor(memoryId: string, options: DatabaseErrorOptions = {}) {
+    super(`Memory ${memoryId} is pinned; pass force to modify or delete it`, "PINNED", options);
+    this.name = "PinnedMemoryError";
+    this.memoryId = memoryId;
+  }
+}
+
+export class FtsQueryError extends DatabaseError {
+  readonly query: string;
+
+  constructor(query: string, reason: string, options: DatabaseErrorOptions = {}) {
+    super(`Invalid full-text query ${JSON.stringify(query)}: ${reason}`, "INVALID_QUERY", options);
+    this.name = "FtsQueryError";
+    this.query = query;
+  }
+}
+
 export function isDatabaseError(error: unknown): error is DatabaseError {
   return error instanceof DatabaseError;
 }
@@ -15,6 +15,12 @@ export interface ApplyMigrationsResult {
 
 const MIGRATIONS_TABLE = "schema_migrations";
 
+/**
+ * Marker line for migrations that rebuild tables referenced by foreign keys. They run with
+ * enforcement switched off and are checked for dangling references before committing.
+ */
+const FOREIGN_KEYS_OFF = /^--\s*migrate:foreign-keys-off\s*$/m;
+
 export async function loadMigrations(directory: string): Promise<Migration[]> {
   const resolvedDirectory = path.resolve(directory);
   const entries = await fs.readdir(resolvedDirectory);
@@ -67,13 +73,28 @@ export async function applyMigrations(
       continue;
     }
 
-    await client.transaction(async (trx) => {
-      trx.exec(migration.sql);
-      trx.run(
-        `INSERT INTO ${MIGRATIONS_TABLE} (name, applied_at) VALUES (?, ?);`,
-        [migration.name, Date.now()],
-      );
-    });
+    // PRAGMA foreign_keys is a no-op inside a transaction, so it is toggled around it.
+    const foreignKeysOff = FOREIGN_KEYS_OFF.test(migration.sql);
+    if (foreignKeysOff) {
+      client.exec("PRAGMA foreign_keys=OFF;");
+    }
+
+    try {
+      await client.transaction(async (trx) => {
+        trx.exec(migration.sql);
+        if (foreignKeysOff) {
+          assertForeignKeys(trx, migration.name);
+        }
+        trx.run(
+          `INSERT INTO ${MIGRATIONS_TABLE} (name, applied_at) VALUES (?, ?);`,
+          [migration.name, Date.now()],
+        );
+      });
+    } finally {
+      if (foreignKeysOff) {
+        client.exec("PRAGMA foreign_keys=ON;");
+      }
+    }
 
     applied.push(migration.name);
   }
@@ -81,6 +102,18 @@ export async function applyMigrations(
   return { applied, skipped };
 }
 
+function assertForeignKeys(client: SQLiteClient, migration: string): void {
+  const violations = client.all<{ table: string; parent: string }>(
+    "PRAGMA foreign_key_check;",
+  );
+  if (violations.length > 0) {
+    const [first] = violations;
+    throw new Error(
+      `Migration ${migration} left ${violations.length} dangling foreign key(s), e.g. ${first!.table} -> ${first!.parent}`,
+    );
+  }
+}
+
 export async function migrateDatabase(
   filepath: string,
   options: { directory: string },
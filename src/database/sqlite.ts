@@ -1,5 +1,6 @@
 import { Database, type Statement } from "bun:sqlite";
 import { ensureDirSync } from "fs-extra";
+import { AsyncLocalStorage } from "node:async_hooks";
 import path from "node:path";
 import { DatabaseError, normalizeSQLiteError } from "./errors";
 
@@ -18,6 +19,10 @@ export interface SQLiteConnectionOptions {
 export class SQLiteClient {
   #db: Database;
   #telemetry?: (event: SQLiteTelemetryEvent) => void;
+  /** Nesting depth of the transaction the current async call chain runs in. */
+  #transactionDepth = new AsyncLocalStorage<number>();
+  /** Settles when the open top-level transaction ends. */
+  #transactionQueue: Promise<void> = Promise.resolve();
 
   constructor(options: SQLiteConnectionOptions) {
     const { filepath, readonly = false, busyTimeoutMs = 5000, telemetry } = options;
@@ -103,17 +108,49 @@ export class SQLiteClient {
     }
   }
 
+  /**
+   * Runs `fn` in a transaction. Calls made from inside `fn` become savepoints of it; calls from
+   * other async call chains wait until it commits or rolls back, so concurrent callers that
+   * await inside their transactions cannot write into each other's.
+   */
   async transaction<T>(
     fn: (client: SQLiteClient) => Promise<T> | T,
   ): Promise<T> {
-    this.exec("BEGIN IMMEDIATE TRANSACTION;");
+    const depth = this.#transactionDepth.getStore();
+    if (depth !== undefined) {
+      return this.#transactionDepth.run(depth + 1, () => this.#runTransaction(fn, `sp_${depth}`));
+    }
+
+    const previous = this.#transactionQueue;
+    let release!: () => void;
+    this.#transactionQueue = new Promise((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await this.#transactionDepth.run(1, () => this.#runTransaction(fn));
+    } finally {
+      release();
+    }
+  }
+
+  async #runTransaction<T>(
+    fn: (client: SQLiteClient) => Promise<T> | T,
+    savepoint?: string,
+  ): Promise<T> {
+    this.exec(savepoint ? `SAVEPOINT ${savepoint};` : "BEGIN IMMEDIATE TRANSACTION;");
     try {
       const result = await fn(this);
-      this.exec("COMMIT;");
+      this.exec(savepoint ? `RELEASE ${savepoint};` : "COMMIT;");
       return result;
     } catch (error) {
       try {
-        this.exec("ROLLBACK;");
+        if (savepoint) {
+          this.exec(`ROLLBACK TO ${savepoint};`);
+          this.exec(`RELEASE ${savepoint};`);
+        } else {
+          this.exec("ROLLBACK;");
+        }
       } catch (rollbackError) {
         throw new DatabaseError("Failed to rollback transaction", "UNKNOWN", {
           cause: rollbackError,
@@ -2,21 +2,6 @@ import type { AppContainer } from "../container";
 import type { ScheduledJobDefinition } from "./scheduler";
 import { createBackupSnapshot } from "../operations/backup";
 
-function pickSampleMemories(container: AppContainer): number {
-  const layers: Array<"stm" | "ltm" | "episodic" | "semantic" | "documentary"> = [
-    "stm",
-    "ltm",
-    "episodic",
-    "semantic",
-    "documentary",
-  ];
-  let count = 0;
-  for (const layer of layers) {
-    count += container.repositories.memory.listByLayer(layer, 25).length;
-  }
-  return count;
-}
-
 export function buildScheduledJobs(container: AppContainer): ScheduledJobDefinition[] {
   const { config, logger } = container;
 
@@ -24,10 +9,69 @@ export function buildScheduledJobs(container: AppContainer): ScheduledJobDefinit
     {
       name: "memory.consolidate",
       schedule: config.jobs.consolidateCron,
-      description: "Evaluates short-term memories for consolidation into long-term storage.",
+      description: "Promotes qualifying short-term memories and merges near-duplicates.",
+      task: async () => {
+        const report = await container.services.consolidation.consolidate();
+        logger.info(
+          {
+            scanned: report.scanned,
+            promoted: report.promoted,
+            merged: report.merged,
+            retained: report.retained,
+          },
+          "Consolidation completed",
+        );
+        return { report };
+      },
+    },
+    {
+      name: "memory.decay",
+      schedule: config.jobs.decayCron,
+      description: "Decays memory importance over time and syncs vector metadata.",
+      task: async () => {
+        const report = await container.services.decay.applyDecay();
+        logger.info(
+          {
+            curve: report.curve,
+            scanned: report.scanned,
+            decayed: report.decayed,
+          },
+          "Importance decay completed",
+        );
+        return { report };
+      },
+    },
+    {
+      name: "memory.retention",
+      schedule: config.jobs.retentionCron,
+      description: "Purges expired memories and applies per-layer retention rules.",
+      task: async () => {
+        const report = await container.services.retention.purge();
+        logger.info(
+          {
+            expired: report.expired,
+            byLayer: report.byLayer,
+            purged: report.purged,
+          },
+          "Retention purge completed",
+        );
+        return { report };
+      },
+    },
+    {
+      name: "trash.purge",
+      schedule: config.jobs.trashPurgeCron,
+      description: "Permanently deletes trashed items past the grace period, including their vectors.",
       task: async () => {
-        const sample = pickSampleMemories(container);
-        logger.info({ sample }, "Consolidation scan completed");
+        const report = await container.services.trash.purge({ allNamespaces: true });
+        logger.info(
+          {
+            byKind: report.byKind,
+            purged: report.purged,
+          },
+          "Trash purge completed",
+        );
+        return { report };
       },
     },
     {
@@ -61,15 +105,22 @@ export function buildScheduledJobs(container: AppContainer): ScheduledJobDefinit
     {
       name: "analytics.metrics",
       schedule: config.jobs.metricsCron,
-      description: "Records operational metrics for observability dashboards.",
+      description: "Summarizes recent search metrics for observability dashboards.",
       task: async () => {
+        // Searches record their own metrics; this only reports the recent aggregate.
+        const metrics = container.services.analytics.listRecentMetrics(500);
+        const hits = metrics.filter((metric) => metric.cacheHit).length;
+        const totalMs = metrics.reduce((sum, metric) => sum + metric.queryMs, 0);
         const stats = await container.vectra.stats();
-        container.services.analytics.recordMetric({
-          timestamp: Date.now(),
-          queryMs: 0,
-          cacheHit: false,
-          resultCount: stats.memories + stats.docChunks,
-        });
+        logger.info(
+          {
+            searches: metrics.length,
+            cacheHitRate: metrics.length ? hits / metrics.length : 0,
+            avgQueryMs: metrics.length ? totalMs / metrics.length : 0,
+            vectors: stats.memories + stats.docChunks,
+          },
+          "Search metrics summarized",
+        );
       },
     },
   ];
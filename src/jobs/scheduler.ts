@@ -2,11 +2,16 @@ import cron, { type ScheduledTask } from "node-cron";
 import type { AppLogger } from "../logging";
 import type { JobRepository } from "../repositories/job-repository";
 
+/**
+ * Optional summary returned by a job task; persisted alongside the run metadata.
+ */
+export type ScheduledJobResult = Record<string, unknown>;
+
 export interface ScheduledJobDefinition {
   name: string;
   schedule: string;
   description?: string;
-  task: () => Promise<void> | void;
+  task: () => Promise<ScheduledJobResult | void> | ScheduledJobResult | void;
 }
 
 interface RegisteredJob {
@@ -104,9 +109,10 @@ export class JobScheduler {
     this.#logger.info({ job: definition.name }, "Job started");
 
     try {
-      await Promise.resolve(definition.task());
+      const result = await Promise.resolve(definition.task());
       const durationMs = Date.now() - start;
       this.#jobRepository.markRun(definition.name, "succeeded", {
+        ...(result ?? {}),
         durationMs,
       });
       this.#logger.info(
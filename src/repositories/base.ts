@@ -1,13 +1,30 @@
 import { NotFoundError } from "../database/errors";
 import type { SQLiteClient } from "../database/sqlite";
 
+/** Namespace of rows written without one; matches the column default from migration 0012. */
+export const DEFAULT_NAMESPACE = "default";
+
 export abstract class BaseRepository {
   protected readonly db: SQLiteClient;
+  #version = 0;
 
   protected constructor(db: SQLiteClient) {
     this.db = db;
   }
 
+  /**
+   * Incremented by every write the repository marks with `markChanged`, so callers can tell
+   * when derived data such as cached search results went stale.
+   */
+  get version(): number {
+    return this.#version;
+  }
+
+  /** Runs `fn` in one transaction with the writes of any repository sharing the connection. */
+  transaction<T>(fn: () => Promise<T> | T): Promise<T> {
+    return this.db.transaction(() => fn());
+  }
+
   protected parseJson<T>(value: unknown, fallback: T): T {
     if (typeof value !== "string") {
       return fallback;
@@ -20,6 +37,10 @@ export abstract class BaseRepository {
     }
   }
 
+  protected markChanged(): void {
+    this.#version += 1;
+  }
+
   protected stringifyJson(value: unknown): string {
     return JSON.stringify(value ?? {});
   }
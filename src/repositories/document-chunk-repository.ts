@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
-import { BaseRepository } from "./base";
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
+import { toFtsTermsQuery } from "./fts";
 import type {
   DocumentChunkRecord,
   NewDocumentChunkRecord,
@@ -17,6 +18,19 @@ interface DocumentChunkRow {
   metadata: string;
 }
 
+// Chunks of trashed documents are hidden from entity and full-text lookups.
+const LIVE_DOCUMENT =
+  "doc_id IN (SELECT id FROM documents WHERE deleted_at IS NULL)";
+
+function namespaceFilter(namespaces: string[] | undefined, prefix = ""): string {
+  if (!namespaces) {
+    return "";
+  }
+  return `AND ${prefix}doc_id IN (SELECT id FROM documents WHERE namespace IN (${
+    namespaces.map(() => "?").join(",") || "NULL"
+  }))`;
+}
+
 export class DocumentChunkRepository extends BaseRepository {
   insert(chunk: NewDocumentChunkRecord): DocumentChunkRecord {
     const record: DocumentChunkRecord = {
@@ -134,27 +148,113 @@ export class DocumentChunkRepository extends BaseRepository {
     return rows.map((row) => this.#map(row));
   }
 
-  searchByEntityName(entityName: string, limit = 100): DocumentChunkRecord[] {
-    // Use FTS5 to search for entity name in chunk content
-    const rows = this.db.all<{ chunk_id: string }>(
-      `SELECT chunk_id FROM fts_doc_chunks
+  /** Chunks among `ids` whose document is live and in `namespaces` (any when omitted). */
+  listLiveByIds(ids: string[], namespaces?: string[]): DocumentChunkRecord[] {
+    if (ids.length === 0) {
+      return [];
+    }
+    const rows = this.db.all<DocumentChunkRow>(
+      `SELECT * FROM doc_chunks
+       WHERE id IN (${ids.map(() => "?").join(",")})
+         AND ${LIVE_DOCUMENT}
+         ${namespaceFilter(namespaces)};`,
+      [...ids, ...(namespaces ?? [])],
+    );
+    return rows.map((row) => this.#map(row));
+  }
+
+  /**
+   * Full-text matches over live chunks, best first, optionally limited to `namespaces` and
+   * one document. `score` is the negated bm25 rank, so higher is better; `snippet` is an
+   * FTS5 excerpt with matched terms wrapped in `**`.
+   */
+  searchContent(
+    query: string,
+    options: { limit?: number; namespaces?: string[]; docId?: string } = {},
+  ): Array<{ chunk: DocumentChunkRecord; score: number; snippet: string }> {
+    const rows = this.db.all<DocumentChunkRow & { score: number; snippet: string }>(
+      `SELECT c.*, bm25(fts_doc_chunks) AS score,
+         snippet(fts_doc_chunks, 2, '**', '**', '…', 16) AS snippet
+       FROM fts_doc_chunks
+       JOIN doc_chunks c ON c.id = fts_doc_chunks.chunk_id
        WHERE fts_doc_chunks MATCH ?
+         AND c.${LIVE_DOCUMENT}
+         ${namespaceFilter(options.namespaces, "c.")}
+         ${options.docId ? "AND c.doc_id = ?" : ""}
+       ORDER BY score ASC
        LIMIT ?;`,
-      [entityName, limit],
+      [
+        query,
+        ...(options.namespaces ?? []),
+        ...(options.docId ? [options.docId] : []),
+        options.limit ?? 20,
+      ],
     );
+    return rows.map((row) => ({ chunk: this.#map(row), score: -row.score, snippet: row.snippet }));
+  }
 
-    if (rows.length === 0) {
-      return [];
+  /** Up to `count` chunks on each side of `chunk` in its document, in document order. */
+  listNeighbours(
+    chunk: DocumentChunkRecord,
+    count: number,
+  ): { before: DocumentChunkRecord[]; after: DocumentChunkRecord[] } {
+    if (count <= 0) {
+      return { before: [], after: [] };
     }
+    const before = this.db.all<DocumentChunkRow>(
+      `SELECT * FROM doc_chunks
+       WHERE doc_id = ? AND position_start < ?
+       ORDER BY position_start DESC
+       LIMIT ?;`,
+      [chunk.docId, chunk.positionStart, count],
+    );
+    const after = this.db.all<DocumentChunkRow>(
+      `SELECT * FROM doc_chunks
+       WHERE doc_id = ? AND position_start > ?
+       ORDER BY position_start ASC
+       LIMIT ?;`,
+      [chunk.docId, chunk.positionStart, count],
+    );
+    return {
+      before: before.reverse().map((row) => this.#map(row)),
+      after: after.map((row) => this.#map(row)),
+    };
+  }
+
+  /** Chunks mentioning an entity (via the `mentions` index), in document order. */
+  listByEntity(entityId: string, limit = 100): DocumentChunkRecord[] {
+    const rows = this.db.all<DocumentChunkRow>(
+      `SELECT * FROM doc_chunks
+       WHERE id IN (SELECT chunk_id FROM mentions WHERE entity_id = ?)
+         AND ${LIVE_DOCUMENT}
+       ORDER BY doc_id, position_start
+       LIMIT ?;`,
+      [entityId, limit],
+    );
+    return rows.map((row) => this.#map(row));
+  }
 
-    const chunkIds = rows.map((row) => row.chunk_id);
-    const placeholders = chunkIds.map(() => "?").join(",");
-    const chunkRows = this.db.all<DocumentChunkRow>(
-      `SELECT * FROM doc_chunks WHERE id IN (${placeholders});`,
-      chunkIds,
+  searchByEntityName(
+    entityName: string,
+    limit = 100,
+    namespace = DEFAULT_NAMESPACE,
+  ): DocumentChunkRecord[] {
+    // Use FTS5 to search for entity name in chunk content; its terms are quoted, so names
+    // with punctuation cannot break the query syntax. The namespace is filtered before the limit.
+    const query = toFtsTermsQuery(entityName);
+    if (!query) {
+      return [];
+    }
+    const rows = this.db.all<DocumentChunkRow>(
+      `SELECT c.* FROM fts_doc_chunks
+       JOIN doc_chunks c ON c.id = fts_doc_chunks.chunk_id
+       JOIN documents d ON d.id = c.doc_id
+       WHERE fts_doc_chunks MATCH ? AND d.namespace = ? AND d.deleted_at IS NULL
+       LIMIT ?;`,
+      [query, namespace, limit],
     );
 
-    return chunkRows.map((row) => this.#map(row));
+    return rows.map((row) => this.#map(row));
   }
 
   #map(row: DocumentChunkRow): DocumentChunkRecord {
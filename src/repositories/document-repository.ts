@@ -1,5 +1,5 @@
 import { randomUUID } from "node:crypto";
-import { BaseRepository } from "./base";
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
 import type {
   DocumentRecord,
   NewDocumentRecord,
@@ -7,6 +7,7 @@ import type {
 
 interface DocumentRow {
   id: string;
+  namespace: string;
   hash: string;
   source_path?: string | null;
   mime?: string | null;
@@ -21,6 +22,7 @@ export class DocumentRepository extends BaseRepository {
     const now = Date.now();
     const record: Required<NewDocumentRecord> = {
       id: input.id ?? randomUUID(),
+      namespace: input.namespace ?? DEFAULT_NAMESPACE,
       hash: input.hash,
       sourcePath: input.sourcePath ?? null,
       mime: input.mime ?? null,
@@ -32,10 +34,11 @@ export class DocumentRepository extends BaseRepository {
 
     this.db.run(
       `INSERT INTO documents (
-        id, hash, source_path, mime, title, metadata, ingested_at, size_bytes
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+        id, namespace, hash, source_path, mime, title, metadata, ingested_at, size_bytes
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?);`,
       [
         record.id,
+        record.namespace,
         record.hash,
         record.sourcePath,
         record.mime,
@@ -102,32 +105,60 @@ export class DocumentRepository extends BaseRepository {
     );
   }
 
+  /** Permanently removes a document, trashed or not; its chunks cascade. */
   delete(id: string): void {
     this.db.run("DELETE FROM documents WHERE id = ?;", [id]);
   }
 
+  /** Moves a document to the trash; its chunks stay until the document is purged. */
+  trash(id: string, deletedAt = Date.now()): void {
+    this.db.run(
+      "UPDATE documents SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL;",
+      [deletedAt, id],
+    );
+  }
+
+  /** Takes a document out of the trash; a no-op when it is not trashed. */
+  untrash(id: string): void {
+    this.db.run(
+      "UPDATE documents SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL;",
+      [id],
+    );
+  }
+
   findById(id: string): DocumentRecord | undefined {
     const row = this.db.get<DocumentRow>(
-      "SELECT * FROM documents WHERE id = ? LIMIT 1;",
+      "SELECT * FROM documents WHERE id = ? AND deleted_at IS NULL LIMIT 1;",
       [id],
     );
     return row ? this.#mapDocument(row) : undefined;
   }
 
-  findByHash(hash: string): DocumentRecord | undefined {
+  /**
+   * Hashes are unique per namespace across trashed documents too, so ingest can look past
+   * the trash.
+   */
+  findByHash(
+    hash: string,
+    namespace = DEFAULT_NAMESPACE,
+    includeTrashed = false,
+  ): DocumentRecord | undefined {
     const row = this.db.get<DocumentRow>(
-      "SELECT * FROM documents WHERE hash = ? LIMIT 1;",
-      [hash],
+      `SELECT * FROM documents
+       WHERE hash = ? AND namespace = ? ${includeTrashed ? "" : "AND deleted_at IS NULL"}
+       LIMIT 1;`,
+      [hash, namespace],
     );
     return row ? this.#mapDocument(row) : undefined;
   }
 
-  list(limit = 100, offset = 0): DocumentRecord[] {
+  list(limit = 100, offset = 0, namespace = DEFAULT_NAMESPACE): DocumentRecord[] {
     const rows = this.db.all<DocumentRow>(
       `SELECT * FROM documents
+       WHERE deleted_at IS NULL AND namespace = ?
        ORDER BY ingested_at DESC
        LIMIT ? OFFSET ?;`,
-      [limit, offset],
+      [namespace, limit, offset],
     );
     return rows.map((row) => this.#mapDocument(row));
   }
@@ -135,6 +166,7 @@ export class DocumentRepository extends BaseRepository {
   #mapDocument(row: DocumentRow): DocumentRecord {
     return {
       id: row.id,
+      namespace: row.namespace,
       hash: row.hash,
       sourcePath: row.source_path ?? undefined,
       mime: row.mime ?? undefined,
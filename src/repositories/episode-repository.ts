@@ -0,0 +1,141 @@
+import { randomUUID } from "node:crypto";
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
+import type {
+  EpisodeListFilter,
+  EpisodeRecord,
+  NewEpisodeRecord,
+} from "./types";
+
+interface EpisodeRow {
+  id: string;
+  namespace: string;
+  name: string;
+  session_id?: string | null;
+  metadata: string;
+  created_at: number;
+  ended_at?: number | null;
+  summary_memory_id?: string | null;
+  memory_count: number;
+  first_memory_at?: number | null;
+  last_memory_at?: number | null;
+}
+
+// Memory statistics exclude trashed memories, memories of other namespaces and the episode's
+// own summary memory.
+const EPISODE_MEMORIES = `m.episode_id = e.id AND m.namespace = e.namespace
+  AND m.deleted_at IS NULL AND m.id IS NOT e.summary_memory_id`;
+
+const EPISODE_COLUMNS = `
+  e.*,
+  (SELECT COUNT(*) FROM memories m WHERE ${EPISODE_MEMORIES}) AS memory_count,
+  (SELECT MIN(m.created_at) FROM memories m WHERE ${EPISODE_MEMORIES}) AS first_memory_at,
+  (SELECT MAX(m.created_at) FROM memories m WHERE ${EPISODE_MEMORIES}) AS last_memory_at
+`;
+
+export class EpisodeRepository extends BaseRepository {
+  create(input: NewEpisodeRecord): EpisodeRecord {
+    const id = input.id ?? randomUUID();
+
+    this.db.run(
+      `INSERT INTO episodes (id, namespace, name, session_id, metadata, created_at)
+       VALUES (?, ?, ?, ?, ?, ?);`,
+      [
+        id,
+        input.namespace ?? DEFAULT_NAMESPACE,
+        input.name,
+        input.sessionId ?? null,
+        this.stringifyJson(input.metadata ?? {}),
+        input.createdAt ?? Date.now(),
+      ],
+    );
+
+    return this.assertFound(this.findById(id), `Failed to load episode ${id}`);
+  }
+
+  end(
+    id: string,
+    endedAt: number,
+    summaryMemoryId: string | null = null,
+  ): EpisodeRecord {
+    this.db.run(
+      `UPDATE episodes SET ended_at = ?, summary_memory_id = ? WHERE id = ?;`,
+      [endedAt, summaryMemoryId, id],
+    );
+
+    return this.assertFound(
+      this.findById(id),
+      `Episode ${id} not found after update`,
+    );
+  }
+
+  findById(id: string): EpisodeRecord | undefined {
+    const row = this.db.get<EpisodeRow>(
+      `SELECT ${EPISODE_COLUMNS} FROM episodes e WHERE e.id = ? LIMIT 1;`,
+      [id],
+    );
+    return row ? this.#mapRow(row) : undefined;
+  }
+
+  /** Lists episodes newest first, or oldest first when `ascending` is set. */
+  list(
+    filter: EpisodeListFilter = {},
+    limit = 50,
+    offset = 0,
+    ascending = false,
+  ): EpisodeRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.namespace !== undefined) {
+      conditions.push("e.namespace = ?");
+      params.push(filter.namespace);
+    }
+
+    if (filter.sessionId) {
+      conditions.push("e.session_id = ?");
+      params.push(filter.sessionId);
+    }
+
+    if (filter.status === "open") {
+      conditions.push("e.ended_at IS NULL");
+    } else if (filter.status === "closed") {
+      conditions.push("e.ended_at IS NOT NULL");
+    }
+
+    if (typeof filter.from === "number") {
+      conditions.push("COALESCE(e.ended_at, ?) >= ?");
+      params.push(Number.MAX_SAFE_INTEGER, filter.from);
+    }
+
+    if (typeof filter.to === "number") {
+      conditions.push("e.created_at <= ?");
+      params.push(filter.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.all<EpisodeRow>(
+      `SELECT ${EPISODE_COLUMNS} FROM episodes e
+       ${where}
+       ORDER BY e.created_at ${ascending ? "ASC" : "DESC"}, e.rowid ${ascending ? "ASC" : "DESC"}
+       LIMIT ? OFFSET ?;`,
+      [...params, limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  #mapRow(row: EpisodeRow): EpisodeRecord {
+    return {
+      id: row.id,
+      namespace: row.namespace,
+      name: row.name,
+      sessionId: row.session_id ?? undefined,
+      metadata: this.parseJson<Record<string, unknown>>(row.metadata, {}),
+      createdAt: row.created_at,
+      endedAt: row.ended_at ?? undefined,
+      summaryMemoryId: row.summary_memory_id ?? undefined,
+      memoryCount: row.memory_count,
+      firstMemoryAt: row.first_memory_at ?? undefined,
+      lastMemoryAt: row.last_memory_at ?? undefined,
+    };
+  }
+}
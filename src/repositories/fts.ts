@@ -0,0 +1,353 @@
+import { FtsQueryError } from "../database/errors";
+import type { FtsQueryMode } from "../schemas/memory";
+
+/** Columns a caller-written query may filter on, per FTS5 table. */
+export const FTS_COLUMNS = {
+  memories: ["content", "summary", "layer"],
+  docChunks: ["content"],
+  entities: ["name", "type", "tags"],
+} as const;
+
+/** Splits free text into the terms the FTS5 tokenizer indexes: runs of letters and digits. */
+export function tokenizeFts(input: string): string[] {
+  return input.match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/** Wraps `text` in an FTS5 string, which matches it literally whatever it contains. */
+export function quoteFts(text: string): string {
+  return `"${text.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Turns free text into an FTS5 query matching every term as a prefix. Punctuation only
+ * separates terms, so quotes, hyphens and colons never reach the query syntax. Empty when
+ * `input` has no terms; MATCH rejects an empty query, so callers skip the search instead.
+ */
+export function toFtsPrefixQuery(input: string): string {
+  return tokenizeFts(input)
+    .map((term) => `${quoteFts(term)}*`)
+    .join(" ");
+}
+
+/** Turns free text into an FTS5 query matching every term exactly, anywhere in the row. */
+export function toFtsTermsQuery(input: string): string {
+  return tokenizeFts(input).map(quoteFts).join(" ");
+}
+
+/** Turns free text into an FTS5 query matching its terms next to each other, in order. */
+export function toFtsPhraseQuery(input: string): string {
+  const terms = tokenizeFts(input);
+  return terms.length > 0 ? quoteFts(terms.join(" ")) : "";
+}
+
+/**
+ * Builds the MATCH expression for `input`: `simple` matches every term as a prefix, `phrase`
+ * matches the terms as one phrase, and `fts` passes FTS5 query syntax (phrases, `AND`/`OR`/
+ * `NOT`, `NEAR`, column filters limited to `columns`) through once `validateFtsQuery` accepts it.
+ */
+export function toFtsQuery(
+  input: string,
+  mode: FtsQueryMode = "simple",
+  columns: readonly string[] = [],
+): string {
+  switch (mode) {
+    case "phrase":
+      return toFtsPhraseQuery(input);
+    case "fts":
+      validateFtsQuery(input, columns);
+      return input.trim();
+    default:
+      return toFtsPrefixQuery(input);
+  }
+}
+
+interface FtsToken {
+  kind: "term" | "operator" | "near" | "column" | "open" | "close" | "comma" | "plus" | "caret";
+  /** Source text of the token; column names, space-separated, for column filters. */
+  value: string;
+  at: number;
+}
+
+const BAREWORD = /[\p{L}\p{N}_\u001a]+/uy;
+const OPERATORS = new Set(["AND", "OR", "NOT"]);
+
+/**
+ * Checks a query in FTS5 syntax before it reaches SQLite, so a mistake is reported with its
+ * position rather than as `fts5: syntax error near ""`. Throws `FtsQueryError`.
+ *
+ * Follows the grammar of SQLite's FTS5 parser: phrases, NEAR groups and column-filtered
+ * phrases next to each other are implicitly ANDed, but a parenthesized group must be joined
+ * to its neighbours with AND, OR or NOT, and a column filter applies to one phrase, NEAR
+ * group or parenthesized group.
+ */
+export function validateFtsQuery(query: string, columns: readonly string[]): void {
+  const fail = (reason: string): never => {
+    throw new FtsQueryError(query, reason);
+  };
+  const tokens = lexFts(query, fail);
+  if (tokens.length === 0) {
+    fail("it has no terms");
+  }
+
+  let index = 0;
+  const peek = (): FtsToken | undefined => tokens[index];
+  const unexpected = (expected: string): never => {
+    const token = peek();
+    if (!token) {
+      return fail(`it ends where ${expected} is expected`);
+    }
+    if (token.kind === "close" && tokens[index - 1]?.kind === "open") {
+      return fail(`empty group at ${tokens[index - 1]!.at}`);
+    }
+    return fail(`unexpected "${token.value}" at ${token.at}; expected ${expected}`);
+  };
+
+  const columnFilter = (token: FtsToken): void => {
+    for (const column of token.value.split(" ")) {
+      if (!columns.includes(column)) {
+        fail(`unknown column "${column}" at ${token.at}; use one of ${columns.join(", ") || "none"}`);
+      }
+    }
+    index += 1;
+    if (peek()?.kind === "column") {
+      fail(`column filter at ${peek()!.at} cannot follow another column filter`);
+    }
+  };
+
+  // A term, or terms joined by "+" into one phrase.
+  const phrase = (): void => {
+    if (peek()?.kind !== "term") {
+      unexpected("a term");
+    }
+    index += 1;
+    while (peek()?.kind === "plus") {
+      index += 1;
+      if (peek()?.kind !== "term") {
+        unexpected('a term after "+"');
+      }
+      index += 1;
+    }
+  };
+
+  const nearGroup = (): void => {
+    const near = peek()!;
+    const notAllowed = (token: FtsToken): never =>
+      fail(`"${token.value}" at ${token.at} is not allowed inside NEAR`);
+    index += 1;
+    const first = peek();
+    if (first && first.kind !== "term" && first.kind !== "close") {
+      notAllowed(first);
+    }
+    do {
+      phrase();
+    } while (peek()?.kind === "term");
+    if (peek()?.kind === "comma") {
+      index += 1;
+      const distance = peek();
+      if (distance?.kind !== "term" || !/^\d+$/.test(distance.value) || tokens[index + 1]?.kind !== "close") {
+        fail(`NEAR distance at ${near.at} must be a number followed by ")"`);
+      }
+      index += 1;
+    }
+    const close = peek();
+    if (close?.kind !== "close") {
+      return close ? notAllowed(close) : fail(`NEAR at ${near.at} is never closed`);
+    }
+    index += 1;
+  };
+
+  // A phrase, a phrase anchored to the start of the column with "^", or a NEAR group.
+  const nearSet = (): void => {
+    const token = peek();
+    if (token?.kind === "caret") {
+      index += 1;
+      if (peek()?.kind !== "term") {
+        fail(`"^" at ${token.at} must be followed by a term`);
+      }
+      phrase();
+    } else if (token?.kind === "near") {
+      nearGroup();
+    } else if (token?.kind === "term") {
+      phrase();
+    } else if (token?.kind === "operator" || token?.kind === "plus") {
+      fail(`"${token.value}" at ${token.at} needs a term before it`);
+    } else {
+      unexpected("a term");
+    }
+  };
+
+  const startsNearSet = (token: FtsToken | undefined): boolean =>
+    token?.kind === "term" ||
+    token?.kind === "caret" ||
+    token?.kind === "near" ||
+    token?.kind === "column";
+
+  // A parenthesized group, or phrases and NEAR groups ANDed by being next to each other.
+  const operand = (): void => {
+    if (peek()?.kind === "column") {
+      columnFilter(peek()!);
+    }
+    if (peek()?.kind === "open") {
+      index += 1;
+      expression();
+      if (peek()?.kind !== "close") {
+        fail("a parenthesis is never closed");
+      }
+      index += 1;
+      return;
+    }
+    nearSet();
+    while (startsNearSet(peek())) {
+      if (peek()!.kind === "column") {
+        columnFilter(peek()!);
+        if (peek()?.kind === "open") {
+          fail(`"(" at ${peek()!.at} needs AND, OR or NOT before its column filter`);
+        }
+      }
+      nearSet();
+    }
+  };
+
+  const expression = (): void => {
+    operand();
+    while (peek()?.kind === "operator") {
+      const operator = peek()!;
+      index += 1;
+      if (!peek()) {
+        fail(`"${operator.value}" at ${operator.at} needs a term after it`);
+      }
+      operand();
+    }
+  };
+
+  expression();
+  const rest = peek();
+  if (rest?.kind === "close") {
+    fail(`unmatched ")" at ${rest.at}`);
+  }
+  if (rest?.kind === "comma") {
+    fail(`unexpected "," at ${rest.at}; only NEAR groups take a distance`);
+  }
+  if (rest) {
+    const previous = tokens[index - 1];
+    if (rest.kind === "open" && previous?.kind === "term" && previous.value.toUpperCase() === "NEAR") {
+      fail(`"${previous.value}" at ${previous.at} must be written NEAR to start a NEAR group`);
+    }
+    fail(`"${rest.value}" at ${rest.at} needs AND, OR or NOT before it`);
+  }
+}
+
+function lexFts(query: string, fail: (reason: string) => never): FtsToken[] {
+  const tokens: FtsToken[] = [];
+  let at = 0;
+  const skipSpace = () => {
+    while (at < query.length && /\s/.test(query[at]!)) {
+      at += 1;
+    }
+  };
+  const readBareword = (): string | undefined => {
+    BAREWORD.lastIndex = at;
+    const match = BAREWORD.exec(query);
+    if (match) {
+      at += match[0].length;
+    }
+    return match?.[0];
+  };
+  // Consumes a `:` after a column name or set, reporting whether there was one.
+  const readColon = (): boolean => {
+    const start = at;
+    skipSpace();
+    if (query[at] === ":") {
+      at += 1;
+      return true;
+    }
+    at = start;
+    return false;
+  };
+  // Consumes the prefix marker after a term, which may be separated from it by spaces.
+  const readStar = (): void => {
+    const start = at;
+    skipSpace();
+    if (query[at] === "*") {
+      at += 1;
+    } else {
+      at = start;
+    }
+  };
+  const readColumns = (start: number): string => {
+    // `{a b}` or a single bareword, then a colon.
+    if (query[at] === "{") {
+      const close = query.indexOf("}", at);
+      if (close === -1) {
+        fail(`unclosed "{" at ${at}`);
+      }
+      const names = query.slice(at + 1, close).trim().split(/\s+/).filter(Boolean);
+      at = close + 1;
+      if (names.length === 0 || !readColon()) {
+        fail(`column set at ${start} must list columns and be followed by ":"`);
+      }
+      return names.join(" ");
+    }
+    const name = readBareword();
+    if (!name || !readColon()) {
+      fail(`"-" at ${start} must start a column filter such as "-summary:"; quote terms containing "-"`);
+    }
+    return name!;
+  };
+
+  for (skipSpace(); at < query.length; skipSpace()) {
+    const start = at;
+    const char = query[at]!;
+    if (char === '"') {
+      let end = at + 1;
+      for (;;) {
+        end = query.indexOf('"', end);
+        if (end === -1) {
+          fail(`unterminated string starting at ${start}`);
+        }
+        if (query[end + 1] !== '"') {
+          break;
+        }
+        end += 2;
+      }
+      at = end + 1;
+      readStar();
+      tokens.push({ kind: "term", value: query.slice(start, at), at: start });
+    } else if (char === "(" || char === ")" || char === "," || char === "+") {
+      at += 1;
+      const kind = char === "(" ? "open" : char === ")" ? "close" : char === "," ? "comma" : "plus";
+      tokens.push({ kind, value: char, at: start });
+    } else if (char === "^") {
+      // Initial-token marker; the term it anchors follows.
+      at += 1;
+      tokens.push({ kind: "caret", value: char, at: start });
+    } else if (char === "{" || char === "-") {
+      at += char === "-" ? 1 : 0;
+      skipSpace();
+      tokens.push({ kind: "column", value: readColumns(start), at: start });
+    } else {
+      const word = readBareword();
+      if (word === undefined) {
+        fail(`unexpected "${char}" at ${start}; quote terms containing punctuation`);
+      }
+      const afterWord = at;
+      skipSpace();
+      if (word === "NEAR" && query[at] === "(") {
+        at += 1;
+        tokens.push({ kind: "near", value: word, at: start });
+      } else if (OPERATORS.has(word!)) {
+        at = afterWord;
+        tokens.push({ kind: "operator", value: word!, at: start });
+      } else {
+        at = afterWord;
+        if (readColon()) {
+          tokens.push({ kind: "column", value: word!, at: start });
+        } else {
+          readStar();
+          tokens.push({ kind: "term", value: word!, at: start });
+        }
+      }
+    }
+  }
+  return tokens;
+}
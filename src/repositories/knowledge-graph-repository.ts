@@ -1,5 +1,6 @@
 import { randomUUID } from "node:crypto";
-import { BaseRepository } from "./base";
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
+import { toFtsTermsQuery } from "./fts";
 import type {
   KnowledgeEdgeRecord,
   KnowledgeEntityRecord,
@@ -9,6 +10,7 @@ import type {
 
 interface EntityRow {
   id: string;
+  namespace: string;
   name: string;
   type: string;
   count: number;
@@ -19,6 +21,7 @@ interface EntityRow {
 
 interface EdgeRow {
   id: string;
+  namespace: string;
   src: string;
   dst: string;
   relation: string;
@@ -27,11 +30,17 @@ interface EdgeRow {
   metadata: string;
 }
 
+// Edges touching a trashed entity are hidden until the entity is restored or purged.
+const LIVE_EDGE = `src NOT IN (SELECT id FROM entities WHERE deleted_at IS NOT NULL)
+  AND dst NOT IN (SELECT id FROM entities WHERE deleted_at IS NOT NULL)`;
+
+/** Entity names are unique per namespace; the same name in two namespaces is two entities. */
 export class KnowledgeGraphRepository extends BaseRepository {
   upsertEntity(input: NewKnowledgeEntityRecord): KnowledgeEntityRecord {
     const now = Date.now();
     const record: Required<NewKnowledgeEntityRecord> = {
       id: input.id ?? randomUUID(),
+      namespace: input.namespace ?? DEFAULT_NAMESPACE,
       name: input.name,
       type: input.type,
       count: input.count ?? 0,
@@ -41,16 +50,18 @@ export class KnowledgeGraphRepository extends BaseRepository {
     };
 
     this.db.run(
-      `INSERT INTO entities (id, name, type, count, first_seen, last_seen, tags)
-       VALUES (?, ?, ?, ?, ?, ?, ?)
-       ON CONFLICT(name) DO UPDATE SET
+      `INSERT INTO entities (id, namespace, name, type, count, first_seen, last_seen, tags)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(namespace, name) DO UPDATE SET
          type = excluded.type,
          count = excluded.count,
          first_seen = MIN(first_seen, excluded.first_seen),
          last_seen = MAX(last_seen, excluded.last_seen),
-         tags = excluded.tags;`,
+         tags = excluded.tags,
+         deleted_at = NULL;`,
       [
         record.id,
+        record.namespace,
         record.name,
         record.type,
         record.count,
@@ -59,9 +70,10 @@ export class KnowledgeGraphRepository extends BaseRepository {
         JSON.stringify(record.tags),
       ],
     );
+    this.markChanged();
 
     return this.assertFound(
-      this.findByName(record.name),
+      this.findByName(record.name, record.namespace),
       `Failed to load entity ${record.name}`,
     );
   }
@@ -75,6 +87,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
        WHERE id = ?;`,
       [timestamp, countIncrement, id],
     );
+    this.markChanged();
 
     return this.assertFound(
       this.findById(id),
@@ -87,6 +100,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
       `UPDATE entities SET tags = ? WHERE id = ?;`,
       [JSON.stringify(tags), id],
     );
+    this.markChanged();
     return this.assertFound(
       this.findById(id),
       `Entity ${id} not found after tag update`,
@@ -120,6 +134,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
         `UPDATE entities SET ${fields.join(", ")} WHERE id = ?;`,
         params,
       );
+      this.markChanged();
     }
 
     return this.assertFound(
@@ -128,91 +143,214 @@ export class KnowledgeGraphRepository extends BaseRepository {
     );
   }
 
+  /** Permanently removes an entity, trashed or not; its edges and mentions cascade. */
   deleteEntity(id: string): void {
     this.db.run("DELETE FROM entities WHERE id = ?;", [id]);
+    this.markChanged();
+  }
+
+  /** Moves an entity to the trash. Its edges stay in place but are hidden while it is trashed. */
+  trashEntity(id: string, deletedAt = Date.now()): void {
+    this.db.run(
+      "UPDATE entities SET deleted_at = ? WHERE id = ? AND deleted_at IS NULL;",
+      [deletedAt, id],
+    );
+    this.markChanged();
+  }
+
+  /** Takes an entity out of the trash; a no-op when it is not trashed. */
+  untrashEntity(id: string): void {
+    this.db.run(
+      "UPDATE entities SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL;",
+      [id],
+    );
+    this.markChanged();
   }
 
   findById(id: string): KnowledgeEntityRecord | undefined {
     const row = this.db.get<EntityRow>(
-      "SELECT * FROM entities WHERE id = ? LIMIT 1;",
+      "SELECT * FROM entities WHERE id = ? AND deleted_at IS NULL LIMIT 1;",
       [id],
     );
     return row ? this.#mapEntity(row) : undefined;
   }
 
-  findByName(name: string): KnowledgeEntityRecord | undefined {
+  findByName(name: string, namespace = DEFAULT_NAMESPACE): KnowledgeEntityRecord | undefined {
     const row = this.db.get<EntityRow>(
-      "SELECT * FROM entities WHERE name = ? LIMIT 1;",
-      [name],
+      `SELECT * FROM entities
+       WHERE name = ? AND namespace = ? AND deleted_at IS NULL
+       LIMIT 1;`,
+      [name, namespace],
     );
     return row ? this.#mapEntity(row) : undefined;
   }
 
-  listEntities(limit = 100, offset = 0): KnowledgeEntityRecord[] {
+  /** Case-insensitive name lookup, preferring an exact-case match. */
+  findByNameIgnoreCase(
+    name: string,
+    namespace = DEFAULT_NAMESPACE,
+  ): KnowledgeEntityRecord | undefined {
+    const row = this.db.get<EntityRow>(
+      `SELECT * FROM entities
+       WHERE name = ? COLLATE NOCASE AND namespace = ? AND deleted_at IS NULL
+       ORDER BY name = ? DESC
+       LIMIT 1;`,
+      [name, namespace, name],
+    );
+    return row ? this.#mapEntity(row) : undefined;
+  }
+
+  /** Case-insensitive name lookup across `namespaces`, or every namespace when omitted. */
+  listByNameIgnoreCase(name: string, namespaces?: string[]): KnowledgeEntityRecord[] {
+    const filter = namespaces
+      ? `AND namespace IN (${namespaces.map(() => "?").join(",") || "NULL"})`
+      : "";
     const rows = this.db.all<EntityRow>(
       `SELECT * FROM entities
-       ORDER BY last_seen DESC
-       LIMIT ? OFFSET ?;`,
-      [limit, offset],
+       WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL ${filter}
+       ORDER BY namespace;`,
+      [name, ...(namespaces ?? [])],
+    );
+    return rows.map((row) => this.#mapEntity(row));
+  }
+
+  /** True when a trashed entity holds `name`, compared case-insensitively. */
+  isTrashedName(name: string, namespace = DEFAULT_NAMESPACE): boolean {
+    const row = this.db.get<{ id: string }>(
+      `SELECT id FROM entities
+       WHERE name = ? COLLATE NOCASE AND namespace = ? AND deleted_at IS NOT NULL
+       LIMIT 1;`,
+      [name, namespace],
+    );
+    return Boolean(row);
+  }
+
+  listEntitiesForMemory(memoryId: string): KnowledgeEntityRecord[] {
+    const rows = this.db.all<EntityRow>(
+      `SELECT * FROM entities
+       WHERE id IN (SELECT entity_id FROM mentions WHERE memory_id = ?)
+         AND deleted_at IS NULL
+       ORDER BY name;`,
+      [memoryId],
+    );
+    return rows.map((row) => this.#mapEntity(row));
+  }
+
+  listEntitiesForDocument(docId: string): KnowledgeEntityRecord[] {
+    const rows = this.db.all<EntityRow>(
+      `SELECT * FROM entities
+       WHERE id IN (
+         SELECT m.entity_id FROM mentions m
+         JOIN doc_chunks c ON c.id = m.chunk_id
+         WHERE c.doc_id = ?
+       )
+         AND deleted_at IS NULL
+       ORDER BY name;`,
+      [docId],
     );
     return rows.map((row) => this.#mapEntity(row));
   }
 
-  searchEntitiesByName(name: string, limit = 100, offset = 0): KnowledgeEntityRecord[] {
-    // Use FTS5 for name search
-    const rows = this.db.all<{ entity_id: string }>(
-      `SELECT entity_id FROM fts_entities
-       WHERE fts_entities MATCH ?
+  listEntities(limit = 100, offset = 0, namespace = DEFAULT_NAMESPACE): KnowledgeEntityRecord[] {
+    const rows = this.db.all<EntityRow>(
+      `SELECT * FROM entities
+       WHERE namespace = ? AND deleted_at IS NULL
+       ORDER BY last_seen DESC
        LIMIT ? OFFSET ?;`,
-      [name, limit, offset],
+      [namespace, limit, offset],
     );
+    return rows.map((row) => this.#mapEntity(row));
+  }
 
-    if (rows.length === 0) {
+  searchEntitiesByName(
+    name: string,
+    limit = 100,
+    offset = 0,
+    namespace = DEFAULT_NAMESPACE,
+  ): KnowledgeEntityRecord[] {
+    // Use FTS5 for name search with the name's terms quoted; the namespace is filtered before paging.
+    const query = toFtsTermsQuery(name);
+    if (!query) {
       return [];
     }
-
-    const entityIds = rows.map((row) => row.entity_id);
-    const placeholders = entityIds.map(() => "?").join(",");
-    const entityRows = this.db.all<EntityRow>(
-      `SELECT * FROM entities WHERE id IN (${placeholders});`,
-      entityIds,
+    const rows = this.db.all<EntityRow>(
+      `SELECT e.* FROM fts_entities
+       JOIN entities e ON e.id = fts_entities.entity_id
+       WHERE fts_entities MATCH ? AND e.namespace = ? AND e.deleted_at IS NULL
+       LIMIT ? OFFSET ?;`,
+      [query, namespace, limit, offset],
     );
 
-    return entityRows.map((row) => this.#mapEntity(row));
+    return rows.map((row) => this.#mapEntity(row));
+  }
+
+  /**
+   * Full-text matches on name, type and tags across `namespaces` (any when omitted), best
+   * first. `score` is the negated bm25 rank, so higher is better.
+   */
+  searchEntitiesFullText(
+    query: string,
+    limit = 20,
+    namespaces?: string[],
+  ): Array<{ entity: KnowledgeEntityRecord; score: number }> {
+    const filter = namespaces
+      ? `AND e.namespace IN (${namespaces.map(() => "?").join(",") || "NULL"})`
+      : "";
+    const rows = this.db.all<EntityRow & { score: number }>(
+      `SELECT e.*, bm25(fts_entities) AS score FROM fts_entities
+       JOIN entities e ON e.id = fts_entities.entity_id
+       WHERE fts_entities MATCH ? AND e.deleted_at IS NULL ${filter}
+       ORDER BY score ASC
+       LIMIT ?;`,
+      [query, ...(namespaces ?? []), limit],
+    );
+    return rows.map((row) => ({ entity: this.#mapEntity(row), score: -row.score }));
   }
 
-  findEntitiesByType(type: string, limit = 100, offset = 0): KnowledgeEntityRecord[] {
+  findEntitiesByType(
+    type: string,
+    limit = 100,
+    offset = 0,
+    namespace = DEFAULT_NAMESPACE,
+  ): KnowledgeEntityRecord[] {
     const rows = this.db.all<EntityRow>(
       `SELECT * FROM entities
-       WHERE type = ?
+       WHERE type = ? AND namespace = ? AND deleted_at IS NULL
        ORDER BY last_seen DESC
        LIMIT ? OFFSET ?;`,
-      [type, limit, offset],
+      [type, namespace, limit, offset],
     );
     return rows.map((row) => this.#mapEntity(row));
   }
 
-  findEntitiesByTag(tag: string, limit = 100, offset = 0): KnowledgeEntityRecord[] {
+  findEntitiesByTag(
+    tag: string,
+    limit = 100,
+    offset = 0,
+    namespace = DEFAULT_NAMESPACE,
+  ): KnowledgeEntityRecord[] {
     // Search for entities that have the tag in their tags JSON array
     // Using json_each to properly search JSON arrays
     const rows = this.db.all<EntityRow>(
       `SELECT DISTINCT e.* FROM entities e
        JOIN json_each(e.tags) AS j
-       WHERE j.value = ?
+       WHERE j.value = ? AND e.namespace = ? AND e.deleted_at IS NULL
        ORDER BY e.last_seen DESC
        LIMIT ? OFFSET ?;`,
-      [tag, limit, offset],
+      [tag, namespace, limit, offset],
     );
     return rows.map((row) => this.#mapEntity(row));
   }
 
-  getAllTags(): string[] {
+  getAllTags(namespace = DEFAULT_NAMESPACE): string[] {
     // Get all unique tags from entities
     const rows = this.db.all<{ tag: string }>(
       `SELECT DISTINCT j.value AS tag
        FROM entities e
        JOIN json_each(e.tags) AS j
+       WHERE e.namespace = ? AND e.deleted_at IS NULL
        ORDER BY j.value ASC;`,
+      [namespace],
     );
     return rows.map((row) => row.tag);
   }
@@ -220,6 +358,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
   upsertEdge(input: NewKnowledgeEdgeRecord): KnowledgeEdgeRecord {
     const record: KnowledgeEdgeRecord = {
       id: input.id ?? randomUUID(),
+      namespace: input.namespace ?? DEFAULT_NAMESPACE,
       src: input.src,
       dst: input.dst,
       relation: input.relation,
@@ -229,8 +368,8 @@ export class KnowledgeGraphRepository extends BaseRepository {
     };
 
     this.db.run(
-      `INSERT INTO kg_edges (id, src, dst, relation, weight, created_at, metadata)
-       VALUES (?, ?, ?, ?, ?, ?, ?)
+      `INSERT INTO kg_edges (id, namespace, src, dst, relation, weight, created_at, metadata)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
        ON CONFLICT(id) DO UPDATE SET
          src = excluded.src,
          dst = excluded.dst,
@@ -239,6 +378,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
          metadata = excluded.metadata;`,
       [
         record.id,
+        record.namespace,
         record.src,
         record.dst,
         record.relation,
@@ -247,6 +387,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
         this.stringifyJson(record.metadata),
       ],
     );
+    this.markChanged();
 
     return this.assertFound(
       this.findEdgeById(record.id),
@@ -256,7 +397,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
 
   findEdgeById(id: string): KnowledgeEdgeRecord | undefined {
     const row = this.db.get<EdgeRow>(
-      "SELECT * FROM kg_edges WHERE id = ? LIMIT 1;",
+      `SELECT * FROM kg_edges WHERE id = ? AND ${LIVE_EDGE} LIMIT 1;`,
       [id],
     );
     return row ? this.#mapEdge(row) : undefined;
@@ -265,7 +406,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
   listEdgesForEntity(entityId: string): KnowledgeEdgeRecord[] {
     const rows = this.db.all<EdgeRow>(
       `SELECT * FROM kg_edges
-       WHERE src = ? OR dst = ?
+       WHERE (src = ? OR dst = ?) AND ${LIVE_EDGE}
        ORDER BY created_at DESC;`,
       [entityId, entityId],
     );
@@ -274,7 +415,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
 
   getEdgesByEntityAndType(entityId: string, relationType?: string): KnowledgeEdgeRecord[] {
     let query = `SELECT * FROM kg_edges
-                 WHERE (src = ? OR dst = ?)`;
+                 WHERE (src = ? OR dst = ?) AND ${LIVE_EDGE}`;
     const params: unknown[] = [entityId, entityId];
 
     if (relationType) {
@@ -288,24 +429,31 @@ export class KnowledgeGraphRepository extends BaseRepository {
     return rows.map((row) => this.#mapEdge(row));
   }
 
-  searchEdgesByRelation(relationType: string, limit = 100, offset = 0): KnowledgeEdgeRecord[] {
+  searchEdgesByRelation(
+    relationType: string,
+    limit = 100,
+    offset = 0,
+    namespace = DEFAULT_NAMESPACE,
+  ): KnowledgeEdgeRecord[] {
     const rows = this.db.all<EdgeRow>(
       `SELECT * FROM kg_edges
-       WHERE relation = ?
+       WHERE relation = ? AND namespace = ? AND ${LIVE_EDGE}
        ORDER BY created_at DESC
        LIMIT ? OFFSET ?;`,
-      [relationType, limit, offset],
+      [relationType, namespace, limit, offset],
     );
     return rows.map((row) => this.#mapEdge(row));
   }
 
   deleteEdge(id: string): void {
     this.db.run("DELETE FROM kg_edges WHERE id = ?;", [id]);
+    this.markChanged();
   }
 
   #mapEntity(row: EntityRow): KnowledgeEntityRecord {
     return {
       id: row.id,
+      namespace: row.namespace,
       name: row.name,
       type: row.type,
       count: row.count,
@@ -318,6 +466,7 @@ export class KnowledgeGraphRepository extends BaseRepository {
   #mapEdge(row: EdgeRow): KnowledgeEdgeRecord {
     return {
       id: row.id,
+      namespace: row.namespace,
       src: row.src,
       dst: row.dst,
       relation: row.relation,
@@ -0,0 +1,106 @@
+import type { MemoryFilter } from "./types";
+
+export interface SqlConditions {
+  conditions: string[];
+  params: unknown[];
+}
+
+const RANGE_OPERATORS = [
+  ["gt", ">"],
+  ["gte", ">="],
+  ["lt", "<"],
+  ["lte", "<="],
+] as const;
+
+/** Namespaces are not counted: vectors carry them as metadata, so Vectra filters them itself. */
+export function hasMemoryFilter(filter: MemoryFilter): boolean {
+  return (
+    filter.createdAfter !== undefined ||
+    filter.createdBefore !== undefined ||
+    filter.updatedAfter !== undefined ||
+    Boolean(filter.metadata?.length)
+  );
+}
+
+/**
+ * Translates namespaces, time bounds and metadata conditions into SQL predicates over `memories`.
+ * `alias` prefixes column names for joined queries. `createdAfter`/`updatedAfter` are
+ * inclusive, `createdBefore` is exclusive.
+ */
+export function buildMemoryFilterSql(filter: MemoryFilter, alias?: string): SqlConditions {
+  const column = (name: string) => (alias ? `${alias}.${name}` : name);
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  if (filter.namespaces) {
+    conditions.push(
+      filter.namespaces.length
+        ? `${column("namespace")} IN (${filter.namespaces.map(() => "?").join(",")})`
+        : "0",
+    );
+    params.push(...filter.namespaces);
+  }
+  if (filter.createdAfter !== undefined) {
+    conditions.push(`${column("created_at")} >= ?`);
+    params.push(filter.createdAfter);
+  }
+  if (filter.createdBefore !== undefined) {
+    conditions.push(`${column("created_at")} < ?`);
+    params.push(filter.createdBefore);
+  }
+  if (filter.updatedAfter !== undefined) {
+    conditions.push(`${column("updated_at")} >= ?`);
+    params.push(filter.updatedAfter);
+  }
+
+  const metadata = column("metadata");
+  for (const condition of filter.metadata ?? []) {
+    const path = toJsonPath(condition.path);
+    const value = `json_extract(${metadata}, ?)`;
+
+    if (condition.exists !== undefined) {
+      conditions.push(`json_type(${metadata}, ?) IS ${condition.exists ? "NOT NULL" : "NULL"}`);
+      params.push(path);
+    }
+
+    if (condition.eq === null) {
+      conditions.push(`json_type(${metadata}, ?) = 'null'`);
+      params.push(path);
+    } else if (condition.eq !== undefined) {
+      conditions.push(`${value} = ?`);
+      params.push(path, toSqlValue(condition.eq));
+    }
+
+    if (condition.in) {
+      if (condition.in.length === 0) {
+        conditions.push("0");
+      } else {
+        conditions.push(`${value} IN (${condition.in.map(() => "?").join(",")})`);
+        params.push(path, ...condition.in);
+      }
+    }
+
+    for (const [key, operator] of RANGE_OPERATORS) {
+      const bound = condition[key];
+      if (bound !== undefined) {
+        conditions.push(`${value} ${operator} ?`);
+        params.push(path, bound);
+      }
+    }
+  }
+
+  return { conditions, params };
+}
+
+/** `a.b` → `$."a"."b"`, so keys containing spaces or dashes need no escaping by callers. */
+export function toJsonPath(path: string): string {
+  return `$${path
+    .split(".")
+    .map((segment) => `."${segment}"`)
+    .join("")}`;
+}
+
+// json_extract returns JSON booleans as 1/0.
+function toSqlValue(value: string | number | boolean): string | number {
+  return typeof value === "boolean" ? Number(value) : value;
+}
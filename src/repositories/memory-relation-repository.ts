@@ -0,0 +1,105 @@
+import { BaseRepository } from "./base";
+import type {
+  MemoryRelationRecord,
+  MemoryRelationType,
+  NewMemoryRelationRecord,
+} from "./types";
+
+interface MemoryRelationRow {
+  id: number;
+  src_id: string;
+  dst_id: string;
+  relation: string;
+  weight?: number | null;
+  metadata: string;
+  created_at: number;
+}
+
+export type MemoryRelationDirection = "outgoing" | "incoming" | "both";
+
+export class MemoryRelationRepository extends BaseRepository {
+  /** Creates a relation, or updates weight/metadata when the same link already exists. */
+  upsert(input: NewMemoryRelationRecord): MemoryRelationRecord {
+    this.db.run(
+      `INSERT INTO memory_relations (src_id, dst_id, relation, weight, metadata, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(src_id, dst_id, relation) DO UPDATE SET
+         weight = excluded.weight,
+         metadata = excluded.metadata;`,
+      [
+        input.srcId,
+        input.dstId,
+        input.relation,
+        input.weight ?? null,
+        this.stringifyJson(input.metadata ?? {}),
+        input.createdAt ?? Date.now(),
+      ],
+    );
+    this.markChanged();
+
+    return this.assertFound(
+      this.find(input.srcId, input.dstId, input.relation),
+      `Relation ${input.srcId} -> ${input.dstId} not found after insert`,
+    );
+  }
+
+  find(
+    srcId: string,
+    dstId: string,
+    relation: MemoryRelationType,
+  ): MemoryRelationRecord | undefined {
+    const row = this.db.get<MemoryRelationRow>(
+      `SELECT * FROM memory_relations
+       WHERE src_id = ? AND dst_id = ? AND relation = ?
+       LIMIT 1;`,
+      [srcId, dstId, relation],
+    );
+    return row ? this.#mapRow(row) : undefined;
+  }
+
+  /** Relations touching `memoryId`, oldest first, optionally restricted by type. */
+  listForMemory(
+    memoryId: string,
+    direction: MemoryRelationDirection = "both",
+    relations?: MemoryRelationType[],
+  ): MemoryRelationRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (direction === "outgoing") {
+      conditions.push("src_id = ?");
+      params.push(memoryId);
+    } else if (direction === "incoming") {
+      conditions.push("dst_id = ?");
+      params.push(memoryId);
+    } else {
+      conditions.push("(src_id = ? OR dst_id = ?)");
+      params.push(memoryId, memoryId);
+    }
+
+    if (relations?.length) {
+      conditions.push(`relation IN (${relations.map(() => "?").join(",")})`);
+      params.push(...relations);
+    }
+
+    const rows = this.db.all<MemoryRelationRow>(
+      `SELECT * FROM memory_relations
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY created_at ASC, id ASC;`,
+      params,
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  #mapRow(row: MemoryRelationRow): MemoryRelationRecord {
+    return {
+      id: row.id,
+      srcId: row.src_id,
+      dstId: row.dst_id,
+      relation: row.relation as MemoryRelationType,
+      weight: row.weight ?? undefined,
+      metadata: this.parseJson(row.metadata, {}),
+      createdAt: row.created_at,
+    };
+  }
+}
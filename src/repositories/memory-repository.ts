@@ -1,14 +1,23 @@
 import { randomUUID } from "node:crypto";
-import { BaseRepository } from "./base";
+import { PinnedMemoryError } from "../database/errors";
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
+import { buildMemoryFilterSql } from "./memory-filter";
 import type {
+  MemoryFilter,
+  MemoryImportanceUpdate,
   MemoryLayer,
+  MemoryMutationOptions,
   MemoryRecord,
   MemoryReferenceInput,
+  MemoryRevisionOperation,
+  MemoryRevisionRecord,
   NewMemoryRecord,
+  PinnedMemoryFilter,
 } from "./types";
 
 interface MemoryRow {
   id: string;
+  namespace: string;
   layer: string;
   content: string;
   metadata: string;
@@ -19,8 +28,46 @@ interface MemoryRow {
   episode_id?: string | null;
   summary?: string | null;
   embedding_id?: string | null;
+  expires_at?: number | null;
+  pinned?: number | null;
+  access_count?: number | null;
+  last_accessed_at?: number | null;
+  decayed_at?: number | null;
 }
 
+interface MemoryRevisionRow {
+  id: string;
+  memory_id: string;
+  namespace: string;
+  revision: number;
+  operation: string;
+  layer: string;
+  content: string;
+  metadata: string;
+  importance: number;
+  session_id?: string | null;
+  episode_id?: string | null;
+  summary?: string | null;
+  pinned?: number | null;
+  expires_at?: number | null;
+  refs: string;
+  memory_created_at: number;
+  recorded_at: number;
+}
+
+/** Fields whose changes are captured in `memory_revisions`. */
+const REVISIONED_FIELDS = [
+  "layer",
+  "content",
+  "metadata",
+  "importance",
+  "sessionId",
+  "episodeId",
+  "summary",
+  "pinned",
+  "expiresAt",
+] as const;
+
 interface MemoryReferenceRow {
   doc_id: string;
   chunk_id?: string | null;
@@ -36,6 +83,7 @@ export class MemoryRepository extends BaseRepository {
     const now = Date.now();
     const record: Required<NewMemoryRecord> = {
       id: input.id ?? randomUUID(),
+      namespace: input.namespace ?? DEFAULT_NAMESPACE,
       layer: input.layer,
       content: input.content,
       metadata: input.metadata ?? {},
@@ -46,15 +94,18 @@ export class MemoryRepository extends BaseRepository {
       episodeId: input.episodeId ?? null,
       summary: input.summary ?? null,
       embeddingId: input.embeddingId ?? null,
+      expiresAt: input.expiresAt ?? null,
+      pinned: input.pinned ?? false,
     };
 
     this.db.run(
       `INSERT INTO memories (
-        id, layer, content, metadata, created_at, updated_at, importance,
-        session_id, episode_id, summary, embedding_id
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+        id, namespace, layer, content, metadata, created_at, updated_at, importance,
+        session_id, episode_id, summary, embedding_id, expires_at, pinned
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
       [
         record.id,
+        record.namespace,
         record.layer,
         record.content,
         this.stringifyJson(record.metadata),
@@ -65,8 +116,11 @@ export class MemoryRepository extends BaseRepository {
         record.episodeId,
         record.summary,
         record.embeddingId,
+        record.expiresAt,
+        record.pinned ? 1 : 0,
       ],
     );
+    this.markChanged();
 
     if (references.length > 0) {
       await this.replaceReferences(record.id, references);
@@ -78,13 +132,46 @@ export class MemoryRepository extends BaseRepository {
     );
   }
 
+  /**
+   * Inserts every record inside one transaction. A row that fails is reported as an
+   * `Error` in its slot without rolling back the others.
+   */
+  async createMany(inputs: NewMemoryRecord[]): Promise<Array<MemoryRecord | Error>> {
+    if (inputs.length === 0) {
+      return [];
+    }
+
+    return this.db.transaction(async () => {
+      const results: Array<MemoryRecord | Error> = [];
+      for (const input of inputs) {
+        try {
+          results.push(await this.create(input));
+        } catch (error) {
+          results.push(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+      return results;
+    });
+  }
+
+  /**
+   * Throws `NotFoundError` when the memory does not exist or is in the trash, and
+   * `PinnedMemoryError` when it is pinned unless `options.force` is set.
+   */
   async update(
     id: string,
     patch: Partial<NewMemoryRecord>,
+    options: MemoryMutationOptions = {},
   ): Promise<MemoryRecord> {
     const fields: string[] = [];
     const params: unknown[] = [];
 
+    const previous = this.assertFound(this.findById(id), `Memory ${id} not found`);
+    this.#assertMutable(previous, options);
+    if (this.#changesRevisionedFields(previous, patch)) {
+      this.#recordRevision(previous, "update");
+    }
+
     if (patch.layer) {
       fields.push("layer = ?");
       params.push(patch.layer);
@@ -125,6 +212,16 @@ export class MemoryRepository extends BaseRepository {
       params.push(patch.embeddingId ?? null);
     }
 
+    if ("expiresAt" in patch) {
+      fields.push("expires_at = ?");
+      params.push(patch.expiresAt ?? null);
+    }
+
+    if (typeof patch.pinned === "boolean") {
+      fields.push("pinned = ?");
+      params.push(patch.pinned ? 1 : 0);
+    }
+
     const timestamp = Date.now();
     fields.push("updated_at = ?");
     params.push(timestamp);
@@ -132,9 +229,10 @@ export class MemoryRepository extends BaseRepository {
 
     if (fields.length > 0) {
       this.db.run(
-        `UPDATE memories SET ${fields.join(", ")} WHERE id = ?;`,
+        `UPDATE memories SET ${fields.join(", ")} WHERE id = ? AND deleted_at IS NULL;`,
         params,
       );
+      this.markChanged();
     }
 
     return this.assertFound(
@@ -143,29 +241,349 @@ export class MemoryRepository extends BaseRepository {
     );
   }
 
-  delete(id: string): void {
+  /**
+   * Permanently removes a memory, trashed or not. Trashed memories already have their
+   * delete revision. Throws `PinnedMemoryError` when a live memory is pinned unless
+   * `options.force` is set.
+   */
+  delete(id: string, options: MemoryMutationOptions = {}): void {
+    const previous = this.findById(id);
+    this.#assertMutable(previous, options);
+    if (previous) {
+      this.#recordRevision(previous, "delete");
+    }
     this.db.run("DELETE FROM memories WHERE id = ?;", [id]);
+    this.markChanged();
+  }
+
+  /**
+   * Moves a memory to the trash. The deleted state is recorded as a revision right away;
+   * the row itself stays until `delete` purges it. Throws `PinnedMemoryError` when the
+   * memory is pinned unless `options.force` is set.
+   */
+  trash(id: string, options: MemoryMutationOptions = {}, deletedAt = Date.now()): void {
+    const previous = this.findById(id);
+    this.#assertMutable(previous, options);
+    if (!previous) {
+      return;
+    }
+    this.#recordRevision(previous, "delete");
+    this.db.run("UPDATE memories SET deleted_at = ? WHERE id = ?;", [deletedAt, id]);
+    this.markChanged();
+  }
+
+  /** Takes a memory out of the trash; a no-op when it is not trashed. */
+  untrash(id: string): void {
+    this.db.run(
+      "UPDATE memories SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL;",
+      [id],
+    );
+    this.markChanged();
+  }
+
+  /**
+   * Recreates a deleted memory from a revision snapshot, keeping its original id, creation
+   * time, pinned flag and expiry. References to documents that no longer exist are dropped.
+   */
+  async restore(revision: MemoryRevisionRecord): Promise<MemoryRecord> {
+    const now = Date.now();
+    await this.db.transaction(async (trx) => {
+      trx.run(
+        `INSERT INTO memories (
+          id, namespace, layer, content, metadata, created_at, updated_at, importance,
+          session_id, episode_id, summary, pinned, expires_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?);`,
+        [
+          revision.memoryId,
+          revision.namespace,
+          revision.layer,
+          revision.content,
+          this.stringifyJson(revision.metadata),
+          revision.memoryCreatedAt,
+          now,
+          revision.importance,
+          revision.sessionId ?? null,
+          revision.episodeId ?? null,
+          revision.summary ?? null,
+          revision.pinned ? 1 : 0,
+          revision.expiresAt ?? null,
+        ],
+      );
+
+      for (const ref of revision.references) {
+        trx.run(
+          `INSERT INTO memory_refs (memory_id, doc_id, chunk_id, score, relation)
+           SELECT ?, ?, ?, ?, ?
+           WHERE EXISTS (SELECT 1 FROM documents WHERE id = ?);`,
+          [
+            revision.memoryId,
+            ref.docId,
+            ref.chunkId ?? null,
+            ref.score ?? null,
+            ref.relation ?? null,
+            ref.docId,
+          ],
+        );
+      }
+    });
+    this.markChanged();
+
+    return this.assertFound(
+      this.findById(revision.memoryId),
+      `Failed to load memory ${revision.memoryId} after restore`,
+    );
+  }
+
+  listRevisions(memoryId: string, limit = 50, offset = 0): MemoryRevisionRecord[] {
+    const rows = this.db.all<MemoryRevisionRow>(
+      `SELECT * FROM memory_revisions
+       WHERE memory_id = ?
+       ORDER BY revision DESC
+       LIMIT ? OFFSET ?;`,
+      [memoryId, limit, offset],
+    );
+    return rows.map((row) => this.#mapRevisionRow(row));
+  }
+
+  findRevision(memoryId: string, revision: number): MemoryRevisionRecord | undefined {
+    const row = this.db.get<MemoryRevisionRow>(
+      `SELECT * FROM memory_revisions WHERE memory_id = ? AND revision = ? LIMIT 1;`,
+      [memoryId, revision],
+    );
+    return row ? this.#mapRevisionRow(row) : undefined;
+  }
+
+  /**
+   * Bumps access counters and reinforces importance towards 1.0 by `reinforcement`
+   * of the remaining headroom. Returns the refreshed records. Not counted as a change to
+   * `version`, so reading memories does not invalidate cached searches.
+   */
+  recordAccess(
+    ids: string[],
+    reinforcement = 0,
+    accessedAt = Date.now(),
+  ): MemoryRecord[] {
+    const unique = Array.from(new Set(ids));
+    if (unique.length === 0) {
+      return [];
+    }
+
+    const placeholders = unique.map(() => "?").join(",");
+    this.db.run(
+      `UPDATE memories
+       SET access_count = access_count + 1,
+           last_accessed_at = ?,
+           importance = MIN(1.0, importance + (1.0 - importance) * ?)
+       WHERE id IN (${placeholders}) AND deleted_at IS NULL;`,
+      [accessedAt, reinforcement, ...unique],
+    );
+
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories WHERE id IN (${placeholders}) AND deleted_at IS NULL;`,
+      unique,
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  async applyDecay(
+    updates: MemoryImportanceUpdate[],
+    decayedAt = Date.now(),
+  ): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async (trx) => {
+      for (const update of updates) {
+        trx.run(
+          `UPDATE memories SET importance = ?, decayed_at = ? WHERE id = ? AND pinned = 0;`,
+          [update.importance, decayedAt, update.id],
+        );
+      }
+    });
+    this.markChanged();
   }
 
   findById(id: string): MemoryRecord | undefined {
     const row = this.db.get<MemoryRow>(
-      "SELECT * FROM memories WHERE id = ? LIMIT 1;",
+      "SELECT * FROM memories WHERE id = ? AND deleted_at IS NULL LIMIT 1;",
       [id],
     );
     return row ? this.#mapRow(row) : undefined;
   }
 
-  listByLayer(layer: MemoryLayer, limit = 50): MemoryRecord[] {
+  /** Newest memories of `layer`; every namespace is listed when `namespace` is omitted. */
+  listByLayer(layer: MemoryLayer, limit = 50, namespace?: string): MemoryRecord[] {
     const rows = this.db.all<MemoryRow>(
       `SELECT * FROM memories
-       WHERE layer = ?
+       WHERE layer = ? AND deleted_at IS NULL AND (? IS NULL OR namespace = ?)
        ORDER BY created_at DESC
        LIMIT ?;`,
-      [layer, limit],
+      [layer, namespace ?? null, namespace ?? null, limit],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  listByLayerCreatedBefore(
+    layer: MemoryLayer,
+    createdBefore: number,
+    limit = 500,
+  ): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE layer = ? AND created_at <= ? AND deleted_at IS NULL
+       ORDER BY created_at ASC
+       LIMIT ?;`,
+      [layer, createdBefore, limit],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  /** Oldest first; every namespace is listed when `namespace` is omitted. */
+  listByEpisode(episodeId: string, limit = 500, namespace?: string): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE episode_id = ? AND deleted_at IS NULL AND (? IS NULL OR namespace = ?)
+       ORDER BY created_at ASC, rowid ASC
+       LIMIT ?;`,
+      [episodeId, namespace ?? null, namespace ?? null, limit],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  /**
+   * Session and episode of every memory that has one, trashed memories included since their
+   * vectors are kept until purge.
+   */
+  listSessionAssignments(): Array<{
+    memoryId: string;
+    sessionId?: string;
+    episodeId?: string;
+  }> {
+    const rows = this.db.all<{
+      id: string;
+      session_id: string | null;
+      episode_id: string | null;
+    }>(
+      `SELECT id, session_id, episode_id FROM memories
+       WHERE session_id IS NOT NULL OR episode_id IS NOT NULL;`,
+    );
+    return rows.map((row) => ({
+      memoryId: row.id,
+      sessionId: row.session_id ?? undefined,
+      episodeId: row.episode_id ?? undefined,
+    }));
+  }
+
+  /** Oldest first; every namespace is listed when `namespace` is omitted. */
+  listBySession(sessionId: string, limit = 500, offset = 0, namespace?: string): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE session_id = ? AND deleted_at IS NULL AND (? IS NULL OR namespace = ?)
+       ORDER BY created_at ASC, rowid ASC
+       LIMIT ? OFFSET ?;`,
+      [sessionId, namespace ?? null, namespace ?? null, limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  listExpired(now: number, limit = 500, offset = 0): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE expires_at IS NOT NULL AND expires_at <= ? AND pinned = 0 AND deleted_at IS NULL
+       ORDER BY expires_at ASC, id ASC
+       LIMIT ? OFFSET ?;`,
+      [now, limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  /**
+   * Unexpired, unpinned memories of `layer` created before `createdBefore`, skipping
+   * those whose importance is above `keepImportanceAbove` (when set).
+   */
+  listRetentionCandidates(
+    layer: MemoryLayer,
+    createdBefore: number,
+    keepImportanceAbove: number | null,
+    now: number,
+    limit = 500,
+    offset = 0,
+  ): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE layer = ?
+         AND created_at < ?
+         AND pinned = 0
+         AND deleted_at IS NULL
+         AND (? IS NULL OR importance <= ?)
+         AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY created_at ASC, id ASC
+       LIMIT ? OFFSET ?;`,
+      [layer, createdBefore, keepImportanceAbove, keepImportanceAbove, now, limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  /** Pinned memories matching the search filters, most important first. */
+  listPinned(filter: PinnedMemoryFilter = {}, limit = 100): MemoryRecord[] {
+    const conditions = ["pinned = 1", "deleted_at IS NULL"];
+    const params: unknown[] = [];
+
+    if (filter.layers?.length) {
+      conditions.push(`layer IN (${filter.layers.map(() => "?").join(",")})`);
+      params.push(...filter.layers);
+    }
+    if (filter.sessionId) {
+      conditions.push("session_id = ?");
+      params.push(filter.sessionId);
+    }
+    if (filter.episodeId) {
+      conditions.push("episode_id = ?");
+      params.push(filter.episodeId);
+    }
+    if (typeof filter.minImportance === "number") {
+      conditions.push("importance >= ?");
+      params.push(filter.minImportance);
+    }
+    const extra = buildMemoryFilterSql(filter);
+    conditions.push(...extra.conditions);
+    params.push(...extra.params);
+
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY importance DESC, created_at DESC
+       LIMIT ?;`,
+      [...params, limit],
     );
     return rows.map((row) => this.#mapRow(row));
   }
 
+  /** Ids of every memory matching `filter`, used to scope vector search to the same rows as FTS. */
+  listIdsMatching(filter: MemoryFilter): string[] {
+    const { conditions, params } = buildMemoryFilterSql(filter);
+    return this.db
+      .all<{ id: string }>(
+        `SELECT id FROM memories WHERE ${["deleted_at IS NULL", ...conditions].join(" AND ")};`,
+        params,
+      )
+      .map((row) => row.id);
+  }
+
+  /** Deletes memories in one transaction; each delete is still recorded as a revision. */
+  async deleteMany(ids: string[], options: MemoryMutationOptions = {}): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    await this.db.transaction(async () => {
+      for (const id of ids) {
+        this.delete(id, options);
+      }
+    });
+  }
+
   listReferences(memoryId: string): MemoryReferenceInput[] {
     const rows = this.db.all<MemoryReferenceRow>(
       `SELECT doc_id, chunk_id, score, relation
@@ -205,6 +623,26 @@ export class MemoryRepository extends BaseRepository {
         );
       }
     });
+    this.markChanged();
+  }
+
+  /** Adds a reference, replacing an existing one to the same document chunk. */
+  async addReference(memoryId: string, reference: MemoryReferenceInput): Promise<void> {
+    await this.db.transaction(async () => {
+      this.removeReference(memoryId, reference.docId, reference.chunkId);
+      this.db.run(
+        `INSERT INTO memory_refs (memory_id, doc_id, chunk_id, score, relation)
+         VALUES (?, ?, ?, ?, ?);`,
+        [
+          memoryId,
+          reference.docId,
+          reference.chunkId ?? null,
+          reference.score ?? null,
+          reference.relation ?? null,
+        ],
+      );
+    });
+    this.markChanged();
   }
 
   removeReference(memoryId: string, docId: string, chunkId?: string | null): void {
@@ -221,45 +659,142 @@ export class MemoryRepository extends BaseRepository {
         [memoryId, docId],
       );
     }
+    this.markChanged();
   }
 
-  listAll(limit = 500, offset = 0): MemoryRecord[] {
+  /** Oldest first; every namespace is listed when `namespace` is omitted. */
+  listAll(limit = 500, offset = 0, namespace?: string): MemoryRecord[] {
     const rows = this.db.all<MemoryRow>(
       `SELECT * FROM memories
+       WHERE deleted_at IS NULL AND (? IS NULL OR namespace = ?)
        ORDER BY created_at ASC
        LIMIT ? OFFSET ?;`,
-      [limit, offset],
+      [namespace ?? null, namespace ?? null, limit, offset],
     );
 
     return rows.map((row) => this.#mapRow(row));
   }
 
-  searchByEntityName(entityName: string, limit = 100): MemoryRecord[] {
-    // Use FTS5 to search for entity name in memory content
-    const rows = this.db.all<{ memory_id: string }>(
-      `SELECT memory_id FROM fts_memories
-       WHERE fts_memories MATCH ?
-       LIMIT ?;`,
-      [entityName, limit],
+  /** Memories mentioning an entity (via the `mentions` index), newest first. */
+  listByEntity(entityId: string, limit = 100, offset = 0): MemoryRecord[] {
+    const rows = this.db.all<MemoryRow>(
+      `SELECT * FROM memories
+       WHERE id IN (SELECT memory_id FROM mentions WHERE entity_id = ?)
+         AND deleted_at IS NULL
+       ORDER BY created_at DESC
+       LIMIT ? OFFSET ?;`,
+      [entityId, limit, offset],
     );
+    return rows.map((row) => this.#mapRow(row));
+  }
 
-    if (rows.length === 0) {
+  /**
+   * Finds memories sharing terms with `text`, best bm25 match first. Terms are quoted
+   * and OR-ed so arbitrary user content never breaks the FTS query syntax.
+   */
+  searchByContent(text: string, limit = 10, namespace = DEFAULT_NAMESPACE): MemoryRecord[] {
+    const terms = Array.from(
+      new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []),
+    ).slice(0, 32);
+    if (terms.length === 0) {
       return [];
     }
 
-    const memoryIds = rows.map((row) => row.memory_id);
-    const placeholders = memoryIds.map(() => "?").join(",");
-    const memoryRows = this.db.all<MemoryRow>(
-      `SELECT * FROM memories WHERE id IN (${placeholders});`,
-      memoryIds,
+    const rows = this.db.all<MemoryRow>(
+      `SELECT m.* FROM fts_memories
+       JOIN memories m ON m.id = fts_memories.memory_id
+       WHERE fts_memories MATCH ? AND m.deleted_at IS NULL AND m.namespace = ?
+       ORDER BY bm25(fts_memories) ASC
+       LIMIT ?;`,
+      [
+        `{content summary} : (${terms.map((term) => `"${term}"`).join(" OR ")})`,
+        namespace,
+        limit,
+      ],
     );
 
-    return memoryRows.map((row) => this.#mapRow(row));
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  #changesRevisionedFields(
+    previous: MemoryRecord,
+    patch: Partial<NewMemoryRecord>,
+  ): boolean {
+    return REVISIONED_FIELDS.some((field) => {
+      if (!(field in patch) || patch[field] === undefined) {
+        return false;
+      }
+      if (field === "metadata") {
+        return this.stringifyJson(patch.metadata) !== this.stringifyJson(previous.metadata);
+      }
+      return (patch[field] ?? null) !== (previous[field] ?? null);
+    });
+  }
+
+  #assertMutable(memory: MemoryRecord | undefined, options: MemoryMutationOptions): void {
+    if (memory?.pinned && !options.force) {
+      throw new PinnedMemoryError(memory.id);
+    }
+  }
+
+  #recordRevision(memory: MemoryRecord, operation: MemoryRevisionOperation): void {
+    this.db.run(
+      `INSERT INTO memory_revisions (
+        id, memory_id, namespace, revision, operation, layer, content, metadata, importance,
+        session_id, episode_id, summary, pinned, expires_at, refs, memory_created_at, recorded_at
+      ) VALUES (
+        ?, ?, ?,
+        (SELECT COALESCE(MAX(revision), 0) + 1 FROM memory_revisions WHERE memory_id = ?),
+        ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      );`,
+      [
+        randomUUID(),
+        memory.id,
+        memory.namespace,
+        memory.id,
+        operation,
+        memory.layer,
+        memory.content,
+        this.stringifyJson(memory.metadata),
+        memory.importance,
+        memory.sessionId ?? null,
+        memory.episodeId ?? null,
+        memory.summary ?? null,
+        memory.pinned ? 1 : 0,
+        memory.expiresAt ?? null,
+        JSON.stringify(this.listReferences(memory.id)),
+        memory.createdAt,
+        Date.now(),
+      ],
+    );
+  }
+
+  #mapRevisionRow(row: MemoryRevisionRow): MemoryRevisionRecord {
+    return {
+      id: row.id,
+      memoryId: row.memory_id,
+      namespace: row.namespace,
+      revision: row.revision,
+      operation: row.operation as MemoryRevisionOperation,
+      layer: row.layer as MemoryLayer,
+      content: row.content,
+      metadata: this.parseJson<Record<string, unknown>>(row.metadata, {}),
+      importance: row.importance,
+      sessionId: row.session_id ?? undefined,
+      episodeId: row.episode_id ?? undefined,
+      summary: row.summary ?? undefined,
+      pinned: row.pinned === 1,
+      expiresAt: row.expires_at ?? undefined,
+      references: this.parseJson<MemoryReferenceInput[]>(row.refs, []),
+      memoryCreatedAt: row.memory_created_at,
+      recordedAt: row.recorded_at,
+    };
   }
 
   #mapRow(row: MemoryRow): MemoryRecord {
     return {
       id: row.id,
+      namespace: row.namespace,
       layer: row.layer as MemoryLayer,
       content: row.content,
       metadata: this.parseJson<Record<string, unknown>>(row.metadata, {}),
@@ -270,6 +805,11 @@ export class MemoryRepository extends BaseRepository {
       episodeId: row.episode_id ?? undefined,
       summary: row.summary ?? undefined,
       embeddingId: row.embedding_id ?? undefined,
+      expiresAt: row.expires_at ?? undefined,
+      pinned: row.pinned === 1,
+      accessCount: row.access_count ?? 0,
+      lastAccessedAt: row.last_accessed_at ?? undefined,
+      decayedAt: row.decayed_at ?? undefined,
     };
   }
 }
@@ -0,0 +1,81 @@
+import { BaseRepository } from "./base";
+import type { EntityMentionInput, EntityMentionRecord } from "./types";
+
+interface MentionRow {
+  id: number;
+  entity_id: string;
+  memory_id?: string | null;
+  chunk_id?: string | null;
+  surface: string;
+  start_offset?: number | null;
+  end_offset?: number | null;
+  confidence: number;
+  created_at: number;
+}
+
+export class MentionRepository extends BaseRepository {
+  /** Replaces every mention recorded for a memory. */
+  replaceForMemory(memoryId: string, mentions: EntityMentionInput[], createdAt = Date.now()): void {
+    this.db.run("DELETE FROM mentions WHERE memory_id = ?;", [memoryId]);
+    for (const mention of mentions) {
+      this.#insert(mention, memoryId, null, createdAt);
+    }
+    this.markChanged();
+  }
+
+  /** Replaces every mention recorded for a document chunk. */
+  replaceForChunk(chunkId: string, mentions: EntityMentionInput[], createdAt = Date.now()): void {
+    this.db.run("DELETE FROM mentions WHERE chunk_id = ?;", [chunkId]);
+    for (const mention of mentions) {
+      this.#insert(mention, null, chunkId, createdAt);
+    }
+    this.markChanged();
+  }
+
+  listByMemory(memoryId: string): EntityMentionRecord[] {
+    const rows = this.db.all<MentionRow>(
+      `SELECT * FROM mentions
+       WHERE memory_id = ?
+       ORDER BY start_offset ASC, id ASC;`,
+      [memoryId],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  #insert(
+    mention: EntityMentionInput,
+    memoryId: string | null,
+    chunkId: string | null,
+    createdAt: number,
+  ): void {
+    this.db.run(
+      `INSERT INTO mentions (
+        entity_id, memory_id, chunk_id, surface, start_offset, end_offset, confidence, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?);`,
+      [
+        mention.entityId,
+        memoryId,
+        chunkId,
+        mention.surface,
+        mention.startOffset ?? null,
+        mention.endOffset ?? null,
+        mention.confidence ?? 0.5,
+        createdAt,
+      ],
+    );
+  }
+
+  #mapRow(row: MentionRow): EntityMentionRecord {
+    return {
+      id: row.id,
+      entityId: row.entity_id,
+      memoryId: row.memory_id ?? undefined,
+      chunkId: row.chunk_id ?? undefined,
+      surface: row.surface,
+      startOffset: row.start_offset ?? undefined,
+      endOffset: row.end_offset ?? undefined,
+      confidence: row.confidence,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { BaseRepository } from "./base";
+import type { NamespaceDetailRecord, NamespaceStatsRecord } from "./types";
+
+interface NamespaceRow {
+  namespace: string;
+  memories: number;
+  documents: number;
+  entities: number;
+  edges: number;
+  last_activity_at: number | null;
+}
+
+// Every namespace holding at least one row, live or trashed.
+const KNOWN_NAMESPACES = `SELECT namespace FROM memories
+  UNION SELECT namespace FROM documents
+  UNION SELECT namespace FROM entities
+  UNION SELECT namespace FROM kg_edges`;
+
+// Live counts of the namespace bound as `n.namespace`; edges touching a trashed entity are
+// hidden like everywhere else.
+const NAMESPACE_COUNTS = `
+  (SELECT COUNT(*) FROM memories WHERE namespace = n.namespace AND deleted_at IS NULL) AS memories,
+  (SELECT COUNT(*) FROM documents WHERE namespace = n.namespace AND deleted_at IS NULL) AS documents,
+  (SELECT COUNT(*) FROM entities WHERE namespace = n.namespace AND deleted_at IS NULL) AS entities,
+  (SELECT COUNT(*) FROM kg_edges
+    WHERE namespace = n.namespace
+      AND src NOT IN (SELECT id FROM entities WHERE deleted_at IS NOT NULL)
+      AND dst NOT IN (SELECT id FROM entities WHERE deleted_at IS NOT NULL)) AS edges,
+  NULLIF(MAX(
+    COALESCE((SELECT MAX(created_at) FROM memories WHERE namespace = n.namespace), 0),
+    COALESCE((SELECT MAX(ingested_at) FROM documents WHERE namespace = n.namespace), 0)
+  ), 0) AS last_activity_at`;
+
+/** Namespaces are implicit: one exists as long as any memory, document or entity uses it. */
+export class NamespaceRepository extends BaseRepository {
+  list(limit = 100, offset = 0): NamespaceStatsRecord[] {
+    const rows = this.db.all<NamespaceRow>(
+      `SELECT n.namespace AS namespace, ${NAMESPACE_COUNTS}
+       FROM (${KNOWN_NAMESPACES}) n
+       ORDER BY n.namespace ASC
+       LIMIT ? OFFSET ?;`,
+      [limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  /** Unknown namespaces report zero counts rather than failing. */
+  stats(namespace: string): NamespaceDetailRecord {
+    const row = this.db.get<NamespaceRow>(
+      `SELECT n.namespace AS namespace, ${NAMESPACE_COUNTS}
+       FROM (SELECT ? AS namespace) n;`,
+      [namespace],
+    )!;
+
+    const byLayer: Record<string, number> = {};
+    for (const layer of this.db.all<{ layer: string; count: number }>(
+      `SELECT layer, COUNT(*) AS count FROM memories
+       WHERE namespace = ? AND deleted_at IS NULL
+       GROUP BY layer;`,
+      [namespace],
+    )) {
+      byLayer[layer.layer] = layer.count;
+    }
+
+    const extra = this.db.get<{
+      pinned: number;
+      doc_chunks: number;
+      trashed_memories: number;
+      trashed_documents: number;
+      trashed_entities: number;
+    }>(
+      `SELECT
+        (SELECT COUNT(*) FROM memories
+          WHERE namespace = ?1 AND pinned = 1 AND deleted_at IS NULL) AS pinned,
+        (SELECT COUNT(*) FROM doc_chunks c JOIN documents d ON d.id = c.doc_id
+          WHERE d.namespace = ?1 AND d.deleted_at IS NULL) AS doc_chunks,
+        (SELECT COUNT(*) FROM memories
+          WHERE namespace = ?1 AND deleted_at IS NOT NULL) AS trashed_memories,
+        (SELECT COUNT(*) FROM documents
+          WHERE namespace = ?1 AND deleted_at IS NOT NULL) AS trashed_documents,
+        (SELECT COUNT(*) FROM entities
+          WHERE namespace = ?1 AND deleted_at IS NOT NULL) AS trashed_entities;`,
+      [namespace],
+    )!;
+
+    return {
+      ...this.#mapRow(row),
+      byLayer,
+      pinned: extra.pinned,
+      docChunks: extra.doc_chunks,
+      trashed: {
+        memories: extra.trashed_memories,
+        documents: extra.trashed_documents,
+        entities: extra.trashed_entities,
+      },
+    };
+  }
+
+  #mapRow(row: NamespaceRow): NamespaceStatsRecord {
+    return {
+      namespace: row.namespace,
+      memories: row.memories,
+      documents: row.documents,
+      entities: row.entities,
+      edges: row.edges,
+      lastActivityAt: row.last_activity_at,
+    };
+  }
+}
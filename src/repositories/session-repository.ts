@@ -0,0 +1,108 @@
+import { BaseRepository, DEFAULT_NAMESPACE } from "./base";
+import type { MemoryLayer, SessionListFilter, SessionRecord } from "./types";
+
+interface SessionRow {
+  id: string;
+  namespace: string;
+  started_at: number;
+  last_activity_at: number;
+  memory_count: number;
+  episode_count: number;
+  closed_at?: number | null;
+  summary_memory_id?: string | null;
+}
+
+export class SessionRepository extends BaseRepository {
+  /** Session ids are unique per namespace; the same id in two namespaces is two sessions. */
+  findById(id: string, namespace = DEFAULT_NAMESPACE): SessionRecord | undefined {
+    const row = this.db.get<SessionRow>(
+      "SELECT * FROM sessions WHERE id = ? AND namespace = ? LIMIT 1;",
+      [id, namespace],
+    );
+    return row ? this.#mapRow(row) : undefined;
+  }
+
+  /** Lists sessions by most recent activity. `from`/`to` select sessions overlapping the range. */
+  list(filter: SessionListFilter = {}, limit = 50, offset = 0): SessionRecord[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.namespace !== undefined) {
+      conditions.push("namespace = ?");
+      params.push(filter.namespace);
+    }
+
+    if (filter.status === "open") {
+      conditions.push("closed_at IS NULL");
+    } else if (filter.status === "closed") {
+      conditions.push("closed_at IS NOT NULL");
+    }
+
+    if (typeof filter.from === "number") {
+      conditions.push("last_activity_at >= ?");
+      params.push(filter.from);
+    }
+
+    if (typeof filter.to === "number") {
+      conditions.push("started_at <= ?");
+      params.push(filter.to);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db.all<SessionRow>(
+      `SELECT * FROM sessions
+       ${where}
+       ORDER BY last_activity_at DESC
+       LIMIT ? OFFSET ?;`,
+      [...params, limit, offset],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  countByLayer(id: string, namespace = DEFAULT_NAMESPACE): Partial<Record<MemoryLayer, number>> {
+    const rows = this.db.all<{ layer: MemoryLayer; count: number }>(
+      `SELECT m.layer AS layer, COUNT(*) AS count
+       FROM memories m
+       LEFT JOIN session_state s ON s.namespace = m.namespace AND s.session_id = m.session_id
+       WHERE m.session_id = ? AND m.namespace = ? AND m.deleted_at IS NULL
+         AND m.id IS NOT s.summary_memory_id
+       GROUP BY m.layer;`,
+      [id, namespace],
+    );
+    return Object.fromEntries(rows.map((row) => [row.layer, row.count]));
+  }
+
+  close(
+    id: string,
+    closedAt: number,
+    summaryMemoryId: string | null = null,
+    namespace = DEFAULT_NAMESPACE,
+  ): SessionRecord {
+    this.db.run(
+      `INSERT INTO session_state (namespace, session_id, closed_at, summary_memory_id)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT(namespace, session_id) DO UPDATE SET
+         closed_at = excluded.closed_at,
+         summary_memory_id = excluded.summary_memory_id;`,
+      [namespace, id, closedAt, summaryMemoryId],
+    );
+
+    return this.assertFound(
+      this.findById(id, namespace),
+      `Session ${id} not found after close`,
+    );
+  }
+
+  #mapRow(row: SessionRow): SessionRecord {
+    return {
+      id: row.id,
+      namespace: row.namespace,
+      startedAt: row.started_at,
+      lastActivityAt: row.last_activity_at,
+      memoryCount: row.memory_count,
+      episodeCount: row.episode_count,
+      closedAt: row.closed_at ?? undefined,
+      summaryMemoryId: row.summary_memory_id ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { BaseRepository } from "./base";
+import type { TrashItemKind, TrashItemRecord, TrashListFilter } from "./types";
+
+interface TrashRow {
+  kind: TrashItemKind;
+  id: string;
+  namespace: string;
+  label: string | null;
+  deleted_at: number;
+}
+
+/** Label length for trashed memories, whose content can be arbitrarily long. */
+const MEMORY_LABEL_LENGTH = 200;
+
+const TRASH_SOURCES: Record<TrashItemKind, string> = {
+  memory: `SELECT 'memory' AS kind, id, namespace,
+      substr(content, 1, ${MEMORY_LABEL_LENGTH}) AS label, deleted_at
+    FROM memories WHERE deleted_at IS NOT NULL`,
+  document: `SELECT 'document' AS kind, id, namespace,
+      COALESCE(title, source_path, hash) AS label, deleted_at
+    FROM documents WHERE deleted_at IS NOT NULL`,
+  entity: `SELECT 'entity' AS kind, id, namespace, name AS label, deleted_at
+    FROM entities WHERE deleted_at IS NOT NULL`,
+};
+
+/** Read-only view over the soft-deleted rows of every trashable table. */
+export class TrashRepository extends BaseRepository {
+  list(filter: TrashListFilter = {}, limit = 100, offset = 0): TrashItemRecord[] {
+    const kinds = filter.kinds?.length
+      ? filter.kinds
+      : (Object.keys(TRASH_SOURCES) as TrashItemKind[]);
+    const rows = this.db.all<TrashRow>(
+      `SELECT * FROM (${kinds.map((kind) => TRASH_SOURCES[kind]).join(" UNION ALL ")})
+       WHERE (? IS NULL OR deleted_at < ?)
+         AND (? IS NULL OR namespace = ?)
+       ORDER BY deleted_at DESC, kind ASC, id ASC
+       LIMIT ? OFFSET ?;`,
+      [
+        filter.deletedBefore ?? null,
+        filter.deletedBefore ?? null,
+        filter.namespace ?? null,
+        filter.namespace ?? null,
+        limit,
+        offset,
+      ],
+    );
+    return rows.map((row) => this.#mapRow(row));
+  }
+
+  find(kind: TrashItemKind, id: string): TrashItemRecord | undefined {
+    const row = this.db.get<TrashRow>(
+      `SELECT * FROM (${TRASH_SOURCES[kind]}) WHERE id = ? LIMIT 1;`,
+      [id],
+    );
+    return row ? this.#mapRow(row) : undefined;
+  }
+
+  #mapRow(row: TrashRow): TrashItemRecord {
+    return {
+      kind: row.kind,
+      id: row.id,
+      namespace: row.namespace,
+      label: row.label ?? "",
+      deletedAt: row.deleted_at,
+    };
+  }
+}
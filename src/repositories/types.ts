@@ -14,6 +14,7 @@ export interface MemoryReferenceInput {
 
 export interface MemoryRecord {
   id: string;
+  namespace: string;
   layer: MemoryLayer;
   content: string;
   metadata: Record<string, unknown>;
@@ -24,16 +25,168 @@ export interface MemoryRecord {
   episodeId?: string | null;
   summary?: string | null;
   embeddingId?: string | null;
+  expiresAt?: number | null;
+  /** Pinned memories are skipped by decay, consolidation, dedupe and retention. */
+  pinned?: boolean;
+  accessCount?: number;
+  lastAccessedAt?: number | null;
+  decayedAt?: number | null;
 }
 
 export interface NewMemoryRecord
-  extends Omit<MemoryRecord, "createdAt" | "updatedAt"> {
+  extends Omit<
+    MemoryRecord,
+    "namespace" | "createdAt" | "updatedAt" | "accessCount" | "lastAccessedAt" | "decayedAt"
+  > {
+  namespace?: string;
   createdAt?: number;
   updatedAt?: number;
 }
 
+export interface MemoryMutationOptions {
+  /** Allows updating or deleting a pinned memory. */
+  force?: boolean;
+}
+
+/** Condition on a dotted path inside `memories.metadata`, evaluated with `json_extract`. */
+export interface MemoryMetadataCondition {
+  path: string;
+  eq?: string | number | boolean | null;
+  in?: Array<string | number>;
+  gt?: string | number;
+  gte?: string | number;
+  lt?: string | number;
+  lte?: string | number;
+  exists?: boolean;
+}
+
+/** Time bounds (epoch ms) and metadata conditions shared by the search retrievers. */
+export interface MemoryFilter {
+  /** Restricts matches to these namespaces; every namespace matches when omitted. */
+  namespaces?: string[];
+  createdAfter?: number;
+  createdBefore?: number;
+  updatedAfter?: number;
+  metadata?: MemoryMetadataCondition[];
+}
+
+export interface PinnedMemoryFilter extends MemoryFilter {
+  layers?: MemoryLayer[];
+  sessionId?: string;
+  episodeId?: string;
+  minImportance?: number;
+}
+
+export type MemoryRevisionOperation = "update" | "delete";
+
+export interface MemoryRevisionRecord {
+  id: string;
+  memoryId: string;
+  namespace: string;
+  revision: number;
+  operation: MemoryRevisionOperation;
+  layer: MemoryLayer;
+  content: string;
+  metadata: Record<string, unknown>;
+  importance: number;
+  sessionId?: string | null;
+  episodeId?: string | null;
+  summary?: string | null;
+  pinned: boolean;
+  expiresAt?: number | null;
+  references: MemoryReferenceInput[];
+  memoryCreatedAt: number;
+  recordedAt: number;
+}
+
+export interface MemoryImportanceUpdate {
+  id: string;
+  importance: number;
+}
+
+export type MemoryRelationType = "supersedes" | "contradicts" | "elaborates" | "follows";
+
+/** Directed link read as "`srcId` <relation> `dstId`", e.g. a correction supersedes the old fact. */
+export interface MemoryRelationRecord {
+  id: number;
+  srcId: string;
+  dstId: string;
+  relation: MemoryRelationType;
+  weight?: number | null;
+  metadata: Record<string, unknown>;
+  createdAt: number;
+}
+
+export interface NewMemoryRelationRecord
+  extends Omit<MemoryRelationRecord, "id" | "createdAt" | "metadata"> {
+  metadata?: Record<string, unknown>;
+  createdAt?: number;
+}
+
+export interface EpisodeRecord {
+  id: string;
+  namespace: string;
+  name: string;
+  sessionId?: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: number;
+  endedAt?: number | null;
+  summaryMemoryId?: string | null;
+  memoryCount: number;
+  firstMemoryAt?: number | null;
+  lastMemoryAt?: number | null;
+}
+
+export interface NewEpisodeRecord
+  extends Omit<
+    EpisodeRecord,
+    | "id"
+    | "namespace"
+    | "metadata"
+    | "createdAt"
+    | "endedAt"
+    | "summaryMemoryId"
+    | "memoryCount"
+    | "firstMemoryAt"
+    | "lastMemoryAt"
+  > {
+  id?: string;
+  namespace?: string;
+  metadata?: Record<string, unknown>;
+  createdAt?: number;
+}
+
+export interface EpisodeListFilter {
+  /** Every namespace is listed when omitted. */
+  namespace?: string;
+  sessionId?: string;
+  status?: "open" | "closed";
+  from?: number;
+  to?: number;
+}
+
+export interface SessionRecord {
+  id: string;
+  namespace: string;
+  startedAt: number;
+  lastActivityAt: number;
+  memoryCount: number;
+  episodeCount: number;
+  closedAt?: number | null;
+  summaryMemoryId?: string | null;
+}
+
+export interface SessionListFilter {
+  /** Every namespace is listed when omitted. */
+  namespace?: string;
+  status?: "open" | "closed";
+  from?: number;
+  to?: number;
+}
+
 export interface DocumentRecord {
   id: string;
+  namespace: string;
   hash: string;
   sourcePath?: string | null;
   mime?: string | null;
@@ -44,7 +197,8 @@ export interface DocumentRecord {
 }
 
 export interface NewDocumentRecord
-  extends Omit<DocumentRecord, "ingestedAt" | "sizeBytes"> {
+  extends Omit<DocumentRecord, "namespace" | "ingestedAt" | "sizeBytes"> {
+  namespace?: string;
   ingestedAt?: number;
   sizeBytes?: number;
   metadata?: Record<string, unknown>;
@@ -70,6 +224,7 @@ export interface NewDocumentChunkRecord
 
 export interface KnowledgeEntityRecord {
   id: string;
+  namespace: string;
   name: string;
   type: string;
   count: number;
@@ -80,6 +235,7 @@ export interface KnowledgeEntityRecord {
 
 export interface KnowledgeEdgeRecord {
   id: string;
+  namespace: string;
   src: string;
   dst: string;
   relation: string;
@@ -89,8 +245,12 @@ export interface KnowledgeEdgeRecord {
 }
 
 export interface NewKnowledgeEntityRecord
-  extends Omit<KnowledgeEntityRecord, "id" | "count" | "firstSeen" | "lastSeen" | "tags"> {
+  extends Omit<
+    KnowledgeEntityRecord,
+    "id" | "namespace" | "count" | "firstSeen" | "lastSeen" | "tags"
+  > {
   id?: string;
+  namespace?: string;
   count?: number;
   firstSeen?: number;
   lastSeen?: number;
@@ -98,12 +258,73 @@ export interface NewKnowledgeEntityRecord
 }
 
 export interface NewKnowledgeEdgeRecord
-  extends Omit<KnowledgeEdgeRecord, "id" | "createdAt" | "metadata"> {
+  extends Omit<KnowledgeEdgeRecord, "id" | "namespace" | "createdAt" | "metadata"> {
   id?: string;
+  namespace?: string;
   createdAt?: number;
   metadata?: Record<string, unknown>;
 }
 
+/** An entity occurrence in either a memory or a document chunk (exactly one is set). */
+export interface EntityMentionRecord {
+  id: number;
+  entityId: string;
+  memoryId?: string | null;
+  chunkId?: string | null;
+  surface: string;
+  startOffset?: number | null;
+  endOffset?: number | null;
+  confidence: number;
+  createdAt: number;
+}
+
+export interface EntityMentionInput {
+  entityId: string;
+  surface: string;
+  startOffset?: number | null;
+  endOffset?: number | null;
+  confidence?: number;
+}
+
+export type TrashItemKind = "memory" | "document" | "entity";
+
+/** A soft-deleted memory, document or entity waiting to be restored or purged. */
+export interface TrashItemRecord {
+  kind: TrashItemKind;
+  id: string;
+  namespace: string;
+  /** Memory content, document title (or source path) or entity name. */
+  label: string;
+  deletedAt: number;
+}
+
+export interface TrashListFilter {
+  kinds?: TrashItemKind[];
+  /** Every namespace is listed when omitted. */
+  namespace?: string;
+  /** Only items trashed strictly before this timestamp. */
+  deletedBefore?: number;
+}
+
+/** Live (untrashed) row counts of one namespace. */
+export interface NamespaceStatsRecord {
+  namespace: string;
+  memories: number;
+  documents: number;
+  entities: number;
+  edges: number;
+  /** Most recent memory creation or document ingestion, if any. */
+  lastActivityAt?: number | null;
+}
+
+export interface NamespaceDetailRecord extends NamespaceStatsRecord {
+  byLayer: Record<string, number>;
+  pinned: number;
+  docChunks: number;
+  /** Soft-deleted rows still waiting in the trash. */
+  trashed: { memories: number; documents: number; entities: number };
+}
+
 export interface TagRecord {
   name: string;
   description?: string | null;
@@ -1,5 +1,6 @@
 import { z } from "zod";
-import { MemoryReferenceSchema } from "./memory";
+import { FtsQueryModeSchema, MemoryReferenceSchema } from "./memory";
+import { NamespaceSchema } from "./namespace";
 
 export const DocumentIngestionOptionsSchema = z.object({
   chunkSize: z.number().int().min(100).max(4000).default(800),
@@ -11,6 +12,7 @@ export const DocumentIngestionOptionsSchema = z.object({
 export const DocumentMetadataSchema = z.object({}).catchall(z.unknown());
 
 export const DocumentIngestionRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   path: z.string().optional(),
   mime: z.string().optional(),
   content: z.string().optional(),
@@ -37,6 +39,7 @@ export const DocumentChunkSchema = z.object({
 
 export const DocumentRecordSchema = z.object({
   id: z.string(),
+  namespace: z.string(),
   hash: z.string(),
   sourcePath: z.string().optional(),
   mime: z.string().optional(),
@@ -54,36 +57,79 @@ export const DocumentIngestionResultSchema = z.object({
 });
 
 export const DocumentRetrieveRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
 });
 
 export const DocumentListRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   limit: z.number().int().min(1).max(200).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
 // Document Enhancement Schemas
 export const DocumentUpdateRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
   metadata: DocumentMetadataSchema.optional(),
   title: z.string().optional(),
 });
 
 export const DocumentDeleteRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
 });
 
 export const DocumentSearchRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   query: z.string().min(1),
   limit: z.number().int().min(1).max(200).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
+export const DocumentSearchChunksRequestSchema = z.object({
+  // Searched alone unless `namespaces` or `allNamespaces` widen the search.
+  namespace: NamespaceSchema.optional(),
+  namespaces: z.array(NamespaceSchema).min(1).max(50).optional(),
+  allNamespaces: z.boolean().optional(),
+  query: z.string().min(1),
+  queryMode: FtsQueryModeSchema.optional(),
+  // Pre-computed embedding of `query`; computed when omitted.
+  queryVector: z.array(z.number()).optional(),
+  docId: z.string().optional(),
+  topK: z.number().int().min(1).max(100).default(10),
+  // Neighbouring chunks returned on each side of a hit.
+  context: z.number().int().min(0).max(5).default(1),
+  // Maximal Marginal Relevance trade-off: 0 ranks by relevance alone, 1 favours dissimilar chunks.
+  diversity: z.number().min(0).max(1).optional(),
+});
+
+export const ChunkDocumentSchema = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  title: z.string().optional(),
+  sourcePath: z.string().optional(),
+});
+
+export const DocumentChunkHitSchema = z.object({
+  chunk: DocumentChunkSchema,
+  document: ChunkDocumentSchema,
+  score: z.number(),
+  vectorScore: z.number().optional(),
+  textScore: z.number().optional(),
+  // FTS5 excerpt with matched terms wrapped in `**`; absent for vector-only hits.
+  snippet: z.string().optional(),
+  before: z.array(DocumentChunkSchema),
+  after: z.array(DocumentChunkSchema),
+});
+
 export const DocumentGetReferencesRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   docId: z.string(),
 });
 
 export const DocumentAnalyzeRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   docId: z.string(),
 });
 
@@ -105,6 +151,8 @@ export type DocumentListRequest = z.infer<typeof DocumentListRequestSchema>;
 export type DocumentUpdateRequest = z.infer<typeof DocumentUpdateRequestSchema>;
 export type DocumentDeleteRequest = z.infer<typeof DocumentDeleteRequestSchema>;
 export type DocumentSearchRequest = z.infer<typeof DocumentSearchRequestSchema>;
+export type DocumentSearchChunksRequest = z.infer<typeof DocumentSearchChunksRequestSchema>;
+export type DocumentChunkHitDTO = z.infer<typeof DocumentChunkHitSchema>;
 export type DocumentGetReferencesRequest = z.infer<typeof DocumentGetReferencesRequestSchema>;
 export type DocumentAnalyzeRequest = z.infer<typeof DocumentAnalyzeRequestSchema>;
 export type DocumentAnalysisDTO = z.infer<typeof DocumentAnalysisSchema>;
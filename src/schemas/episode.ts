@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { MemoryRecordSchema } from "./memory";
+import { NamespaceSchema } from "./namespace";
+
+export const EpisodeStatusSchema = z.enum(["open", "closed"]);
+
+export const EpisodeSchema = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  name: z.string(),
+  sessionId: z.string().nullish(),
+  metadata: z.object({}).catchall(z.unknown()),
+  status: EpisodeStatusSchema,
+  createdAt: z.number(),
+  endedAt: z.number().nullish(),
+  summaryMemoryId: z.string().nullish(),
+  memoryCount: z.number().int().nonnegative(),
+  firstMemoryAt: z.number().nullish(),
+  lastMemoryAt: z.number().nullish(),
+});
+
+export const EpisodeStartRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  name: z.string().min(1),
+  sessionId: z.string().optional(),
+  metadata: z.object({}).catchall(z.unknown()).optional(),
+});
+
+export const EpisodeEndRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  summarize: z.boolean().optional(),
+  // Explicit summary text; generated from the episode's memories when omitted.
+  summary: z.string().min(1).optional(),
+  importance: z.number().min(0).max(1).optional(),
+});
+
+export const EpisodeEndResultSchema = z.object({
+  episode: EpisodeSchema,
+  summary: MemoryRecordSchema.optional(),
+});
+
+export const EpisodeListRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  sessionId: z.string().optional(),
+  status: EpisodeStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const EpisodeGetRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  limit: z.number().int().min(1).max(1_000).optional(),
+});
+
+export const EpisodeDetailSchema = z.object({
+  episode: EpisodeSchema,
+  memories: z.array(MemoryRecordSchema),
+  summary: MemoryRecordSchema.optional(),
+});
+
+export const EpisodeTimelineRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  sessionId: z.string().optional(),
+  from: z.number().int().optional(),
+  to: z.number().int().optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+});
+
+export const EpisodeTimelineEntrySchema = z.object({
+  episode: EpisodeSchema,
+  durationMs: z.number().nullable(),
+  summary: z.string().nullish(),
+});
+
+export const EpisodeTimelineSchema = z.object({
+  entries: z.array(EpisodeTimelineEntrySchema),
+});
+
+export type EpisodeStatus = z.infer<typeof EpisodeStatusSchema>;
+export type EpisodeDTO = z.infer<typeof EpisodeSchema>;
+export type EpisodeStartRequest = z.infer<typeof EpisodeStartRequestSchema>;
+export type EpisodeEndRequest = z.infer<typeof EpisodeEndRequestSchema>;
+export type EpisodeEndResult = z.infer<typeof EpisodeEndResultSchema>;
+export type EpisodeListRequest = z.infer<typeof EpisodeListRequestSchema>;
+export type EpisodeGetRequest = z.infer<typeof EpisodeGetRequestSchema>;
+export type EpisodeDetailDTO = z.infer<typeof EpisodeDetailSchema>;
+export type EpisodeTimelineRequest = z.infer<typeof EpisodeTimelineRequestSchema>;
+export type EpisodeTimelineEntry = z.infer<typeof EpisodeTimelineEntrySchema>;
+export type EpisodeTimelineDTO = z.infer<typeof EpisodeTimelineSchema>;
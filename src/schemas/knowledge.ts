@@ -1,7 +1,9 @@
 import { z } from "zod";
+import { NamespaceSchema } from "./namespace";
 
 export const KnowledgeEntitySchema = z.object({
   id: z.string(),
+  namespace: z.string(),
   name: z.string(),
   type: z.string(),
   count: z.number().int().nonnegative(),
@@ -12,6 +14,7 @@ export const KnowledgeEntitySchema = z.object({
 
 export const KnowledgeEdgeSchema = z.object({
   id: z.string(),
+  namespace: z.string(),
   src: z.string(),
   dst: z.string(),
   relation: z.string(),
@@ -21,6 +24,7 @@ export const KnowledgeEdgeSchema = z.object({
 });
 
 export const KnowledgeListEntitiesRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   limit: z.number().int().min(1).max(500).optional(),
   offset: z.number().int().min(0).optional(),
 });
@@ -33,6 +37,7 @@ export const ExtractedEntitySchema = z.object({
 
 // Entity Management Schemas
 export const KnowledgeGetEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string().optional(),
   name: z.string().optional(),
 }).refine((value) => value.id || value.name, {
@@ -40,12 +45,14 @@ export const KnowledgeGetEntityRequestSchema = z.object({
 });
 
 export const KnowledgeCreateEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   name: z.string().min(1),
   type: z.string().min(1),
   tags: z.array(z.string()).optional(),
 });
 
 export const KnowledgeUpdateEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
   name: z.string().optional(),
   type: z.string().optional(),
@@ -53,6 +60,7 @@ export const KnowledgeUpdateEntityRequestSchema = z.object({
 });
 
 export const KnowledgeDeleteEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
 });
 
@@ -62,6 +70,7 @@ export const KnowledgeEntityDetailSchema = KnowledgeEntitySchema.extend({
 
 // Relationship Management Schemas
 export const KnowledgeCreateRelationRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   src: z.string(),
   dst: z.string(),
   relation: z.string().min(1),
@@ -70,15 +79,18 @@ export const KnowledgeCreateRelationRequestSchema = z.object({
 });
 
 export const KnowledgeGetRelationsRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   relationType: z.string().optional(),
 });
 
 export const KnowledgeDeleteRelationRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
 });
 
 export const KnowledgeSearchRelationsRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   query: z.string().optional(),
   relationType: z.string().optional(),
   limit: z.number().int().min(1).max(100).optional(),
@@ -87,6 +99,7 @@ export const KnowledgeSearchRelationsRequestSchema = z.object({
 
 // Entity Search Schemas
 export const KnowledgeSearchEntitiesRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   name: z.string().optional(),
   type: z.string().optional(),
   tags: z.array(z.string()).optional(),
@@ -95,12 +108,14 @@ export const KnowledgeSearchEntitiesRequestSchema = z.object({
 });
 
 export const KnowledgeGetEntitiesByTypeRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   type: z.string().min(1),
   limit: z.number().int().min(1).max(500).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
 export const KnowledgeGetEntitiesByTagRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   tag: z.string().min(1),
   limit: z.number().int().min(1).max(500).optional(),
   offset: z.number().int().min(0).optional(),
@@ -108,19 +123,24 @@ export const KnowledgeGetEntitiesByTagRequestSchema = z.object({
 
 // Entity Tagging Schemas
 export const KnowledgeTagEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   tags: z.array(z.string().min(1)),
 });
 
 export const KnowledgeRemoveTagRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   tag: z.string().min(1),
 });
 
-export const KnowledgeGetTagsRequestSchema = z.object({});
+export const KnowledgeGetTagsRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+});
 
 // Graph Traversal Schemas
 export const KnowledgeReadGraphRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   depth: z.number().int().min(1).max(5).optional().default(1),
   relationType: z.string().optional(),
@@ -133,12 +153,14 @@ export const KnowledgeGraphSnapshotSchema = z.object({
 });
 
 export const KnowledgeGetRelatedEntitiesRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   relationType: z.string().optional(),
   limit: z.number().int().min(1).max(100).optional(),
 });
 
 export const KnowledgeFindPathRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   src: z.string(),
   dst: z.string(),
   maxDepth: z.number().int().min(1).max(10).optional().default(5),
@@ -146,6 +168,7 @@ export const KnowledgeFindPathRequestSchema = z.object({
 
 // Entity Context Schemas
 export const KnowledgeGetEntityContextRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
 });
 
@@ -156,10 +179,12 @@ export const KnowledgeEntityContextSchema = z.object({
 });
 
 export const KnowledgeGetEntitiesInDocumentRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   docId: z.string(),
 });
 
 export const KnowledgeGetEntitiesInMemoryRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   memoryId: z.string(),
 });
 
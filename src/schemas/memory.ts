@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { NamespaceSchema } from "./namespace";
 
 export const MemoryLayerSchema = z.enum([
   "stm",
@@ -16,6 +17,8 @@ export const MemoryReferenceSchema = z.object({
 });
 
 export const MemoryAddInputSchema = z.object({
+  // Defaults to the configured namespace.
+  namespace: NamespaceSchema.optional(),
   content: z.string().min(1),
   layer: MemoryLayerSchema,
   metadata: z.object({}).catchall(z.unknown()).default({}),
@@ -23,10 +26,16 @@ export const MemoryAddInputSchema = z.object({
   sessionId: z.string().optional(),
   episodeId: z.string().optional(),
   summary: z.string().optional(),
+  expiresAt: z.number().int().optional(),
+  // Exempts the memory from decay, consolidation, dedupe merges and retention.
+  pinned: z.boolean().optional(),
+  dedupe: z.boolean().optional(),
+  dedupeThreshold: z.number().min(0).max(1).optional(),
 });
 
 export const MemoryRecordSchema = z.object({
   id: z.string(),
+  namespace: z.string(),
   layer: MemoryLayerSchema,
   content: z.string(),
   metadata: z.object({}).catchall(z.unknown()),
@@ -37,18 +46,186 @@ export const MemoryRecordSchema = z.object({
   episodeId: z.string().nullish(),
   summary: z.string().nullish(),
   embeddingId: z.string().nullish(),
+  expiresAt: z.number().nullish(),
+  pinned: z.boolean().optional(),
+  accessCount: z.number().int().nonnegative().optional(),
+  lastAccessedAt: z.number().nullish(),
   references: z.array(MemoryReferenceSchema).optional(),
 });
 
+export const MemoryAddResultSchema = MemoryRecordSchema.extend({
+  deduplicated: z.boolean().optional(),
+  similarity: z.number().optional(),
+});
+
+export const MemoryAddBatchItemSchema = MemoryAddInputSchema.omit({
+  namespace: true,
+  dedupe: true,
+  dedupeThreshold: true,
+});
+
+export const MemoryAddBatchRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  items: z.array(MemoryAddBatchItemSchema).min(1).max(20_000),
+  // Texts sent to the embedding provider per call.
+  batchSize: z.number().int().min(1).max(1_000).optional(),
+});
+
+export const MemoryAddBatchItemResultSchema = z.object({
+  index: z.number().int().nonnegative(),
+  id: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const MemoryAddBatchResultSchema = z.object({
+  added: z.number().int().nonnegative(),
+  failed: z.number().int().nonnegative(),
+  results: z.array(MemoryAddBatchItemResultSchema),
+});
+
+const MetadataBoundSchema = z.union([z.string(), z.number()]);
+
+export const MemoryMetadataFilterSchema = z
+  .object({
+    // Dotted path into `metadata`, e.g. "source.kind".
+    path: z.string().regex(/^[^."]+(\.[^."]+)*$/, "Expected a dotted path such as source.kind"),
+    eq: z.union([z.string(), z.number(), z.boolean(), z.null()]).optional(),
+    in: z.array(MetadataBoundSchema).max(100).optional(),
+    gt: MetadataBoundSchema.optional(),
+    gte: MetadataBoundSchema.optional(),
+    lt: MetadataBoundSchema.optional(),
+    lte: MetadataBoundSchema.optional(),
+    exists: z.boolean().optional(),
+  })
+  .refine(
+    (filter) =>
+      ["eq", "in", "gt", "gte", "lt", "lte", "exists"].some(
+        (key) => filter[key as keyof typeof filter] !== undefined,
+      ),
+    { message: "Metadata filter needs at least one operator" },
+  );
+
+export const FusionStrategySchema = z.enum(["rrf", "linear", "weighted"]);
+
+export const FusionWeightsSchema = z.object({
+  vector: z.number().min(0).optional(),
+  text: z.number().min(0).optional(),
+  graph: z.number().min(0).optional(),
+});
+
+export const MemorySearchFusionSchema = z.object({
+  // `weights` without a strategy selects `weighted`.
+  strategy: FusionStrategySchema.optional(),
+  // Per-retriever weights for `weighted`; omitted ones keep the configured weight.
+  weights: FusionWeightsSchema.optional(),
+  // RRF rank constant; larger values flatten the gap between top and lower ranks.
+  rrfK: z.number().int().min(1).max(1_000).optional(),
+});
+
+// How `query` reaches FTS5: prefix-matched terms, one phrase, or FTS5 query syntax as written.
+export const FtsQueryModeSchema = z.enum(["simple", "fts", "phrase"]);
+
+// Named blends of retrieval relevance with recency and importance; see `search.ranking` config.
+export const RankingProfileSchema = z.enum(["relevance", "recent", "important", "balanced"]);
+
 export const MemorySearchRequestSchema = z.object({
+  namespace: NamespaceSchema.optional().describe(
+    "Namespace to search; the server default when omitted. Searched alone unless `namespaces` or `allNamespaces` widen the search.",
+  ),
+  namespaces: z.array(NamespaceSchema).min(1).max(50).optional().describe("Search several namespaces at once."),
+  allNamespaces: z.boolean().optional().describe("Search every namespace."),
   query: z.string().optional(),
+  queryMode: FtsQueryModeSchema.optional().describe(
+    "How `query` is full-text matched: `simple` (default; every word as a prefix, punctuation ignored), `phrase` (the words in order), or `fts` (validated FTS5 syntax: quoted phrases, `AND`/`OR`/`NOT`, `NEAR`, `*`, column filters on `content`, `summary`, `layer`).",
+  ),
   queryVector: z.array(z.number()).optional(),
   topK: z.number().int().min(1).max(100).default(20),
   layers: z.array(MemoryLayerSchema).optional(),
   minImportance: z.number().min(0).max(1).optional(),
   sessionId: z.string().optional(),
   episodeId: z.string().optional(),
+  createdAfter: z.number().int().optional().describe("Epoch ms, inclusive."),
+  createdBefore: z.number().int().optional().describe("Epoch ms, exclusive."),
+  updatedAfter: z.number().int().optional().describe("Epoch ms, inclusive."),
+  metadata: z
+    .array(MemoryMetadataFilterSchema)
+    .max(20)
+    .optional()
+    .describe(
+      "Conditions on dotted JSON paths of `metadata` (`eq`, `in`, `gt`/`gte`/`lt`/`lte`, `exists`); all must hold.",
+    ),
   includeReferences: z.boolean().default(true),
+  collapseSuperseded: z
+    .boolean()
+    .optional()
+    .describe("Replace superseded memories with their newest successor."),
+  includePinned: z
+    .boolean()
+    .optional()
+    .describe(
+      "Append pinned memories matching the other filters with `score: 0`, even when the query does not match them.",
+    ),
+  fusion: MemorySearchFusionSchema.optional().describe(
+    "How vector, full-text and graph scores are merged: `rrf` (reciprocal rank fusion), `linear` (min-max scaled average) or `weighted` (min-max scaled with per-retriever `weights`). Defaults to the server configuration.",
+  ),
+  graphHops: z
+    .number()
+    .int()
+    .min(0)
+    .max(2)
+    .optional()
+    .describe(
+      "Knowledge-graph hops expanded from the entities named in `query`; memories mentioning an entity reached are scored by path weight as `graphScore`. 0 keeps direct mentions.",
+    ),
+  profile: RankingProfileSchema.optional().describe(
+    "Blends the fused score with recency (decay by `updatedAt`) and importance: `relevance` (fused score only), `recent`, `important` or `balanced`. Defaults to the server configuration.",
+  ),
+  diversity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe(
+      "Maximal Marginal Relevance trade-off: 0 ranks by relevance alone, 1 favours hits unlike those already picked.",
+    ),
+  explain: z
+    .boolean()
+    .optional()
+    .describe(
+      "Attach a score breakdown to every hit and return an `explanation` with the FTS query, fusion, ranking profile, filters and timings. Bypasses the result cache.",
+    ),
+});
+
+export const SearchRetrieverSchema = z.enum(["vector", "text", "graph"]);
+
+const RetrieverExplanationSchema = z.object({
+  // 1-based position in the retriever's own ranking.
+  rank: z.number().int(),
+  // Min-max scaled over the retriever's hits.
+  normalized: z.number(),
+  // Share of the fused score.
+  contribution: z.number(),
+});
+
+export const MemorySearchHitExplanationSchema = z.object({
+  retrievers: z.array(SearchRetrieverSchema),
+  vector: RetrieverExplanationSchema.extend({ cosine: z.number() }).optional(),
+  // Raw bm25 rank as returned by FTS5; lower is better.
+  text: RetrieverExplanationSchema.extend({ bm25: z.number() }).optional(),
+  graph: RetrieverExplanationSchema.extend({ pathWeight: z.number() }).optional(),
+  // The fused score written out with this hit's numbers.
+  fusion: z.string(),
+  // Set when the ranking profile blended `score` with recency and importance.
+  ranking: z
+    .object({
+      fusedScore: z.number(),
+      // Fused score min-max scaled over the candidates.
+      relevance: z.number(),
+      // 1 for a memory updated just now, halving every half-life.
+      recency: z.number(),
+      importance: z.number(),
+    })
+    .optional(),
 });
 
 export const MemorySearchResultSchema = MemoryRecordSchema.extend({
@@ -56,32 +233,363 @@ export const MemorySearchResultSchema = MemoryRecordSchema.extend({
   vectorScore: z.number().optional(),
   textScore: z.number().optional(),
   graphScore: z.number().optional(),
+  // Superseded memories folded into this result by `collapseSuperseded`.
+  collapsed: z.array(z.string()).optional(),
+  // Only set for `explain` requests.
+  explanation: MemorySearchHitExplanationSchema.optional(),
+});
+
+export const MemorySearchExplanationSchema = z.object({
+  // FTS5 MATCH expression built from `query`.
+  ftsQuery: z.string().optional(),
+  fusion: z.object({
+    strategy: FusionStrategySchema,
+    weights: z.object({ vector: z.number(), text: z.number(), graph: z.number() }),
+    rrfK: z.number(),
+    formula: z.string(),
+  }),
+  ranking: z.object({
+    profile: RankingProfileSchema,
+    recencyWeight: z.number(),
+    importanceWeight: z.number(),
+    halfLifeMs: z.number(),
+  }),
+  // Request filters every retriever applied, after namespace resolution.
+  filters: z.record(z.string(), z.unknown()),
+  // Milliseconds per stage; the retrievers run concurrently.
+  timings: z.object({
+    embedMs: z.number(),
+    vectorMs: z.number(),
+    textMs: z.number(),
+    graphMs: z.number(),
+    fusionMs: z.number(),
+    hydrateMs: z.number(),
+    // Ranking profile and diversity.
+    rerankMs: z.number(),
+    totalMs: z.number(),
+  }),
+});
+
+export const MemorySearchExplainedSchema = z.object({
+  results: z.array(MemorySearchResultSchema),
+  explanation: MemorySearchExplanationSchema,
 });
 
 // Memory Enhancement Schemas
 export const MemoryGetRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   id: z.string(),
 });
 
 export const MemoryGetByEntityRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   entityId: z.string(),
   limit: z.number().int().min(1).max(100).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
 export const MemoryGetByDocumentRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
   docId: z.string(),
   limit: z.number().int().min(1).max(100).optional(),
   offset: z.number().int().min(0).optional(),
 });
 
+export const MemoryUpdateRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  content: z.string().min(1).optional(),
+  layer: MemoryLayerSchema.optional(),
+  metadata: z.object({}).catchall(z.unknown()).optional(),
+  importance: z.number().min(0).max(1).optional(),
+  // `null` clears the field.
+  sessionId: z.string().nullish(),
+  episodeId: z.string().nullish(),
+  summary: z.string().nullish(),
+  expiresAt: z.number().int().nullish(),
+  pinned: z.boolean().optional(),
+  // Required to modify a pinned memory, including unpinning it.
+  force: z.boolean().optional(),
+});
+
+export const MemoryDeleteRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  force: z.boolean().optional(),
+});
+
+export const MemoryLinkDocumentRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  memoryId: z.string(),
+  docId: z.string(),
+  chunkId: z.string().optional(),
+  score: z.number().optional(),
+  relation: z.string().optional(),
+});
+
+export const MemoryUnlinkDocumentRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  memoryId: z.string(),
+  docId: z.string(),
+  chunkId: z.string().optional(),
+});
+
+export const MemoryRelationTypeSchema = z.enum([
+  "supersedes",
+  "contradicts",
+  "elaborates",
+  "follows",
+]);
+
+export const MemoryRelationDirectionSchema = z.enum(["outgoing", "incoming", "both"]);
+
+export const MemoryRelationSchema = z.object({
+  srcId: z.string(),
+  dstId: z.string(),
+  relation: MemoryRelationTypeSchema,
+  weight: z.number().nullish(),
+  metadata: z.object({}).catchall(z.unknown()),
+  createdAt: z.number(),
+});
+
+export const MemoryRelateRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  // Read as "srcId <relation> dstId", e.g. the correction supersedes the old memory.
+  srcId: z.string(),
+  dstId: z.string(),
+  relation: MemoryRelationTypeSchema,
+  weight: z.number().optional(),
+  metadata: z.object({}).catchall(z.unknown()).optional(),
+});
+
+export const MemoryGetRelatedRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  relations: z.array(MemoryRelationTypeSchema).optional(),
+  direction: MemoryRelationDirectionSchema.optional(),
+  depth: z.number().int().min(1).max(5).optional(),
+  limit: z.number().int().min(1).max(200).optional(),
+});
+
+export const MemoryRelatedEntrySchema = z.object({
+  memory: MemoryRecordSchema,
+  relation: MemoryRelationSchema,
+  // Hops from the requested memory.
+  depth: z.number().int().min(1),
+});
+
+export const MemoryRelatedSchema = z.object({
+  id: z.string(),
+  related: z.array(MemoryRelatedEntrySchema),
+});
+
+export const MemoryConsolidateRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+  limit: z.number().int().min(1).max(10_000).optional(),
+  minAgeMs: z.number().int().min(0).optional(),
+});
+
+export const MemoryConsolidationScoreSchema = z.object({
+  memoryId: z.string(),
+  score: z.number(),
+  importance: z.number(),
+  age: z.number(),
+  access: z.number(),
+  entityOverlap: z.number(),
+});
+
+export const MemoryConsolidationReportSchema = z.object({
+  startedAt: z.number(),
+  completedAt: z.number(),
+  dryRun: z.boolean(),
+  scanned: z.number().int().nonnegative(),
+  retained: z.number().int().nonnegative(),
+  promoted: z.object({
+    ltm: z.number().int().nonnegative(),
+    semantic: z.number().int().nonnegative(),
+  }),
+  merged: z.number().int().nonnegative(),
+  promotions: z.array(
+    MemoryConsolidationScoreSchema.extend({
+      layer: z.enum(["ltm", "semantic"]),
+    }),
+  ),
+  merges: z.array(
+    z.object({
+      memoryId: z.string(),
+      mergedInto: z.string(),
+      similarity: z.number(),
+    }),
+  ),
+});
+
+export const MemoryDecayRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+  now: z.number().int().optional(),
+});
+
+export const MemoryDecayReportSchema = z.object({
+  startedAt: z.number(),
+  completedAt: z.number(),
+  dryRun: z.boolean(),
+  curve: z.enum(["exponential", "linear"]),
+  scanned: z.number().int().nonnegative(),
+  decayed: z.number().int().nonnegative(),
+  vectorsUpdated: z.number().int().nonnegative(),
+});
+
+export const MemoryRetentionRequestSchema = z.object({
+  dryRun: z.boolean().optional(),
+  now: z.number().int().optional(),
+});
+
+export const MemoryRetentionReportSchema = z.object({
+  startedAt: z.number(),
+  completedAt: z.number(),
+  dryRun: z.boolean(),
+  expired: z.number().int().nonnegative(),
+  // Memories past their layer's maximum age, keyed by layer.
+  byLayer: z.record(z.string(), z.number().int().nonnegative()),
+  purged: z.number().int().nonnegative(),
+});
+
+export const MemoryFindDuplicatesRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  threshold: z.number().min(0).max(1).optional(),
+  layer: MemoryLayerSchema.optional(),
+  limit: z.number().int().min(1).max(10_000).optional(),
+  merge: z.boolean().optional(),
+});
+
+export const MemoryDuplicateGroupSchema = z.object({
+  memoryId: z.string(),
+  duplicates: z.array(
+    z.object({
+      memoryId: z.string(),
+      similarity: z.number(),
+    }),
+  ),
+});
+
+export const MemoryFindDuplicatesResultSchema = z.object({
+  scanned: z.number().int().nonnegative(),
+  merged: z.number().int().nonnegative(),
+  groups: z.array(MemoryDuplicateGroupSchema),
+});
+
+export const MemoryRevisionSchema = z.object({
+  id: z.string(),
+  memoryId: z.string(),
+  namespace: z.string(),
+  revision: z.number().int().min(1),
+  operation: z.enum(["update", "delete"]),
+  layer: MemoryLayerSchema,
+  content: z.string(),
+  metadata: z.object({}).catchall(z.unknown()),
+  importance: z.number(),
+  sessionId: z.string().nullish(),
+  episodeId: z.string().nullish(),
+  summary: z.string().nullish(),
+  pinned: z.boolean().default(false),
+  expiresAt: z.number().nullish(),
+  references: z.array(MemoryReferenceSchema),
+  memoryCreatedAt: z.number(),
+  recordedAt: z.number(),
+});
+
+export const MemoryHistoryRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  limit: z.number().int().min(1).max(100).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const MemoryHistorySchema = z.object({
+  memoryId: z.string(),
+  current: MemoryRecordSchema.optional(),
+  revisions: z.array(MemoryRevisionSchema),
+});
+
+export const MemoryDiffRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  from: z.number().int().min(1),
+  // Omit to diff against the current state of the memory.
+  to: z.number().int().min(1).optional(),
+});
+
+export const MemoryDiffSchema = z.object({
+  memoryId: z.string(),
+  from: z.number().int(),
+  to: z.number().int().nullable(),
+  changes: z.array(
+    z.object({
+      field: z.string(),
+      before: z.unknown(),
+      after: z.unknown(),
+    }),
+  ),
+  contentDiff: z.array(
+    z.object({
+      op: z.enum(["equal", "insert", "delete"]),
+      text: z.string(),
+    }),
+  ),
+});
+
+export const MemoryRevertRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  revision: z.number().int().min(1),
+  force: z.boolean().optional(),
+});
+
 export type MemoryLayer = z.infer<typeof MemoryLayerSchema>;
 export type MemoryReferenceDTO = z.infer<typeof MemoryReferenceSchema>;
 export type MemoryRecordDTO = z.infer<typeof MemoryRecordSchema>;
 export type MemoryAddInput = z.infer<typeof MemoryAddInputSchema>;
+export type MemoryAddResult = z.infer<typeof MemoryAddResultSchema>;
+export type MemoryAddBatchItem = z.infer<typeof MemoryAddBatchItemSchema>;
+export type MemoryAddBatchRequest = z.infer<typeof MemoryAddBatchRequestSchema>;
+export type MemoryAddBatchItemResult = z.infer<typeof MemoryAddBatchItemResultSchema>;
+export type MemoryAddBatchResult = z.infer<typeof MemoryAddBatchResultSchema>;
+export type MemoryMetadataFilter = z.infer<typeof MemoryMetadataFilterSchema>;
+export type FusionStrategy = z.infer<typeof FusionStrategySchema>;
+export type FtsQueryMode = z.infer<typeof FtsQueryModeSchema>;
+export type RankingProfile = z.infer<typeof RankingProfileSchema>;
+export type MemorySearchFusion = z.infer<typeof MemorySearchFusionSchema>;
 export type MemorySearchRequest = z.infer<typeof MemorySearchRequestSchema>;
 export type MemorySearchResult = z.infer<typeof MemorySearchResultSchema>;
+export type SearchRetriever = z.infer<typeof SearchRetrieverSchema>;
+export type MemorySearchHitExplanation = z.infer<typeof MemorySearchHitExplanationSchema>;
+export type MemorySearchExplanation = z.infer<typeof MemorySearchExplanationSchema>;
+export type MemorySearchExplained = z.infer<typeof MemorySearchExplainedSchema>;
 export type MemoryGetRequest = z.infer<typeof MemoryGetRequestSchema>;
 export type MemoryGetByEntityRequest = z.infer<typeof MemoryGetByEntityRequestSchema>;
 export type MemoryGetByDocumentRequest = z.infer<typeof MemoryGetByDocumentRequestSchema>;
-
+export type MemoryUpdateRequest = z.infer<typeof MemoryUpdateRequestSchema>;
+export type MemoryDeleteRequest = z.infer<typeof MemoryDeleteRequestSchema>;
+export type MemoryLinkDocumentRequest = z.infer<typeof MemoryLinkDocumentRequestSchema>;
+export type MemoryUnlinkDocumentRequest = z.infer<typeof MemoryUnlinkDocumentRequestSchema>;
+export type MemoryRelationType = z.infer<typeof MemoryRelationTypeSchema>;
+export type MemoryRelationDTO = z.infer<typeof MemoryRelationSchema>;
+export type MemoryRelateRequest = z.infer<typeof MemoryRelateRequestSchema>;
+export type MemoryGetRelatedRequest = z.infer<typeof MemoryGetRelatedRequestSchema>;
+export type MemoryRelatedEntry = z.infer<typeof MemoryRelatedEntrySchema>;
+export type MemoryRelated = z.infer<typeof MemoryRelatedSchema>;
+export type MemoryConsolidateRequest = z.infer<typeof MemoryConsolidateRequestSchema>;
+export type MemoryConsolidationScore = z.infer<typeof MemoryConsolidationScoreSchema>;
+export type MemoryConsolidationReport = z.infer<typeof MemoryConsolidationReportSchema>;
+export type MemoryDecayRequest = z.infer<typeof MemoryDecayRequestSchema>;
+export type MemoryDecayReport = z.infer<typeof MemoryDecayReportSchema>;
+export type MemoryRetentionRequest = z.infer<typeof MemoryRetentionRequestSchema>;
+export type MemoryRetentionReport = z.infer<typeof MemoryRetentionReportSchema>;
+export type MemoryFindDuplicatesRequest = z.infer<typeof MemoryFindDuplicatesRequestSchema>;
+export type MemoryDuplicateGroup = z.infer<typeof MemoryDuplicateGroupSchema>;
+export type MemoryFindDuplicatesResult = z.infer<typeof MemoryFindDuplicatesResultSchema>;
+export type MemoryRevisionDTO = z.infer<typeof MemoryRevisionSchema>;
+export type MemoryHistoryRequest = z.infer<typeof MemoryHistoryRequestSchema>;
+export type MemoryHistory = z.infer<typeof MemoryHistorySchema>;
+export type MemoryDiffRequest = z.infer<typeof MemoryDiffRequestSchema>;
+export type MemoryDiff = z.infer<typeof MemoryDiffSchema>;
+export type MemoryRevertRequest = z.infer<typeof MemoryRevertRequestSchema>;
@@ -0,0 +1,44 @@
+import { z } from "zod";
+
+export const NamespaceSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/,
+    "Expected 1-64 letters, digits, dots, dashes or underscores",
+  );
+
+export const NamespaceSummarySchema = z.object({
+  namespace: z.string(),
+  memories: z.number().int().nonnegative(),
+  documents: z.number().int().nonnegative(),
+  entities: z.number().int().nonnegative(),
+  edges: z.number().int().nonnegative(),
+  // Latest memory creation or document ingestion.
+  lastActivityAt: z.number().nullish(),
+});
+
+export const NamespaceListRequestSchema = z.object({
+  limit: z.number().int().min(1).max(500).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const NamespaceStatsRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+});
+
+export const NamespaceStatsSchema = NamespaceSummarySchema.extend({
+  byLayer: z.record(z.string(), z.number().int().nonnegative()),
+  pinned: z.number().int().nonnegative(),
+  docChunks: z.number().int().nonnegative(),
+  // Soft-deleted rows still waiting in the trash.
+  trashed: z.object({
+    memories: z.number().int().nonnegative(),
+    documents: z.number().int().nonnegative(),
+    entities: z.number().int().nonnegative(),
+  }),
+});
+
+export type NamespaceSummaryDTO = z.infer<typeof NamespaceSummarySchema>;
+export type NamespaceListRequest = z.infer<typeof NamespaceListRequestSchema>;
+export type NamespaceStatsRequest = z.infer<typeof NamespaceStatsRequestSchema>;
+export type NamespaceStatsDTO = z.infer<typeof NamespaceStatsSchema>;
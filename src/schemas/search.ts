@@ -1,9 +1,64 @@
 import { z } from "zod";
-import { MemorySearchResultSchema } from "./memory";
+import { ChunkDocumentSchema, DocumentChunkSchema } from "./document";
+import { KnowledgeEntitySchema } from "./knowledge";
+import { FtsQueryModeSchema, MemorySearchResultSchema } from "./memory";
+import { NamespaceSchema } from "./namespace";
 
 export const HybridSearchResultSchema = MemorySearchResultSchema.extend({
-  source: z.enum(["vector", "text", "graph"]).default("vector"),
+  source: z.enum(["vector", "text", "graph", "pinned"]).default("vector"),
 });
 
-export type HybridSearchResult = z.infer<typeof HybridSearchResultSchema>;
+export const SearchHitTypeSchema = z.enum(["memory", "chunk", "entity"]);
+
+const SearchQuotaSchema = z.number().int().min(0).max(100).optional();
+
+export const SearchAllRequestSchema = z.object({
+  // Searched alone unless `namespaces` or `allNamespaces` widen the search.
+  namespace: NamespaceSchema.optional(),
+  namespaces: z.array(NamespaceSchema).min(1).max(50).optional(),
+  allNamespaces: z.boolean().optional(),
+  query: z.string().min(1),
+  // Applies to the full-text side of every hit type; column filters must exist in each table searched.
+  queryMode: FtsQueryModeSchema.optional(),
+  topK: z.number().int().min(1).max(100).default(20),
+  // Hit types to search; every type when omitted.
+  types: z.array(SearchHitTypeSchema).min(1).optional(),
+  // Most hits of a type in the result; a type without a quota may fill all of `topK`.
+  quotas: z
+    .object({
+      memory: SearchQuotaSchema,
+      chunk: SearchQuotaSchema,
+      entity: SearchQuotaSchema,
+    })
+    .optional(),
+});
+
+export const SearchAllHitSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("memory"),
+    id: z.string(),
+    score: z.number(),
+    memory: MemorySearchResultSchema,
+  }),
+  z.object({
+    type: z.literal("chunk"),
+    id: z.string(),
+    score: z.number(),
+    vectorScore: z.number().optional(),
+    textScore: z.number().optional(),
+    chunk: DocumentChunkSchema,
+    document: ChunkDocumentSchema,
+  }),
+  z.object({
+    type: z.literal("entity"),
+    id: z.string(),
+    score: z.number(),
+    textScore: z.number().optional(),
+    entity: KnowledgeEntitySchema,
+  }),
+]);
 
+export type HybridSearchResult = z.infer<typeof HybridSearchResultSchema>;
+export type SearchHitType = z.infer<typeof SearchHitTypeSchema>;
+export type SearchAllRequest = z.infer<typeof SearchAllRequestSchema>;
+export type SearchAllHit = z.infer<typeof SearchAllHitSchema>;
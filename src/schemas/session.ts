@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { MemoryLayerSchema, MemoryRecordSchema } from "./memory";
+import { NamespaceSchema } from "./namespace";
+
+export const SessionStatusSchema = z.enum(["open", "closed"]);
+
+export const SessionSchema = z.object({
+  id: z.string(),
+  namespace: z.string(),
+  status: SessionStatusSchema,
+  startedAt: z.number(),
+  lastActivityAt: z.number(),
+  durationMs: z.number().nonnegative(),
+  memoryCount: z.number().int().nonnegative(),
+  episodeCount: z.number().int().nonnegative(),
+  closedAt: z.number().nullish(),
+  summaryMemoryId: z.string().nullish(),
+});
+
+export const SessionListRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  status: SessionStatusSchema.optional(),
+  from: z.number().int().optional(),
+  to: z.number().int().optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const SessionGetRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  limit: z.number().int().min(1).max(1_000).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const SessionDetailSchema = z.object({
+  session: SessionSchema,
+  layerCounts: z.record(MemoryLayerSchema, z.number().int().nonnegative()),
+  memories: z.array(MemoryRecordSchema),
+  summary: MemoryRecordSchema.optional(),
+});
+
+export const SessionCloseRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  id: z.string(),
+  summarize: z.boolean().optional(),
+  // Explicit summary text; generated from the session's memories when omitted.
+  summary: z.string().min(1).optional(),
+  importance: z.number().min(0).max(1).optional(),
+});
+
+export const SessionCloseResultSchema = z.object({
+  session: SessionSchema,
+  summary: MemoryRecordSchema.optional(),
+});
+
+export type SessionStatus = z.infer<typeof SessionStatusSchema>;
+export type SessionDTO = z.infer<typeof SessionSchema>;
+export type SessionListRequest = z.infer<typeof SessionListRequestSchema>;
+export type SessionGetRequest = z.infer<typeof SessionGetRequestSchema>;
+export type SessionDetailDTO = z.infer<typeof SessionDetailSchema>;
+export type SessionCloseRequest = z.infer<typeof SessionCloseRequestSchema>;
+export type SessionCloseResult = z.infer<typeof SessionCloseResultSchema>;
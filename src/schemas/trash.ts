@@ -0,0 +1,59 @@
+import { z } from "zod";
+import { NamespaceSchema } from "./namespace";
+
+export const TrashItemKindSchema = z.enum(["memory", "document", "entity"]);
+
+export const TrashItemSchema = z.object({
+  kind: TrashItemKindSchema,
+  id: z.string(),
+  namespace: z.string(),
+  label: z.string(),
+  deletedAt: z.number(),
+  // When the purge job will remove the item for good.
+  purgeAfter: z.number(),
+});
+
+export const TrashListRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  allNamespaces: z.boolean().optional(),
+  kinds: z.array(TrashItemKindSchema).min(1).optional(),
+  limit: z.number().int().min(1).max(500).optional(),
+  offset: z.number().int().min(0).optional(),
+});
+
+export const TrashItemRefSchema = z.object({
+  kind: TrashItemKindSchema,
+  id: z.string(),
+});
+
+export const TrashRestoreRequestSchema = TrashItemRefSchema.extend({
+  namespace: NamespaceSchema.optional(),
+});
+
+export const TrashPurgeRequestSchema = z.object({
+  namespace: NamespaceSchema.optional(),
+  // The scheduled purge job drains the trash of every namespace.
+  allNamespaces: z.boolean().optional(),
+  // Purges exactly these trashed items, ignoring the grace period.
+  items: z.array(TrashItemRefSchema).min(1).max(1_000).optional(),
+  // Overrides the configured grace period; 0 empties the whole trash.
+  olderThanMs: z.number().int().min(0).optional(),
+  dryRun: z.boolean().optional(),
+  now: z.number().int().optional(),
+});
+
+export const TrashPurgeReportSchema = z.object({
+  startedAt: z.number(),
+  completedAt: z.number(),
+  dryRun: z.boolean(),
+  byKind: z.record(TrashItemKindSchema, z.number().int().nonnegative()),
+  purged: z.number().int().nonnegative(),
+});
+
+export type TrashItemKind = z.infer<typeof TrashItemKindSchema>;
+export type TrashItemDTO = z.infer<typeof TrashItemSchema>;
+export type TrashListRequest = z.infer<typeof TrashListRequestSchema>;
+export type TrashItemRef = z.infer<typeof TrashItemRefSchema>;
+export type TrashRestoreRequest = z.infer<typeof TrashRestoreRequestSchema>;
+export type TrashPurgeRequest = z.infer<typeof TrashPurgeRequestSchema>;
+export type TrashPurgeReport = z.infer<typeof TrashPurgeReportSchema>;
@@ -12,7 +12,7 @@ export async function main(): Promise<void> {
 
     for (let i = 0; i < 3; i += 1) {
       const docStart = performance.now();
-      const doc = await services.document.ingest({
+      await services.document.ingest({
         content: `Benchmark document ${i} ` + "x".repeat(5_000),
         metadata: { title: `Benchmark ${i}` },
         options: { chunkSize: 512, chunkOverlap: 32, detectEntities: false },
@@ -25,13 +25,6 @@ export async function main(): Promise<void> {
         topK: 5,
       });
       searchDurations.push(performance.now() - searchStart);
-
-      services.analytics.recordMetric({
-        timestamp: Date.now(),
-        queryMs: searchDurations[searchDurations.length - 1]!,
-        cacheHit: false,
-        resultCount: doc.chunkCount,
-      });
     }
 
     const ingestionAvg = average(ingestDurations);
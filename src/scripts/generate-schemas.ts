@@ -19,6 +19,7 @@ import {
   KnowledgeEntitySchema,
   KnowledgeEdgeSchema,
 } from "../schemas/knowledge";
+import { EpisodeSchema } from "../schemas/episode";
 import { HybridSearchResultSchema } from "../schemas/search";
 import { MemoryMetricSchema } from "../schemas/analytics";
 
@@ -74,6 +75,11 @@ const SCHEMA_ENTRIES: SchemaEntry[] = [
     schema: KnowledgeEdgeSchema,
     id: "KnowledgeEdge",
   },
+  {
+    filename: "episode",
+    schema: EpisodeSchema,
+    id: "Episode",
+  },
   {
     filename: "hybrid-search-result",
     schema: HybridSearchResultSchema,
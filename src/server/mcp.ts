@@ -12,18 +12,39 @@ import {
   DocumentUpdateRequestSchema,
   DocumentDeleteRequestSchema,
   DocumentSearchRequestSchema,
+  DocumentSearchChunksRequestSchema,
+  DocumentChunkHitSchema,
   DocumentGetReferencesRequestSchema,
   DocumentAnalyzeRequestSchema,
   DocumentAnalysisSchema,
 } from "../schemas/document";
 import {
+  MemoryAddBatchRequestSchema,
+  MemoryAddBatchResultSchema,
   MemoryAddInputSchema,
+  MemoryAddResultSchema,
   MemorySearchRequestSchema,
   MemorySearchResultSchema,
+  MemorySearchExplanationSchema,
   MemoryRecordSchema,
   MemoryGetRequestSchema,
   MemoryGetByEntityRequestSchema,
   MemoryGetByDocumentRequestSchema,
+  MemoryUpdateRequestSchema,
+  MemoryDeleteRequestSchema,
+  MemoryLinkDocumentRequestSchema,
+  MemoryUnlinkDocumentRequestSchema,
+  MemoryRelateRequestSchema,
+  MemoryRelationSchema,
+  MemoryGetRelatedRequestSchema,
+  MemoryRelatedSchema,
+  MemoryFindDuplicatesRequestSchema,
+  MemoryFindDuplicatesResultSchema,
+  MemoryHistoryRequestSchema,
+  MemoryHistorySchema,
+  MemoryDiffRequestSchema,
+  MemoryDiffSchema,
+  MemoryRevertRequestSchema,
 } from "../schemas/memory";
 import {
   KnowledgeListEntitiesRequestSchema,
@@ -53,6 +74,37 @@ import {
   KnowledgeGetEntitiesInDocumentRequestSchema,
   KnowledgeGetEntitiesInMemoryRequestSchema,
 } from "../schemas/knowledge";
+import {
+  EpisodeSchema,
+  EpisodeStartRequestSchema,
+  EpisodeEndRequestSchema,
+  EpisodeListRequestSchema,
+  EpisodeGetRequestSchema,
+  EpisodeDetailSchema,
+  EpisodeTimelineRequestSchema,
+  EpisodeTimelineSchema,
+} from "../schemas/episode";
+import {
+  SessionSchema,
+  SessionListRequestSchema,
+  SessionGetRequestSchema,
+  SessionDetailSchema,
+  SessionCloseRequestSchema,
+} from "../schemas/session";
+import {
+  TrashItemSchema,
+  TrashListRequestSchema,
+  TrashPurgeReportSchema,
+  TrashPurgeRequestSchema,
+  TrashRestoreRequestSchema,
+} from "../schemas/trash";
+import {
+  NamespaceListRequestSchema,
+  NamespaceStatsRequestSchema,
+  NamespaceStatsSchema,
+  NamespaceSummarySchema,
+} from "../schemas/namespace";
+import { SearchAllHitSchema, SearchAllRequestSchema } from "../schemas/search";
 import type { ServiceRegistry } from "../services/types";
 
 export interface McpServerHandle {
@@ -147,10 +199,10 @@ function registerMultiTools(
     {
       title: "Add a memory entry",
       description:
-        "Stores a memory within the requested layer, computes embeddings, and returns the stored record.",
+        "Stores a memory within the requested layer, computes embeddings, and returns the stored record. With `dedupe`, near-duplicates are merged into the existing memory and returned with `deduplicated: true`. `expiresAt` (epoch ms) hides the memory from search once passed until the retention job purges it. `pinned` memories never expire and are skipped by decay, consolidation, dedupe and retention.",
       inputSchema: MemoryAddInputSchema.shape,
       outputSchema: {
-        memory: MemoryRecordSchema,
+        memory: MemoryAddResultSchema,
       },
     },
     async (args) => {
@@ -163,20 +215,43 @@ function registerMultiTools(
     },
   );
 
+  server.registerTool(
+    "memory.add_batch",
+    {
+      title: "Add memories in bulk",
+      description:
+        "Imports many memories at once. Texts are embedded `batchSize` at a time (default 64), all rows are written in one transaction and vectors in one index update. Returns per-item results in input order, each with the new `id` or an `error`; failed items do not abort the batch. Deduplication is not applied.",
+      inputSchema: MemoryAddBatchRequestSchema.shape,
+      outputSchema: {
+        result: MemoryAddBatchResultSchema,
+      },
+    },
+    async (args) => {
+      const result = await services.memory.addMemories(args);
+      const structured = { result };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
   server.registerTool(
     "memory.search",
     {
       title: "Search memories",
       description:
-        "Performs hybrid search (vector + FTS) across the memory index and returns ranked matches.",
+        "Hybrid search over memories: vector, full-text and knowledge-graph hits fused into one ranked list. Filters apply to every retriever; see the parameters for ranking, diversity and explain options.",
       inputSchema: MemorySearchRequestSchema.shape,
       outputSchema: {
         results: z.array(MemorySearchResultSchema),
+        explanation: MemorySearchExplanationSchema.optional(),
       },
     },
     async (args) => {
-      const results = await services.memory.searchMemories(args);
-      const structured = { results };
+      const structured = args.explain
+        ? await services.memory.explainSearch(args)
+        : { results: await services.memory.searchMemories(args) };
       return {
         content: [{ type: "text", text: formatStructured(structured) }],
         structuredContent: structured,
@@ -244,6 +319,386 @@ function registerMultiTools(
     },
   );
 
+  server.registerTool(
+    "memory.update",
+    {
+      title: "Update a memory",
+      description:
+        "Updates content, layer, metadata, importance, pinned state, or session/episode assignment of a memory. Content changes are re-embedded; the previous state is kept as a revision. Pinned memories (including unpinning them) require `force: true`.",
+      inputSchema: MemoryUpdateRequestSchema.shape,
+      outputSchema: {
+        memory: MemoryRecordSchema,
+      },
+    },
+    async ({ id, force, namespace, ...patch }) => {
+      const memory = await services.memory.updateMemory(id, patch, { force, namespace });
+      const structured = { memory };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.delete",
+    {
+      title: "Delete a memory",
+      description:
+        "Moves a memory to the trash. It disappears from search and lists but can be brought back with `trash.restore` until the trash purge job removes it with its vector. Pinned memories require `force: true`.",
+      inputSchema: MemoryDeleteRequestSchema.shape,
+      outputSchema: {
+        id: z.string(),
+        deleted: z.boolean(),
+      },
+    },
+    async ({ id, force, namespace }) => {
+      await services.memory.deleteMemory(id, { force, namespace });
+      const structured = { id, deleted: true };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.link_document",
+    {
+      title: "Link a memory to a document",
+      description:
+        "Adds a reference from a memory to a stored document, optionally to one of its chunks. Relinking the same document/chunk replaces the reference.",
+      inputSchema: MemoryLinkDocumentRequestSchema.shape,
+      outputSchema: {
+        memory: MemoryRecordSchema,
+      },
+    },
+    async (args) => {
+      const memory = await services.memory.linkDocument(args);
+      const structured = { memory };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.unlink_document",
+    {
+      title: "Unlink a memory from a document",
+      description:
+        "Removes the reference from a memory to a document (or to one chunk when `chunkId` is given).",
+      inputSchema: MemoryUnlinkDocumentRequestSchema.shape,
+      outputSchema: {
+        memory: MemoryRecordSchema,
+      },
+    },
+    async (args) => {
+      const memory = await services.memory.unlinkDocument(args);
+      const structured = { memory };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.relate",
+    {
+      title: "Relate two memories",
+      description:
+        "Records a typed link read as `srcId <relation> dstId` (supersedes, contradicts, elaborates, follows). Use `supersedes` for corrections so the old memory stays in history; search can collapse it with `collapseSuperseded`.",
+      inputSchema: MemoryRelateRequestSchema.shape,
+      outputSchema: {
+        relation: MemoryRelationSchema,
+      },
+    },
+    async (args) => {
+      const relation = await services.memory.relateMemories(args);
+      const structured = { relation };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.get_related",
+    {
+      title: "Get related memories",
+      description:
+        "Walks memory relations from a memory up to `depth` hops, optionally filtered by relation type and direction.",
+      inputSchema: MemoryGetRelatedRequestSchema.shape,
+      outputSchema: {
+        related: MemoryRelatedSchema,
+      },
+    },
+    async (args) => {
+      const related = await services.memory.getRelated(args);
+      const structured = { related };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.find_duplicates",
+    {
+      title: "Find duplicate memories",
+      description:
+        "Groups near-duplicate memories (vector + FTS similarity) under the oldest copy. Set `merge` to fold duplicates into it and delete them.",
+      inputSchema: MemoryFindDuplicatesRequestSchema.shape,
+      outputSchema: {
+        report: MemoryFindDuplicatesResultSchema,
+      },
+    },
+    async (args) => {
+      const report = await services.memory.findDuplicates(args);
+      const structured = { report };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.history",
+    {
+      title: "List memory revisions",
+      description:
+        "Returns the current memory (if it still exists) and its prior revisions, newest first. Revisions are recorded on every update and delete.",
+      inputSchema: MemoryHistoryRequestSchema.shape,
+      outputSchema: {
+        history: MemoryHistorySchema,
+      },
+    },
+    async (args) => {
+      const history = await services.memory.getHistory(args);
+      const structured = { history };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.diff",
+    {
+      title: "Diff memory revisions",
+      description:
+        "Compares two revisions of a memory, or a revision against the current state when `to` is omitted.",
+      inputSchema: MemoryDiffRequestSchema.shape,
+      outputSchema: {
+        diff: MemoryDiffSchema,
+      },
+    },
+    async (args) => {
+      const diff = await services.memory.diffRevisions(args);
+      const structured = { diff };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "memory.revert",
+    {
+      title: "Revert memory to a revision",
+      description:
+        "Restores a memory (including a deleted one) to the state captured in a revision and re-embeds it when content changes. Reverting a pinned memory requires `force: true`.",
+      inputSchema: MemoryRevertRequestSchema.shape,
+      outputSchema: {
+        memory: MemoryRecordSchema,
+      },
+    },
+    async (args) => {
+      const memory = await services.memory.revertMemory(args);
+      const structured = { memory };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "episode.start",
+    {
+      title: "Start an episode",
+      description:
+        "Opens a new episode (a task or unit of work). Pass the returned id as `episodeId` to memory.add to group memories under it.",
+      inputSchema: EpisodeStartRequestSchema.shape,
+      outputSchema: {
+        episode: EpisodeSchema,
+      },
+    },
+    async (args) => {
+      const episode = await services.episode.startEpisode(args);
+      const structured = { episode };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "episode.end",
+    {
+      title: "End an episode",
+      description:
+        "Closes an episode. With `summarize` (or an explicit `summary`), stores a summary memory in the `episodic` layer.",
+      inputSchema: EpisodeEndRequestSchema.shape,
+      outputSchema: {
+        episode: EpisodeSchema,
+        summary: MemoryRecordSchema.optional(),
+      },
+    },
+    async (args) => {
+      const { episode, summary } = await services.episode.endEpisode(args);
+      const structured = { episode, summary };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "episode.list",
+    {
+      title: "List episodes",
+      description: "Lists episodes newest first, optionally filtered by session or status.",
+      inputSchema: EpisodeListRequestSchema.shape,
+      outputSchema: {
+        episodes: z.array(EpisodeSchema),
+      },
+    },
+    async (args) => {
+      const episodes = await services.episode.listEpisodes(args);
+      const structured = { episodes };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "episode.get",
+    {
+      title: "Get episode",
+      description:
+        "Returns an episode with its memories in chronological order and its summary memory, if any.",
+      inputSchema: EpisodeGetRequestSchema.shape,
+      outputSchema: {
+        episode: EpisodeDetailSchema.optional(),
+      },
+    },
+    async (args) => {
+      const episode = await services.episode.getEpisode(args);
+      const structured = { episode };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "episode.timeline",
+    {
+      title: "Episode timeline",
+      description:
+        "Lists episodes oldest first with durations and summaries, optionally limited to a session or time range.",
+      inputSchema: EpisodeTimelineRequestSchema.shape,
+      outputSchema: {
+        timeline: EpisodeTimelineSchema,
+      },
+    },
+    async (args) => {
+      const timeline = await services.episode.getTimeline(args);
+      const structured = { timeline };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "session.list",
+    {
+      title: "List sessions",
+      description:
+        "Lists sessions (distinct memory `sessionId`s) by most recent activity with their time span and counts. `from`/`to` (epoch ms) select sessions active in that range.",
+      inputSchema: SessionListRequestSchema.shape,
+      outputSchema: {
+        sessions: z.array(SessionSchema),
+      },
+    },
+    async (args) => {
+      const sessions = await services.session.listSessions(args);
+      const structured = { sessions };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "session.get",
+    {
+      title: "Get session transcript",
+      description:
+        "Returns a session with its memories in chronological order, memory counts per layer, and its summary memory, if any.",
+      inputSchema: SessionGetRequestSchema.shape,
+      outputSchema: {
+        session: SessionDetailSchema.optional(),
+      },
+    },
+    async (args) => {
+      const session = await services.session.getSession(args);
+      const structured = { session };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "session.close",
+    {
+      title: "Close a session",
+      description:
+        "Marks a session closed. With `summarize` (or an explicit `summary`), rolls it up into a summary memory in the `episodic` layer.",
+      inputSchema: SessionCloseRequestSchema.shape,
+      outputSchema: {
+        session: SessionSchema,
+        summary: MemoryRecordSchema.optional(),
+      },
+    },
+    async (args) => {
+      const { session, summary } = await services.session.closeSession(args);
+      const structured = { session, summary };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
   server.registerTool(
     "document.store",
     {
@@ -280,8 +735,8 @@ function registerMultiTools(
         document: DocumentRecordSchema,
       },
     },
-    async ({ id }) => {
-      const document = await services.document.getDocument(id);
+    async ({ id, namespace }) => {
+      const document = await services.document.getDocument(id, namespace);
       if (!document) {
         throw new Error(`Document ${id} not found`);
       }
@@ -303,8 +758,8 @@ function registerMultiTools(
       },
     },
     async (args) => {
-      const { limit, offset } = args;
-      const docs = await services.document.listDocuments(limit, offset);
+      const { limit, offset, namespace } = args;
+      const docs = await services.document.listDocuments(limit, offset, namespace);
       const structured = { documents: docs };
       return {
         content: [{ type: "text", text: formatStructured(structured) }],
@@ -337,7 +792,8 @@ function registerMultiTools(
     "document.delete",
     {
       title: "Delete document",
-      description: "Delete a document and its chunks",
+      description:
+        "Moves a document to the trash. Its chunks stay until the trash is purged; restore it with `trash.restore`.",
       inputSchema: DocumentDeleteRequestSchema.shape,
       outputSchema: {
         success: z.boolean(),
@@ -373,6 +829,27 @@ function registerMultiTools(
     },
   );
 
+  server.registerTool(
+    "document.search_chunks",
+    {
+      title: "Search document chunks",
+      description:
+        "Rank individual document chunks by fused vector and full-text scores. Hits carry a highlighted snippet and `context` neighbouring chunks on either side; `docId` limits the search to one document; `queryMode` (`simple`, `phrase` or `fts`) works as in `memory.search`, with `content` the only column; `diversity` (0-1) reranks hits by Maximal Marginal Relevance so overlapping chunks do not crowd out the rest.",
+      inputSchema: DocumentSearchChunksRequestSchema.shape,
+      outputSchema: {
+        hits: z.array(DocumentChunkHitSchema),
+      },
+    },
+    async (args) => {
+      const hits = await services.document.searchChunks(args);
+      const structured = { hits };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
   server.registerTool(
     "document.get_references",
     {
@@ -423,8 +900,8 @@ function registerMultiTools(
       },
     },
     async (args) => {
-      const { limit, offset } = args;
-      const entities = await services.knowledge.listEntities(limit, offset);
+      const { limit, offset, namespace } = args;
+      const entities = await services.knowledge.listEntities(limit, offset, namespace);
       const structured = { entities };
       return {
         content: [{ type: "text", text: formatStructured(structured) }],
@@ -497,7 +974,8 @@ function registerMultiTools(
     "knowledge.delete_entity",
     {
       title: "Delete an entity",
-      description: "Delete an entity and cascade delete its relationships",
+      description:
+        "Moves an entity to the trash. Its relationships are hidden, not deleted, and come back with `trash.restore`; they are only removed when the trash is purged.",
       inputSchema: KnowledgeDeleteEntityRequestSchema.shape,
       outputSchema: {
         success: z.boolean(),
@@ -833,6 +1311,132 @@ function registerMultiTools(
     },
   );
 
+  server.registerTool(
+    "trash.list",
+    {
+      title: "List trashed items",
+      description:
+        "Lists soft-deleted memories, documents and entities, most recently deleted first. `purgeAfter` is when the purge job removes each item for good.",
+      inputSchema: TrashListRequestSchema.shape,
+      outputSchema: {
+        items: z.array(TrashItemSchema),
+      },
+    },
+    async (args) => {
+      const items = await services.trash.list(args);
+      const structured = { items };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "trash.restore",
+    {
+      title: "Restore a trashed item",
+      description:
+        "Takes a memory, document or entity out of the trash. A restored entity gets its relationships back.",
+      inputSchema: TrashRestoreRequestSchema.shape,
+      outputSchema: {
+        item: TrashItemSchema,
+      },
+    },
+    async (args) => {
+      const item = await services.trash.restore(args);
+      const structured = { item };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "trash.purge",
+    {
+      title: "Purge the trash",
+      description:
+        "Permanently deletes trashed items and their vectors. Pass `items` to purge specific entries now; otherwise everything trashed longer than the grace period (or `olderThanMs`) is purged. Use `dryRun` to count first.",
+      inputSchema: TrashPurgeRequestSchema.shape,
+      outputSchema: {
+        report: TrashPurgeReportSchema,
+      },
+    },
+    async (args) => {
+      const report = await services.trash.purge(args);
+      const structured = { report };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "namespace.list",
+    {
+      title: "List namespaces",
+      description:
+        "Lists every namespace that holds memories, documents, entities or relations, with live counts and the time of its latest memory or document.",
+      inputSchema: NamespaceListRequestSchema.shape,
+      outputSchema: {
+        namespaces: z.array(NamespaceSummarySchema),
+      },
+    },
+    async (args) => {
+      const namespaces = await services.namespace.list(args);
+      const structured = { namespaces };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "namespace.stats",
+    {
+      title: "Namespace statistics",
+      description:
+        "Reports counts for one namespace (the default one when omitted): memories per layer, pinned memories, documents and chunks, entities, relations and trashed items.",
+      inputSchema: NamespaceStatsRequestSchema.shape,
+      outputSchema: {
+        stats: NamespaceStatsSchema,
+      },
+    },
+    async (args) => {
+      const stats = await services.namespace.stats(args);
+      const structured = { stats };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
+  server.registerTool(
+    "search.all",
+    {
+      title: "Search everything",
+      description:
+        "Searches memories, document chunks (vector + FTS) and entities (FTS on name, type and tags) in one call and returns a single list ranked by fused score. Each hit has a `type` (`memory`, `chunk` or `entity`) and the matching record. `types` limits the searched types and `quotas` caps the hits per type within `topK`. `queryMode` works as in `memory.search` for every type. Namespaces are scoped like `memory.search`.",
+      inputSchema: SearchAllRequestSchema.shape,
+      outputSchema: {
+        hits: z.array(SearchAllHitSchema),
+      },
+    },
+    async (args) => {
+      const hits = await services.unifiedSearch.searchAll(args);
+      const structured = { hits };
+      return {
+        content: [{ type: "text", text: formatStructured(structured) }],
+        structuredContent: structured,
+      };
+    },
+  );
+
   server.registerTool(
     "system.status",
     {
@@ -866,11 +1470,22 @@ function buildInstructions(multiTool: boolean): string {
     "MemorizedMCP-TS exposes hybrid memory, document, and knowledge graph operations.",
     "Single-tool mode: call `run_code` with a TypeScript snippet.",
     "Available bindings in the sandbox:",
-    "  - services.memory.addMemory / searchMemories / updateMemory / deleteMemory / getMemory / getMemoriesByEntity / getMemoriesByDocument",
-    "  - services.document.ingest / getDocument / listDocuments / updateDocument / deleteDocument / searchDocuments / getDocumentReferences / analyzeDocument",
+    "  - services.memory.addMemory / addMemories / searchMemories / explainSearch / updateMemory / deleteMemory / linkDocument / unlinkDocument / relateMemories / getRelated / getMemory / getMemoriesByEntity / getMemoriesByDocument / findDuplicates / getHistory / diffRevisions / revertMemory",
+    "  - services.consolidation.consolidate",
+    "  - services.decay.applyDecay",
+    "  - services.retention.purge",
+    "  - services.trash.list / restore / purge",
+    "  - services.namespace.list / stats",
+    "  - services.episode.startEpisode / endEpisode / listEpisodes / getEpisode / getTimeline",
+    "  - services.session.listSessions / getSession / closeSession",
+    "  - services.document.ingest / getDocument / listDocuments / updateDocument / deleteDocument / searchDocuments / searchChunks / getDocumentReferences / analyzeDocument",
     "  - services.knowledge.ensureEntities / listEntities / getEntity / createEntity / updateEntity / deleteEntity / createRelation / getEntityRelations / deleteRelation / searchRelations / searchEntities / getEntitiesByType / getEntitiesByTag / tagEntity / removeTag / getTags / readGraph / getRelatedEntities / findPath / getEntityContext / getEntitiesInDocument / getEntitiesInMemory",
-    "  - services.search.searchMemories",
+    "  - services.search.searchMemories / explainSearch",
+    "  - services.unifiedSearch.searchAll",
     "  - services.system.status",
+    "Pinned memories refuse updateMemory/deleteMemory/revertMemory unless `{ force: true }` is passed.",
+    "Deleting a memory, document or entity moves it to the trash; use services.trash.restore to undo it before it is purged.",
+    "Memories, documents and entities live in namespaces; calls without `namespace` use the configured default, and searches stay inside one namespace unless `namespaces` or `allNamespaces` is given.",
     "Console output is captured and returned alongside structured results.",
     "Beware of long-running loops; snippets are terminated after the configured timeout.",
   ];
@@ -878,7 +1493,7 @@ function buildInstructions(multiTool: boolean): string {
   if (multiTool) {
     base.push(
       "",
-      "Multi-tool mode is enabled; direct tool calls are available (memory.add, memory.search, memory.get, memory.get_by_entity, memory.get_by_document, document.store, document.retrieve, document.list, document.update, document.delete, document.search, document.get_references, document.analyze, knowledge.list_entities, knowledge.get_entity, knowledge.create_entity, knowledge.update_entity, knowledge.delete_entity, knowledge.create_relation, knowledge.get_relations, knowledge.delete_relation, knowledge.search_relations, knowledge.search_entities, knowledge.get_entities_by_type, knowledge.get_entities_by_tag, knowledge.tag_entity, knowledge.remove_tag, knowledge.get_tags, knowledge.read_graph, knowledge.get_related_entities, knowledge.find_path, knowledge.get_entity_context, knowledge.get_entities_in_document, knowledge.get_entities_in_memory, system.status).",
+      "Multi-tool mode is enabled; direct tool calls are available (memory.add, memory.add_batch, memory.search, memory.get, memory.get_by_entity, memory.get_by_document, memory.update, memory.delete, memory.link_document, memory.unlink_document, memory.relate, memory.get_related, memory.find_duplicates, memory.history, memory.diff, memory.revert, episode.start, episode.end, episode.list, episode.get, episode.timeline, session.list, session.get, session.close, document.store, document.retrieve, document.list, document.update, document.delete, document.search, document.search_chunks, document.get_references, document.analyze, knowledge.list_entities, knowledge.get_entity, knowledge.create_entity, knowledge.update_entity, knowledge.delete_entity, knowledge.create_relation, knowledge.get_relations, knowledge.delete_relation, knowledge.search_relations, knowledge.search_entities, knowledge.get_entities_by_type, knowledge.get_entities_by_tag, knowledge.tag_entity, knowledge.remove_tag, knowledge.get_tags, knowledge.read_graph, knowledge.get_related_entities, knowledge.find_path, knowledge.get_entity_context, knowledge.get_entities_in_document, knowledge.get_entities_in_memory, trash.list, trash.restore, trash.purge, namespace.list, namespace.stats, search.all, system.status).",
     );
   }
 
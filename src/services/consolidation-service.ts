@@ -0,0 +1,269 @@
+import type { Config } from "../config";
+import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import { MemoryRepository } from "../repositories/memory-repository";
+import type { MemoryRecord } from "../repositories/types";
+import {
+  MemoryConsolidateRequestSchema,
+  MemoryConsolidationReportSchema,
+  type MemoryConsolidateRequest,
+  type MemoryConsolidationReport,
+  type MemoryConsolidationScore,
+} from "../schemas/memory";
+import type { VectraAdapter } from "../vector/vectra";
+import type {
+  ConsolidationService,
+  EmbeddingProvider,
+  EntityExtractor,
+} from "./types";
+
+/**
+ * Relative weight of each signal in the consolidation score. Weights sum to 1 so the
+ * resulting score stays within [0, 1] and can be compared against `promoteThreshold`.
+ */
+const SCORE_WEIGHTS = {
+  importance: 0.4,
+  access: 0.2,
+  age: 0.15,
+  entityOverlap: 0.25,
+} as const;
+
+/** Age at which the age signal saturates (7 days). */
+const AGE_SATURATION_MS = 7 * 24 * 60 * 60 * 1000;
+/** Access count at which the access signal saturates. */
+const ACCESS_SATURATION = 5;
+/** Number of known entities at which the entity overlap signal saturates. */
+const ENTITY_SATURATION = 3;
+/** Entity overlap above which a promoted memory is treated as semantic knowledge. */
+const SEMANTIC_ENTITY_OVERLAP = 0.5;
+/** Number of nearest neighbours inspected when looking for near-duplicates. */
+const DUPLICATE_CANDIDATES = 5;
+
+export interface ConsolidationServiceDependencies {
+  memoryRepository: MemoryRepository;
+  vectra: VectraAdapter;
+  embeddings: EmbeddingProvider;
+  settings: Config["consolidation"];
+  knowledgeRepository?: KnowledgeGraphRepository;
+  entityExtractor?: EntityExtractor;
+}
+
+export class DefaultConsolidationService implements ConsolidationService {
+  #memoryRepository: MemoryRepository;
+  #vectra: VectraAdapter;
+  #embeddings: EmbeddingProvider;
+  #settings: Config["consolidation"];
+  #knowledgeRepository?: KnowledgeGraphRepository;
+  #entityExtractor?: EntityExtractor;
+
+  constructor(deps: ConsolidationServiceDependencies) {
+    this.#memoryRepository = deps.memoryRepository;
+    this.#vectra = deps.vectra;
+    this.#embeddings = deps.embeddings;
+    this.#settings = deps.settings;
+    this.#knowledgeRepository = deps.knowledgeRepository;
+    this.#entityExtractor = deps.entityExtractor;
+  }
+
+  async consolidate(
+    request: MemoryConsolidateRequest = {},
+  ): Promise<MemoryConsolidationReport> {
+    const parsed = MemoryConsolidateRequestSchema.parse(request);
+    const dryRun = parsed.dryRun ?? false;
+    const startedAt = Date.now();
+    const minAgeMs = parsed.minAgeMs ?? this.#settings.minAgeMs;
+
+    const candidates = this.#memoryRepository.listByLayerCreatedBefore(
+      "stm",
+      startedAt - minAgeMs,
+      parsed.limit ?? this.#settings.batchSize,
+    );
+
+    const report: MemoryConsolidationReport = {
+      startedAt,
+      completedAt: startedAt,
+      dryRun,
+      scanned: candidates.length,
+      retained: 0,
+      promoted: { ltm: 0, semantic: 0 },
+      merged: 0,
+      promotions: [],
+      merges: [],
+    };
+
+    // Memories merged away during this run must not be used as merge targets later on.
+    const absorbed = new Set<string>();
+
+    for (const candidate of candidates) {
+      // Re-read the row: earlier merges in this run may have updated or removed it.
+      const memory = this.#memoryRepository.findById(candidate.id);
+      if (!memory || memory.layer !== "stm") {
+        continue;
+      }
+      // Pinned memories stay where they were put.
+      if (memory.pinned) {
+        report.retained += 1;
+        continue;
+      }
+      // Expired memories are left for the retention job rather than merged or promoted.
+      if (isExpired(memory, startedAt)) {
+        continue;
+      }
+
+      const vector = await this.#resolveVector(memory);
+
+      const duplicate = await this.#findDuplicate(memory, vector, absorbed, startedAt);
+      if (duplicate) {
+        if (!dryRun) {
+          await this.#merge(memory, duplicate.target);
+        }
+        absorbed.add(memory.id);
+        report.merged += 1;
+        report.merges.push({
+          memoryId: memory.id,
+          mergedInto: duplicate.target.id,
+          similarity: duplicate.similarity,
+        });
+        continue;
+      }
+
+      const score = await this.#score(memory, startedAt);
+      if (score.score < this.#settings.promoteThreshold) {
+        report.retained += 1;
+        continue;
+      }
+
+      const layer =
+        score.entityOverlap >= SEMANTIC_ENTITY_OVERLAP && !memory.episodeId
+          ? "semantic"
+          : "ltm";
+
+      if (!dryRun) {
+        await this.#memoryRepository.update(memory.id, { layer });
+        await this.#vectra.upsertMemoryVector({
+          memoryId: memory.id,
+          namespace: memory.namespace,
+          vector,
+          layer,
+          importance: memory.importance,
+          sessionId: memory.sessionId,
+          episodeId: memory.episodeId,
+        });
+      }
+
+      report.promoted[layer] += 1;
+      report.promotions.push({ ...score, layer });
+    }
+
+    report.completedAt = Date.now();
+    return MemoryConsolidationReportSchema.parse(report);
+  }
+
+  async #resolveVector(memory: MemoryRecord): Promise<number[]> {
+    const stored = await this.#vectra.getMemoryVector(memory.id);
+    if (stored) {
+      return stored.vector;
+    }
+    const [vector] = await this.#embeddings.embed([memory.content]);
+    return vector!;
+  }
+
+  async #findDuplicate(
+    memory: MemoryRecord,
+    vector: number[],
+    absorbed: Set<string>,
+    now: number,
+  ): Promise<{ target: MemoryRecord; similarity: number } | undefined> {
+    // Memories only merge within their own namespace.
+    const matches = await this.#vectra.queryMemories(vector, {
+      topK: DUPLICATE_CANDIDATES,
+      namespaces: [memory.namespace],
+    });
+
+    for (const match of matches) {
+      if (match.id === memory.id || absorbed.has(match.id)) {
+        continue;
+      }
+      if (match.score < this.#settings.duplicateThreshold) {
+        break;
+      }
+      const target = this.#memoryRepository.findById(match.id);
+      if (target && !target.pinned && !isExpired(target, now)) {
+        return { target, similarity: match.score };
+      }
+    }
+
+    return undefined;
+  }
+
+  async #merge(source: MemoryRecord, target: MemoryRecord): Promise<void> {
+    const consolidatedFrom = Array.isArray(target.metadata.consolidatedFrom)
+      ? (target.metadata.consolidatedFrom as unknown[])
+      : [];
+
+    const merged = await this.#memoryRepository.update(target.id, {
+      importance: Math.max(source.importance, target.importance),
+      metadata: {
+        ...source.metadata,
+        ...target.metadata,
+        consolidatedFrom: [...consolidatedFrom, source.id],
+      },
+    });
+    // Vector search filters on importance, so the target's vector must carry the raised value.
+    await this.#vectra.updateMemoryMetadata([
+      { memoryId: merged.id, metadata: { importance: merged.importance } },
+    ]);
+
+    const references = [
+      ...this.#memoryRepository.listReferences(target.id),
+      ...this.#memoryRepository.listReferences(source.id),
+    ];
+    const uniqueReferences = new Map(
+      references.map((ref) => [`${ref.docId}:${ref.chunkId ?? ""}`, ref]),
+    );
+    await this.#memoryRepository.replaceReferences(
+      target.id,
+      Array.from(uniqueReferences.values()),
+    );
+
+    this.#memoryRepository.delete(source.id);
+    await this.#vectra.deleteMemoryVector(source.id);
+  }
+
+  async #score(memory: MemoryRecord, now: number): Promise<MemoryConsolidationScore> {
+    const age = Math.min(1, Math.max(0, now - memory.createdAt) / AGE_SATURATION_MS);
+    const access = Math.min(1, (memory.accessCount ?? 0) / ACCESS_SATURATION);
+    const entityOverlap = await this.#entityOverlap(memory);
+
+    const score =
+      memory.importance * SCORE_WEIGHTS.importance +
+      access * SCORE_WEIGHTS.access +
+      age * SCORE_WEIGHTS.age +
+      entityOverlap * SCORE_WEIGHTS.entityOverlap;
+
+    return {
+      memoryId: memory.id,
+      score,
+      importance: memory.importance,
+      age,
+      access,
+      entityOverlap,
+    };
+  }
+
+  async #entityOverlap(memory: MemoryRecord): Promise<number> {
+    if (!this.#entityExtractor || !this.#knowledgeRepository) {
+      return 0;
+    }
+
+    const extracted = await this.#entityExtractor.extract(memory.content);
+    const known = extracted.filter((entity) =>
+      this.#knowledgeRepository!.findByName(entity.name, memory.namespace),
+    );
+    return Math.min(1, known.length / ENTITY_SATURATION);
+  }
+}
+
+/** Pinned memories never expire. */
+function isExpired(memory: MemoryRecord, now: number): boolean {
+  return !memory.pinned && memory.expiresAt != null && memory.expiresAt <= now;
+}
@@ -0,0 +1,114 @@
+import type { Config } from "../config";
+import { MemoryRepository } from "../repositories/memory-repository";
+import type { MemoryImportanceUpdate, MemoryRecord } from "../repositories/types";
+import {
+  MemoryDecayReportSchema,
+  MemoryDecayRequestSchema,
+  type MemoryDecayReport,
+  type MemoryDecayRequest,
+} from "../schemas/memory";
+import type { VectraAdapter } from "../vector/vectra";
+import type { DecayService } from "./types";
+
+/** Importance changes smaller than this are not persisted. */
+const MIN_IMPORTANCE_DELTA = 1e-4;
+
+export interface DecayServiceDependencies {
+  memoryRepository: MemoryRepository;
+  vectra: VectraAdapter;
+  settings: Config["decay"];
+}
+
+export class DefaultDecayService implements DecayService {
+  #memoryRepository: MemoryRepository;
+  #vectra: VectraAdapter;
+  #settings: Config["decay"];
+
+  constructor(deps: DecayServiceDependencies) {
+    this.#memoryRepository = deps.memoryRepository;
+    this.#vectra = deps.vectra;
+    this.#settings = deps.settings;
+  }
+
+  async applyDecay(request: MemoryDecayRequest = {}): Promise<MemoryDecayReport> {
+    const parsed = MemoryDecayRequestSchema.parse(request);
+    const dryRun = parsed.dryRun ?? false;
+    const startedAt = Date.now();
+    const now = parsed.now ?? startedAt;
+    const batchSize = this.#settings.batchSize;
+
+    const report: MemoryDecayReport = {
+      startedAt,
+      completedAt: startedAt,
+      dryRun,
+      curve: this.#settings.curve,
+      scanned: 0,
+      decayed: 0,
+      vectorsUpdated: 0,
+    };
+
+    // Decay does not change ordering (created_at), so offset paging stays stable.
+    for (let offset = 0; ; offset += batchSize) {
+      const batch = this.#memoryRepository.listAll(batchSize, offset);
+      report.scanned += batch.length;
+
+      const updates: MemoryImportanceUpdate[] = [];
+      for (const memory of batch) {
+        if (memory.pinned) {
+          continue;
+        }
+        const importance = this.#decayedImportance(memory, now);
+        if (memory.importance - importance >= MIN_IMPORTANCE_DELTA) {
+          updates.push({ id: memory.id, importance });
+        }
+      }
+
+      if (updates.length && !dryRun) {
+        await this.#memoryRepository.applyDecay(updates, now);
+        report.vectorsUpdated += await this.#vectra.updateMemoryMetadata(
+          updates.map((update) => ({
+            memoryId: update.id,
+            metadata: { importance: update.importance },
+          })),
+        );
+      }
+      report.decayed += updates.length;
+
+      if (batch.length < batchSize) {
+        break;
+      }
+    }
+
+    report.completedAt = Date.now();
+    return MemoryDecayReportSchema.parse(report);
+  }
+
+  /**
+   * Computes the importance after decaying from the most recent of the last decay run
+   * or the last access; an access therefore restarts the decay clock. Importance never
+   * drops below the configured floor, and memories already at or below it are left alone.
+   */
+  #decayedImportance(memory: MemoryRecord, now: number): number {
+    const { curve, halfLifeMs, floor } = this.#settings;
+    if (memory.importance <= floor) {
+      return memory.importance;
+    }
+
+    const since = Math.max(
+      memory.decayedAt ?? memory.createdAt,
+      memory.lastAccessedAt ?? 0,
+    );
+    const elapsed = Math.max(0, now - since);
+    if (elapsed === 0) {
+      return memory.importance;
+    }
+
+    const halfLives = elapsed / halfLifeMs;
+    const decayed =
+      curve === "linear"
+        ? memory.importance - 0.5 * halfLives
+        : floor + (memory.importance - floor) * Math.pow(0.5, halfLives);
+
+    return Math.max(floor, decayed);
+  }
+}
@@ -2,9 +2,12 @@ import { createHash, randomUUID } from "node:crypto";
 import { stat } from "node:fs/promises";
 import path from "node:path";
 import { BunFile } from "bun";
+import { DEFAULT_NAMESPACE } from "../repositories/base";
 import { DocumentChunkRepository } from "../repositories/document-chunk-repository";
 import { DocumentRepository } from "../repositories/document-repository";
+import { FTS_COLUMNS, toFtsQuery } from "../repositories/fts";
 import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import { MentionRepository } from "../repositories/mention-repository";
 import type { VectraAdapter } from "../vector/vectra";
 import {
   DocumentIngestionRequestSchema,
@@ -13,6 +16,8 @@ import {
   DocumentUpdateRequestSchema,
   DocumentDeleteRequestSchema,
   DocumentSearchRequestSchema,
+  DocumentSearchChunksRequestSchema,
+  DocumentChunkHitSchema,
   DocumentGetReferencesRequestSchema,
   DocumentAnalyzeRequestSchema,
   DocumentAnalysisSchema,
@@ -23,11 +28,15 @@ import {
   type DocumentUpdateRequest,
   type DocumentDeleteRequest,
   type DocumentSearchRequest,
+  type DocumentSearchChunksRequest,
+  type DocumentChunkHitDTO,
   type DocumentGetReferencesRequest,
   type DocumentAnalyzeRequest,
   type DocumentAnalysisDTO,
 } from "../schemas/document";
-import { ExtractedEntitySchema } from "../schemas/knowledge";
+import { findMentions, resolveEntities } from "./entity-linking";
+import { DEFAULT_FUSION, fuseScores, type FusionOptions } from "./fusion";
+import { RERANK_CANDIDATE_FACTOR, rerankByDiversity } from "./mmr";
 import type {
   EmbeddingProvider,
   EntityExtractor,
@@ -47,6 +56,12 @@ export interface DocumentServiceDependencies {
   summaryGenerator?: SummaryGenerator;
   entityExtractor?: EntityExtractor;
   memoryRepository?: any; // MemoryRepository - avoid circular dependency
+  /** Receives chunk-level entity mentions when entities are detected on ingest. */
+  mentionRepository?: MentionRepository;
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
+  /** Merges vector and full-text scores in `searchChunks`. */
+  fusion?: FusionOptions;
 }
 
 export class DefaultDocumentService implements DocumentService {
@@ -59,6 +74,9 @@ export class DefaultDocumentService implements DocumentService {
   #summaryGenerator?: SummaryGenerator;
   #entityExtractor?: EntityExtractor;
   #memoryRepository?: any;
+  #mentionRepository?: MentionRepository;
+  #defaultNamespace: string;
+  #fusion: FusionOptions;
 
   constructor(deps: DocumentServiceDependencies) {
     this.#documentRepository = deps.documentRepository;
@@ -70,17 +88,23 @@ export class DefaultDocumentService implements DocumentService {
     this.#summaryGenerator = deps.summaryGenerator;
     this.#entityExtractor = deps.entityExtractor;
     this.#memoryRepository = deps.memoryRepository;
+    this.#mentionRepository = deps.mentionRepository;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+    this.#fusion = deps.fusion ?? DEFAULT_FUSION;
   }
 
   async ingest(request: DocumentIngestionRequest): Promise<DocumentIngestionResult> {
     const parsed = DocumentIngestionRequestSchema.parse(request);
     const { options } = parsed;
+    const namespace = parsed.namespace ?? this.#defaultNamespace;
 
     const { text, sizeBytes, sourcePath } = await this.#loadContent(parsed);
     const hash = parsed.hashOverride ?? this.#hashContent(text);
 
-    const existing = this.#documentRepository.findByHash(hash);
+    // Re-ingesting a trashed document takes it back out of the trash.
+    const existing = this.#documentRepository.findByHash(hash, namespace, true);
     if (existing) {
+      this.#documentRepository.untrash(existing.id);
       return DocumentIngestionResultSchema.parse({
         document: DocumentRecordSchema.parse({
           ...existing,
@@ -92,6 +116,7 @@ export class DefaultDocumentService implements DocumentService {
 
     const now = Date.now();
     const document = this.#documentRepository.create({
+      namespace,
       hash,
       sourcePath,
       mime: parsed.mime,
@@ -135,6 +160,7 @@ export class DefaultDocumentService implements DocumentService {
       await this.#vectra.upsertDocumentVector({
         chunkId,
         docId: document.id,
+        namespace,
         vector: embeddingVector,
         positionStart: chunk.start,
         positionEnd: chunk.end,
@@ -146,17 +172,15 @@ export class DefaultDocumentService implements DocumentService {
     let recordedEntities: string[] | undefined;
     if (options.detectEntities && this.#entityExtractor) {
       const entities = await this.#entityExtractor.extract(text);
-      const parsedEntities = entities.map((entity) => ExtractedEntitySchema.parse(entity));
+      const linked = resolveEntities(this.#knowledgeRepository, entities, namespace, now);
 
-      for (const entity of parsedEntities) {
-        this.#knowledgeRepository.upsertEntity({
-          name: entity.name,
-          type: entity.type,
-          tags: [],
-        });
+      if (this.#mentionRepository) {
+        for (const chunk of chunkRecords) {
+          this.#mentionRepository.replaceForChunk(chunk.id, findMentions(chunk.content, linked), now);
+        }
       }
 
-      recordedEntities = parsedEntities.map((entity) => entity.name);
+      recordedEntities = linked.map((entity) => entity.name);
     }
 
     const documentResult: DocumentRecordDTO = DocumentRecordSchema.parse({
@@ -171,9 +195,9 @@ export class DefaultDocumentService implements DocumentService {
     });
   }
 
-  async getDocument(id: string): Promise<DocumentRecordDTO | undefined> {
+  async getDocument(id: string, namespace?: string): Promise<DocumentRecordDTO | undefined> {
     const record = this.#documentRepository.findById(id);
-    if (!record) {
+    if (!record || record.namespace !== (namespace ?? this.#defaultNamespace)) {
       return undefined;
     }
 
@@ -184,8 +208,12 @@ export class DefaultDocumentService implements DocumentService {
     });
   }
 
-  async listDocuments(limit = 50, offset = 0): Promise<DocumentRecordDTO[]> {
-    const records = this.#documentRepository.list(limit, offset);
+  async listDocuments(limit = 50, offset = 0, namespace?: string): Promise<DocumentRecordDTO[]> {
+    const records = this.#documentRepository.list(
+      limit,
+      offset,
+      namespace ?? this.#defaultNamespace,
+    );
     return records.map((record) =>
       DocumentRecordSchema.parse({
         ...record,
@@ -268,7 +296,7 @@ export class DefaultDocumentService implements DocumentService {
     const parsed = DocumentUpdateRequestSchema.parse(input);
     
     const existing = this.#documentRepository.findById(parsed.id);
-    if (!existing) {
+    if (!existing || existing.namespace !== (parsed.namespace ?? this.#defaultNamespace)) {
       throw new Error(`Document ${parsed.id} not found`);
     }
 
@@ -297,25 +325,25 @@ export class DefaultDocumentService implements DocumentService {
     const parsed = DocumentDeleteRequestSchema.parse(input);
     
     const existing = this.#documentRepository.findById(parsed.id);
-    if (!existing) {
+    if (!existing || existing.namespace !== (parsed.namespace ?? this.#defaultNamespace)) {
       throw new Error(`Document ${parsed.id} not found`);
     }
 
-    // Delete chunks first (cascade should handle this, but being explicit)
-    this.#chunkRepository.deleteByDocument(parsed.id);
-    
-    // Delete document
-    this.#documentRepository.delete(parsed.id);
-    
-    // Note: Vectra vectors are cleaned up separately if needed
+    // Soft delete: chunks and their vectors stay until the trash is purged
+    this.#documentRepository.trash(parsed.id);
   }
 
   async searchDocuments(input: DocumentSearchRequest): Promise<DocumentRecordDTO[]> {
     const parsed = DocumentSearchRequestSchema.parse(input);
+    const namespace = parsed.namespace ?? this.#defaultNamespace;
     
     // Use FTS5 to search document chunks by content (not just entity name)
     // Reuse searchByEntityName but it searches chunk content via FTS
-    const matchingChunks = this.#chunkRepository.searchByEntityName(parsed.query, (parsed.limit ?? 200) * 2);
+    const matchingChunks = this.#chunkRepository.searchByEntityName(
+      parsed.query,
+      (parsed.limit ?? 200) * 2,
+      namespace,
+    );
     
     // Get unique document IDs
     const docIds = new Set<string>();
@@ -326,7 +354,7 @@ export class DefaultDocumentService implements DocumentService {
     // Get documents
     const documents: DocumentRecordDTO[] = [];
     for (const docId of docIds) {
-      const doc = await this.getDocument(docId);
+      const doc = await this.getDocument(docId, namespace);
       if (doc) {
         documents.push(doc);
       }
@@ -338,6 +366,102 @@ export class DefaultDocumentService implements DocumentService {
     return documents.slice(offset, offset + limit);
   }
 
+  /**
+   * Ranks individual chunks by fused vector and full-text scores. Each hit carries its
+   * document, an FTS5 snippet when the text matched, and up to `context` neighbouring chunks
+   * on either side.
+   */
+  async searchChunks(input: DocumentSearchChunksRequest): Promise<DocumentChunkHitDTO[]> {
+    const parsed = DocumentSearchChunksRequestSchema.parse(input);
+    const namespaces = parsed.allNamespaces
+      ? undefined
+      : (parsed.namespaces ?? [parsed.namespace ?? this.#defaultNamespace]);
+    const queryVector = parsed.queryVector ?? (await this.#embeddings.embed([parsed.query]))[0]!;
+    // Diversity reranking picks from a wider pool than it returns.
+    const candidateLimit = parsed.diversity
+      ? parsed.topK * RERANK_CANDIDATE_FACTOR
+      : parsed.topK;
+
+    const ftsQuery = toFtsQuery(parsed.query, parsed.queryMode, FTS_COLUMNS.docChunks);
+
+    const [vectorResults, textResults] = await Promise.all([
+      this.#vectra.queryDocumentChunks(queryVector, {
+        topK: candidateLimit,
+        namespaces,
+        docId: parsed.docId,
+      }),
+      Promise.resolve(
+        ftsQuery
+          ? this.#chunkRepository.searchContent(ftsQuery, {
+              limit: candidateLimit,
+              namespaces,
+              docId: parsed.docId,
+            })
+          : [],
+      ),
+    ]);
+
+    // Vectors of trashed documents stay in the index until purged, so hits are re-checked.
+    const chunks = new Map(textResults.map(({ chunk }) => [chunk.id, chunk]));
+    const unseen = vectorResults.map((match) => match.id).filter((id) => !chunks.has(id));
+    for (const chunk of this.#chunkRepository.listLiveByIds(unseen, namespaces)) {
+      chunks.set(chunk.id, chunk);
+    }
+
+    const candidates = new Map<string, { id: string; vectorScore?: number; textScore?: number }>();
+    for (const match of vectorResults) {
+      if (chunks.has(match.id)) {
+        candidates.set(match.id, { id: match.id, vectorScore: match.score });
+      }
+    }
+    for (const { chunk, score } of textResults) {
+      const existing = candidates.get(chunk.id);
+      if (existing) {
+        existing.textScore = score;
+      } else {
+        candidates.set(chunk.id, { id: chunk.id, textScore: score });
+      }
+    }
+    const snippets = new Map(textResults.map(({ chunk, snippet }) => [chunk.id, snippet]));
+
+    let ranked = fuseScores(Array.from(candidates.values()), this.#fusion);
+    if (parsed.diversity) {
+      const vectors = await this.#vectra.getDocumentVectors(ranked.map((candidate) => candidate.id));
+      ranked = rerankByDiversity(ranked, vectors, parsed.diversity);
+    }
+
+    const hits: DocumentChunkHitDTO[] = [];
+    for (const candidate of ranked) {
+      if (hits.length >= parsed.topK) {
+        break;
+      }
+      const chunk = chunks.get(candidate.id)!;
+      const document = this.#documentRepository.findById(chunk.docId);
+      if (!document) {
+        continue;
+      }
+      const { before, after } = this.#chunkRepository.listNeighbours(chunk, parsed.context);
+      hits.push(
+        DocumentChunkHitSchema.parse({
+          chunk,
+          document: {
+            id: document.id,
+            namespace: document.namespace,
+            title: document.title ?? undefined,
+            sourcePath: document.sourcePath ?? undefined,
+          },
+          score: candidate.score,
+          vectorScore: candidate.vectorScore,
+          textScore: candidate.textScore,
+          snippet: snippets.get(chunk.id),
+          before,
+          after,
+        }),
+      );
+    }
+    return hits;
+  }
+
   async getDocumentReferences(input: DocumentGetReferencesRequest): Promise<any[]> {
     const parsed = DocumentGetReferencesRequestSchema.parse(input);
     
@@ -346,7 +470,11 @@ export class DefaultDocumentService implements DocumentService {
     }
 
     // Get all memories and filter by document reference
-    const allMemories = this.#memoryRepository.listAll(1000, 0);
+    const allMemories = this.#memoryRepository.listAll(
+      1000,
+      0,
+      parsed.namespace ?? this.#defaultNamespace,
+    );
     const matchingMemories: any[] = [];
 
     for (const memory of allMemories) {
@@ -365,7 +493,7 @@ export class DefaultDocumentService implements DocumentService {
   async analyzeDocument(input: DocumentAnalyzeRequest): Promise<DocumentAnalysisDTO> {
     const parsed = DocumentAnalyzeRequestSchema.parse(input);
     
-    const document = await this.getDocument(parsed.docId);
+    const document = await this.getDocument(parsed.docId, parsed.namespace);
     if (!document) {
       throw new Error(`Document ${parsed.docId} not found`);
     }
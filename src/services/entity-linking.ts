@@ -0,0 +1,90 @@
+import type { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import type { EntityMentionInput } from "../repositories/types";
+import { ExtractedEntitySchema, type ExtractedEntity } from "../schemas/knowledge";
+
+export interface LinkedEntity {
+  id: string;
+  name: string;
+  confidence: number;
+}
+
+/**
+ * Maps extracted entities onto stored ones, creating missing entities and bumping their
+ * activity. Names are matched case-insensitively so "berlin" and "Berlin" share an entity.
+ * Names held by a trashed entity are skipped. Entities are looked up and created in
+ * `namespace` only.
+ */
+export function resolveEntities(
+  repository: KnowledgeGraphRepository,
+  extracted: ExtractedEntity[],
+  namespace: string,
+  seenAt = Date.now(),
+): LinkedEntity[] {
+  const linked = new Map<string, LinkedEntity>();
+
+  for (const candidate of extracted) {
+    const entity = ExtractedEntitySchema.parse(candidate);
+    const name = entity.name.trim();
+    if (!name) {
+      continue;
+    }
+
+    const live = repository.findByNameIgnoreCase(name, namespace);
+    if (!live && repository.isTrashedName(name, namespace)) {
+      // Trashed entities are not relinked or recreated until they are restored.
+      continue;
+    }
+    const stored =
+      live ??
+      repository.upsertEntity({
+        name,
+        namespace,
+        type: entity.type,
+        tags: [],
+        firstSeen: seenAt,
+      });
+    if (linked.has(stored.id)) {
+      continue;
+    }
+
+    repository.updateEntityActivity(stored.id, seenAt, 1);
+    linked.set(stored.id, { id: stored.id, name, confidence: entity.confidence });
+  }
+
+  return Array.from(linked.values());
+}
+
+/**
+ * Locates every case-insensitive occurrence of each entity in `text`. Entities without a
+ * verbatim occurrence are kept with null offsets when `keepUnlocated` is set.
+ */
+export function findMentions(
+  text: string,
+  entities: LinkedEntity[],
+  keepUnlocated = false,
+): EntityMentionInput[] {
+  const haystack = text.toLowerCase();
+  const mentions: EntityMentionInput[] = [];
+
+  for (const entity of entities) {
+    const needle = entity.name.toLowerCase();
+    let found = false;
+
+    for (let start = haystack.indexOf(needle); start >= 0; start = haystack.indexOf(needle, start + needle.length)) {
+      found = true;
+      mentions.push({
+        entityId: entity.id,
+        surface: text.slice(start, start + needle.length),
+        startOffset: start,
+        endOffset: start + needle.length,
+        confidence: entity.confidence,
+      });
+    }
+
+    if (!found && keepUnlocated) {
+      mentions.push({ entityId: entity.id, surface: entity.name, confidence: entity.confidence });
+    }
+  }
+
+  return mentions;
+}
@@ -0,0 +1,195 @@
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { EpisodeRepository } from "../repositories/episode-repository";
+import { MemoryRepository } from "../repositories/memory-repository";
+import type { EpisodeRecord } from "../repositories/types";
+import {
+  EpisodeDetailSchema,
+  EpisodeEndRequestSchema,
+  EpisodeEndResultSchema,
+  EpisodeGetRequestSchema,
+  EpisodeListRequestSchema,
+  EpisodeSchema,
+  EpisodeStartRequestSchema,
+  EpisodeTimelineRequestSchema,
+  EpisodeTimelineSchema,
+  type EpisodeDTO,
+  type EpisodeDetailDTO,
+  type EpisodeEndRequest,
+  type EpisodeEndResult,
+  type EpisodeGetRequest,
+  type EpisodeListRequest,
+  type EpisodeStartRequest,
+  type EpisodeTimelineDTO,
+  type EpisodeTimelineRequest,
+} from "../schemas/episode";
+import { MemoryRecordSchema, type MemoryRecordDTO } from "../schemas/memory";
+import { buildRollupSummary } from "./rollup";
+import type { EpisodeService, MemoryService, SummaryGenerator } from "./types";
+
+export interface EpisodeServiceDependencies {
+  episodeRepository: EpisodeRepository;
+  memoryRepository: MemoryRepository;
+  memoryService: MemoryService;
+  summaryGenerator?: SummaryGenerator;
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
+}
+
+export class DefaultEpisodeService implements EpisodeService {
+  #episodeRepository: EpisodeRepository;
+  #memoryRepository: MemoryRepository;
+  #memoryService: MemoryService;
+  #summaryGenerator?: SummaryGenerator;
+  #defaultNamespace: string;
+
+  constructor(deps: EpisodeServiceDependencies) {
+    this.#episodeRepository = deps.episodeRepository;
+    this.#memoryRepository = deps.memoryRepository;
+    this.#memoryService = deps.memoryService;
+    this.#summaryGenerator = deps.summaryGenerator;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+  }
+
+  async startEpisode(input: EpisodeStartRequest): Promise<EpisodeDTO> {
+    const parsed = EpisodeStartRequestSchema.parse(input);
+    const episode = this.#episodeRepository.create({
+      namespace: parsed.namespace ?? this.#defaultNamespace,
+      name: parsed.name,
+      sessionId: parsed.sessionId ?? null,
+      metadata: parsed.metadata ?? {},
+    });
+    return this.#toDto(episode);
+  }
+
+  async endEpisode(input: EpisodeEndRequest): Promise<EpisodeEndResult> {
+    const parsed = EpisodeEndRequestSchema.parse(input);
+    const episode = this.#findEpisode(parsed.id, parsed.namespace);
+    if (!episode) {
+      throw new Error(`Episode ${parsed.id} not found`);
+    }
+    if (episode.endedAt) {
+      throw new Error(`Episode ${parsed.id} already ended`);
+    }
+
+    let summary: MemoryRecordDTO | undefined;
+    if (parsed.summarize ?? Boolean(parsed.summary)) {
+      summary = await this.#createSummary(episode, parsed);
+    }
+
+    const ended = this.#episodeRepository.end(episode.id, Date.now(), summary?.id ?? null);
+    return EpisodeEndResultSchema.parse({
+      episode: this.#toDto(ended),
+      summary,
+    });
+  }
+
+  async listEpisodes(input: EpisodeListRequest = {}): Promise<EpisodeDTO[]> {
+    const parsed = EpisodeListRequestSchema.parse(input);
+    const episodes = this.#episodeRepository.list(
+      {
+        namespace: parsed.namespace ?? this.#defaultNamespace,
+        sessionId: parsed.sessionId,
+        status: parsed.status,
+      },
+      parsed.limit ?? 50,
+      parsed.offset ?? 0,
+    );
+    return episodes.map((episode) => this.#toDto(episode));
+  }
+
+  async getEpisode(input: EpisodeGetRequest): Promise<EpisodeDetailDTO | undefined> {
+    const parsed = EpisodeGetRequestSchema.parse(input);
+    const episode = this.#findEpisode(parsed.id, parsed.namespace);
+    if (!episode) {
+      return undefined;
+    }
+
+    const memories = this.#memoryRepository
+      .listByEpisode(episode.id, parsed.limit ?? 500, episode.namespace)
+      .filter((memory) => memory.id !== episode.summaryMemoryId);
+    const summary = episode.summaryMemoryId
+      ? this.#memoryRepository.findById(episode.summaryMemoryId)
+      : undefined;
+
+    return EpisodeDetailSchema.parse({
+      episode: this.#toDto(episode),
+      memories: memories.map((memory) =>
+        MemoryRecordSchema.parse({
+          ...memory,
+          references: this.#memoryRepository.listReferences(memory.id),
+        }),
+      ),
+      summary,
+    });
+  }
+
+  async getTimeline(input: EpisodeTimelineRequest = {}): Promise<EpisodeTimelineDTO> {
+    const parsed = EpisodeTimelineRequestSchema.parse(input);
+    const episodes = this.#episodeRepository.list(
+      {
+        namespace: parsed.namespace ?? this.#defaultNamespace,
+        sessionId: parsed.sessionId,
+        from: parsed.from,
+        to: parsed.to,
+      },
+      parsed.limit ?? 100,
+      0,
+      true,
+    );
+
+    return EpisodeTimelineSchema.parse({
+      entries: episodes.map((episode) => ({
+        episode: this.#toDto(episode),
+        durationMs: episode.endedAt ? episode.endedAt - episode.createdAt : null,
+        summary: episode.summaryMemoryId
+          ? this.#memoryRepository.findById(episode.summaryMemoryId)?.content
+          : undefined,
+      })),
+    });
+  }
+
+  async #createSummary(
+    episode: EpisodeRecord,
+    request: EpisodeEndRequest,
+  ): Promise<MemoryRecordDTO | undefined> {
+    const memories = this.#memoryRepository.listByEpisode(episode.id, 500, episode.namespace);
+    const content =
+      request.summary ??
+      (await buildRollupSummary(
+        `Episode "${episode.name}"`,
+        memories,
+        this.#summaryGenerator,
+      ));
+    if (!content) {
+      return undefined;
+    }
+
+    return this.#memoryService.addMemory({
+      namespace: episode.namespace,
+      content,
+      layer: "episodic",
+      importance:
+        request.importance ??
+        Math.max(0.5, ...memories.map((memory) => memory.importance)),
+      sessionId: episode.sessionId ?? undefined,
+      episodeId: episode.id,
+      metadata: {
+        kind: "episode_summary",
+        memoryIds: memories.map((memory) => memory.id),
+      },
+    });
+  }
+
+  /** Episodes of another namespace are reported as not found. */
+  #findEpisode(id: string, namespace?: string): EpisodeRecord | undefined {
+    const episode = this.#episodeRepository.findById(id);
+    return episode?.namespace === (namespace ?? this.#defaultNamespace) ? episode : undefined;
+  }
+
+  #toDto(episode: EpisodeRecord): EpisodeDTO {
+    return EpisodeSchema.parse({
+      ...episode,
+      status: episode.endedAt ? "closed" : "open",
+    });
+  }
+}
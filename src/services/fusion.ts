@@ -0,0 +1,196 @@
+import type { FusionStrategy, MemorySearchFusion } from "../schemas/memory";
+
+export type FusionRetriever = "vector" | "text" | "graph";
+
+/** A search hit carrying the raw score of every retriever that returned it. */
+export interface FusionCandidate {
+  id: string;
+  vectorScore?: number;
+  textScore?: number;
+  graphScore?: number;
+}
+
+export interface FusionOptions {
+  strategy: FusionStrategy;
+  /** Used by `weighted`; `linear` weighs every retriever equally. */
+  weights: Record<FusionRetriever, number>;
+  /** RRF rank constant. */
+  rrfK: number;
+}
+
+export const DEFAULT_FUSION: FusionOptions = {
+  strategy: "rrf",
+  weights: { vector: 0.7, text: 0.3, graph: 0.2 },
+  rrfK: 60,
+};
+
+const SCORE_KEYS: Record<FusionRetriever, `${FusionRetriever}Score`> = {
+  vector: "vectorScore",
+  text: "textScore",
+  graph: "graphScore",
+};
+
+const RETRIEVERS = Object.keys(SCORE_KEYS) as FusionRetriever[];
+
+/** Applies the per-request overrides of `memory.search` on top of the configured fusion. */
+export function resolveFusion(
+  defaults: FusionOptions,
+  requested?: MemorySearchFusion,
+): FusionOptions {
+  if (!requested) {
+    return defaults;
+  }
+  return {
+    strategy: requested.strategy ?? (requested.weights ? "weighted" : defaults.strategy),
+    weights: {
+      vector: requested.weights?.vector ?? defaults.weights.vector,
+      text: requested.weights?.text ?? defaults.weights.text,
+      graph: requested.weights?.graph ?? defaults.weights.graph,
+    },
+    rrfK: requested.rrfK ?? defaults.rrfK,
+  };
+}
+
+/** How one candidate's fused score came about, per retriever that returned it. */
+export interface FusionExplanation {
+  /** 1-based position in each retriever's ranking. */
+  ranks: Partial<Record<FusionRetriever, number>>;
+  /** Min-max scaled score in [0, 1]; `linear` and `weighted` fuse these. */
+  normalized: Partial<Record<FusionRetriever, number>>;
+  /** Share of the fused score; the shares add up to `score`. */
+  contributions: Partial<Record<FusionRetriever, number>>;
+  /** The fused score written out with this candidate's numbers. */
+  formula: string;
+}
+
+interface RetrieverScale {
+  retriever: FusionRetriever;
+  key: `${FusionRetriever}Score`;
+  ranks: Map<string, number>;
+  min: number;
+  max: number;
+  weight: number;
+}
+
+/**
+ * Merges the retrievers' scores into one `score` and returns the candidates best first.
+ * Cosine similarity, bm25 and graph path weights live on unrelated scales, so they are never
+ * added as is: `rrf` only looks at each retriever's ranking, while `linear` and `weighted`
+ * min-max scale every retriever to [0, 1] over the candidate set before averaging.
+ * Retrievers that returned nothing are left out of the average.
+ */
+export function fuseScores<T extends FusionCandidate>(
+  candidates: T[],
+  options: FusionOptions,
+): Array<T & { score: number }> {
+  const scales = scaleRetrievers(candidates, options);
+  return candidates
+    .map((candidate) => ({
+      ...candidate,
+      score: sum(Object.values(contributionsOf(candidate, scales, options))),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
+
+/** Breaks down `fuseScores` for every candidate, keyed by id. */
+export function explainFusion(
+  candidates: FusionCandidate[],
+  options: FusionOptions,
+): Map<string, FusionExplanation> {
+  const scales = scaleRetrievers(candidates, options);
+  const totalWeight = sum(scales.map((scale) => scale.weight));
+
+  return new Map(
+    candidates.map((candidate) => {
+      const ranks: FusionExplanation["ranks"] = {};
+      const normalized: FusionExplanation["normalized"] = {};
+      const terms: string[] = [];
+      for (const scale of scales) {
+        const value = candidate[scale.key];
+        if (value === undefined) {
+          continue;
+        }
+        ranks[scale.retriever] = scale.ranks.get(candidate.id);
+        normalized[scale.retriever] = normalize(value, scale);
+        terms.push(
+          options.strategy === "rrf"
+            ? `1/(${options.rrfK}+${ranks[scale.retriever]}) ${scale.retriever}`
+            : `${scale.weight}*${normalized[scale.retriever]!.toFixed(3)} ${scale.retriever}`,
+        );
+      }
+      const contributions = contributionsOf(candidate, scales, options);
+      const score = sum(Object.values(contributions)).toFixed(4);
+      const formula =
+        options.strategy === "rrf"
+          ? `${terms.join(" + ") || "0"} = ${score}`
+          : `(${terms.join(" + ") || "0"}) / ${totalWeight} = ${score}`;
+      return [candidate.id, { ranks, normalized, contributions, formula }];
+    }),
+  );
+}
+
+/** The fusion applied by `fuseScores`, written out for the retrievers that returned hits. */
+export function describeFusion(options: FusionOptions, retrievers: FusionRetriever[]): string {
+  if (options.strategy === "rrf") {
+    return `score = sum over ${retrievers.join(", ") || "no retrievers"} of 1/(${options.rrfK} + rank)`;
+  }
+  const weights = retrievers.map((retriever) =>
+    options.strategy === "weighted" ? options.weights[retriever] : 1,
+  );
+  const terms = retrievers.map((retriever, index) => `${weights[index]}*${retriever}`);
+  return `score = (${terms.join(" + ") || "0"}) / ${sum(weights)}, each retriever min-max scaled to [0, 1]`;
+}
+
+/** Retrievers that scored at least one candidate, with their rankings and score ranges. */
+function scaleRetrievers(candidates: FusionCandidate[], options: FusionOptions): RetrieverScale[] {
+  const scales: RetrieverScale[] = [];
+  for (const retriever of RETRIEVERS) {
+    const key = SCORE_KEYS[retriever];
+    const ranked = candidates
+      .filter((candidate) => candidate[key] !== undefined)
+      .sort((a, b) => b[key]! - a[key]!);
+    if (ranked.length === 0) {
+      continue;
+    }
+    scales.push({
+      retriever,
+      key,
+      ranks: new Map(ranked.map((candidate, index) => [candidate.id, index + 1])),
+      min: ranked[ranked.length - 1]![key]!,
+      max: ranked[0]![key]!,
+      weight: options.strategy === "weighted" ? options.weights[retriever] : 1,
+    });
+  }
+  return scales;
+}
+
+function contributionsOf(
+  candidate: FusionCandidate,
+  scales: RetrieverScale[],
+  options: FusionOptions,
+): Partial<Record<FusionRetriever, number>> {
+  const totalWeight = sum(scales.map((scale) => scale.weight));
+  const contributions: Partial<Record<FusionRetriever, number>> = {};
+  for (const scale of scales) {
+    const value = candidate[scale.key];
+    if (value === undefined) {
+      continue;
+    }
+    if (options.strategy === "rrf") {
+      contributions[scale.retriever] = 1 / (options.rrfK + scale.ranks.get(candidate.id)!);
+    } else {
+      contributions[scale.retriever] =
+        totalWeight > 0 ? (scale.weight * normalize(value, scale)) / totalWeight : 0;
+    }
+  }
+  return contributions;
+}
+
+/** A retriever whose hits all tie counts them as full matches. */
+function normalize(value: number, scale: RetrieverScale): number {
+  return scale.max > scale.min ? (value - scale.min) / (scale.max - scale.min) : 1;
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
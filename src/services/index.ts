@@ -1,7 +1,15 @@
 export { DefaultDocumentService, SlidingWindowTextSplitter } from "./document-service";
 export { DefaultMemoryService } from "./memory-service";
+export { DefaultConsolidationService } from "./consolidation-service";
+export { DefaultDecayService } from "./decay-service";
+export { DefaultRetentionService } from "./retention-service";
+export { DefaultTrashService } from "./trash-service";
+export { DefaultNamespaceService } from "./namespace-service";
+export { DefaultEpisodeService } from "./episode-service";
+export { DefaultSessionService } from "./session-service";
 export { DefaultKnowledgeGraphService, CompromiseEntityExtractor } from "./knowledge-graph-service";
 export { DefaultSearchService } from "./search-service";
+export { DefaultUnifiedSearchService } from "./unified-search-service";
 export { DefaultAnalyticsService } from "./analytics-service";
 export { DefaultSystemService } from "./system-service";
 
@@ -1,7 +1,8 @@
 import { randomUUID } from "node:crypto";
 import type nlp from "compromise";
+import { DEFAULT_NAMESPACE } from "../repositories/base";
 import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
-import type { KnowledgeEdgeRecord } from "../repositories/types";
+import type { KnowledgeEdgeRecord, KnowledgeEntityRecord } from "../repositories/types";
 import {
   KnowledgeEntitySchema,
   KnowledgeEntityDetailSchema,
@@ -63,6 +64,8 @@ export interface KnowledgeGraphServiceDependencies {
   memoryRepository?: any; // MemoryRepository - avoid circular dependency
   documentChunkRepository?: any; // DocumentChunkRepository - avoid circular dependency
   entityExtractor?: EntityExtractor;
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
 }
 
 export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
@@ -71,6 +74,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   #memoryRepository?: any;
   #documentChunkRepository?: any;
   #entityExtractor?: EntityExtractor;
+  #defaultNamespace: string;
 
   constructor(deps: KnowledgeGraphServiceDependencies) {
     this.#repository = deps.repository;
@@ -78,15 +82,18 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     this.#memoryRepository = deps.memoryRepository;
     this.#documentChunkRepository = deps.documentChunkRepository;
     this.#entityExtractor = deps.entityExtractor;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
   }
 
   async ensureEntities(
     entities: ExtractedEntity[],
-    context: { docId?: string },
+    context: { docId?: string; namespace?: string },
   ): Promise<KnowledgeEntityDTO[]> {
+    const namespace = context.namespace ?? this.#defaultNamespace;
     const ensured: KnowledgeEntityDTO[] = [];
     for (const entity of entities) {
       const stored = this.#repository.upsertEntity({
+        namespace,
         name: entity.name,
         type: entity.type,
         tags: [],
@@ -101,19 +108,24 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     return ensured;
   }
 
-  async listEntities(limit = 50, offset = 0): Promise<KnowledgeEntityDTO[]> {
-    const entities = this.#repository.listEntities(limit, offset);
+  async listEntities(limit = 50, offset = 0, namespace?: string): Promise<KnowledgeEntityDTO[]> {
+    const entities = this.#repository.listEntities(
+      limit,
+      offset,
+      namespace ?? this.#defaultNamespace,
+    );
     return entities.map((entity) => KnowledgeEntitySchema.parse(entity));
   }
 
   async getEntity(request: KnowledgeGetEntityRequest): Promise<KnowledgeEntityDetailDTO | undefined> {
     const parsed = KnowledgeGetEntityRequestSchema.parse(request);
+    const namespace = this.#namespace(parsed.namespace);
     
     let entity;
     if (parsed.id) {
-      entity = this.#repository.findById(parsed.id);
+      entity = this.#findEntity(parsed.id, namespace);
     } else if (parsed.name) {
-      entity = this.#repository.findByName(parsed.name);
+      entity = this.#repository.findByName(parsed.name, namespace);
     } else {
       return undefined;
     }
@@ -136,6 +148,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     const parsed = KnowledgeCreateEntityRequestSchema.parse(input);
     
     const entity = this.#repository.upsertEntity({
+      namespace: this.#namespace(parsed.namespace),
       name: parsed.name,
       type: parsed.type,
       tags: parsed.tags ?? [],
@@ -147,7 +160,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async updateEntity(input: KnowledgeUpdateEntityRequest): Promise<KnowledgeEntityDTO> {
     const parsed = KnowledgeUpdateEntityRequestSchema.parse(input);
     
-    const existing = this.#repository.findById(parsed.id);
+    const existing = this.#findEntity(parsed.id, this.#namespace(parsed.namespace));
     if (!existing) {
       throw new Error(`Entity ${parsed.id} not found`);
     }
@@ -178,30 +191,32 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async deleteEntity(input: KnowledgeDeleteEntityRequest): Promise<void> {
     const parsed = KnowledgeDeleteEntityRequestSchema.parse(input);
     
-    const existing = this.#repository.findById(parsed.id);
+    const existing = this.#findEntity(parsed.id, this.#namespace(parsed.namespace));
     if (!existing) {
       throw new Error(`Entity ${parsed.id} not found`);
     }
 
-    // Delete entity (cascade deletes edges via foreign key)
-    this.#repository.deleteEntity(parsed.id);
+    // Soft delete: edges are hidden, and only cascade once the trash is purged
+    this.#repository.trashEntity(parsed.id);
   }
 
   async createRelation(input: KnowledgeCreateRelationRequest): Promise<KnowledgeEdgeDTO> {
     const parsed = KnowledgeCreateRelationRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
     
     // Validate that both entities exist
-    const srcEntity = this.#repository.findById(parsed.src);
+    const srcEntity = this.#findEntity(parsed.src, namespace);
     if (!srcEntity) {
       throw new Error(`Source entity ${parsed.src} not found`);
     }
     
-    const dstEntity = this.#repository.findById(parsed.dst);
+    const dstEntity = this.#findEntity(parsed.dst, namespace);
     if (!dstEntity) {
       throw new Error(`Destination entity ${parsed.dst} not found`);
     }
 
     const edge = this.#repository.upsertEdge({
+      namespace: srcEntity.namespace,
       src: parsed.src,
       dst: parsed.dst,
       relation: parsed.relation,
@@ -216,7 +231,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     const parsed = KnowledgeGetRelationsRequestSchema.parse(input);
     
     // Validate entity exists
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -232,7 +247,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     const parsed = KnowledgeDeleteRelationRequestSchema.parse(input);
     
     const existing = this.#repository.findEdgeById(parsed.id);
-    if (!existing) {
+    if (!existing || existing.namespace !== this.#namespace(parsed.namespace)) {
       throw new Error(`Relation ${parsed.id} not found`);
     }
 
@@ -250,6 +265,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
         parsed.relationType,
         parsed.limit ?? 100,
         parsed.offset ?? 0,
+        this.#namespace(parsed.namespace),
       );
     } else {
       // If no specific search, return empty (or we could implement FTS search later)
@@ -263,15 +279,16 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     const parsed = KnowledgeSearchEntitiesRequestSchema.parse(input);
     const limit = parsed.limit ?? 100;
     const offset = parsed.offset ?? 0;
+    const namespace = this.#namespace(parsed.namespace);
 
     let entities: KnowledgeEntityRecord[];
 
     if (parsed.name) {
       // Search by name using FTS5
-      entities = this.#repository.searchEntitiesByName(parsed.name, limit, offset);
+      entities = this.#repository.searchEntitiesByName(parsed.name, limit, offset, namespace);
     } else {
       // Start with all entities
-      entities = this.#repository.listEntities(limit * 2, offset); // Get more to filter
+      entities = this.#repository.listEntities(limit * 2, offset, namespace); // Get more to filter
     }
 
     // Filter by type if specified
@@ -296,6 +313,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
       parsed.type,
       parsed.limit ?? 100,
       parsed.offset ?? 0,
+      this.#namespace(parsed.namespace),
     );
     return entities.map((entity) => KnowledgeEntitySchema.parse(entity));
   }
@@ -306,6 +324,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
       parsed.tag,
       parsed.limit ?? 100,
       parsed.offset ?? 0,
+      this.#namespace(parsed.namespace),
     );
     return entities.map((entity) => KnowledgeEntitySchema.parse(entity));
   }
@@ -313,7 +332,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async tagEntity(input: KnowledgeTagEntityRequest): Promise<KnowledgeEntityDTO> {
     const parsed = KnowledgeTagEntityRequestSchema.parse(input);
     
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -329,7 +348,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async removeTag(input: KnowledgeRemoveTagRequest): Promise<KnowledgeEntityDTO> {
     const parsed = KnowledgeRemoveTagRequestSchema.parse(input);
     
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -342,16 +361,16 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   }
 
   async getTags(input: KnowledgeGetTagsRequest): Promise<string[]> {
-    KnowledgeGetTagsRequestSchema.parse(input);
+    const parsed = KnowledgeGetTagsRequestSchema.parse(input);
     
     // Get all unique tags from entities
-    return this.#repository.getAllTags();
+    return this.#repository.getAllTags(this.#namespace(parsed.namespace));
   }
 
   async readGraph(input: KnowledgeReadGraphRequest): Promise<KnowledgeGraphSnapshotDTO> {
     const parsed = KnowledgeReadGraphRequestSchema.parse(input);
     
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -404,7 +423,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async getRelatedEntities(input: KnowledgeGetRelatedEntitiesRequest): Promise<KnowledgeEntityDTO[]> {
     const parsed = KnowledgeGetRelatedEntitiesRequestSchema.parse(input);
     
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -437,14 +456,15 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
 
   async findPath(input: KnowledgeFindPathRequest): Promise<KnowledgeEdgeDTO[]> {
     const parsed = KnowledgeFindPathRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
     
     // Validate both entities exist
-    const srcEntity = this.#repository.findById(parsed.src);
+    const srcEntity = this.#findEntity(parsed.src, namespace);
     if (!srcEntity) {
       throw new Error(`Source entity ${parsed.src} not found`);
     }
     
-    const dstEntity = this.#repository.findById(parsed.dst);
+    const dstEntity = this.#findEntity(parsed.dst, namespace);
     if (!dstEntity) {
       throw new Error(`Destination entity ${parsed.dst} not found`);
     }
@@ -490,7 +510,7 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
   async getEntityContext(input: KnowledgeGetEntityContextRequest): Promise<KnowledgeEntityContextDTO> {
     const parsed = KnowledgeGetEntityContextRequestSchema.parse(input);
     
-    const entity = this.#repository.findById(parsed.entityId);
+    const entity = this.#findEntity(parsed.entityId, this.#namespace(parsed.namespace));
     if (!entity) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
@@ -499,9 +519,9 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     const memories: any[] = [];
     const chunks: any[] = [];
 
-    // Search for entity mentions in document chunks using FTS
+    // Chunks and memories come from the mentions index written on ingest / memory.add
     if (this.#documentChunkRepository) {
-      const matchingChunks = this.#documentChunkRepository.searchByEntityName(entity.name, 100);
+      const matchingChunks = this.#documentChunkRepository.listByEntity(entity.id, 100);
       const docIds = new Set<string>();
       
       for (const chunk of matchingChunks) {
@@ -520,9 +540,8 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
       }
     }
 
-    // Search for entity mentions in memories using FTS
     if (this.#memoryRepository) {
-      const matchingMemories = this.#memoryRepository.searchByEntityName(entity.name, 100);
+      const matchingMemories = this.#memoryRepository.listByEntity(entity.id, 100);
       memories.push(...matchingMemories);
     }
 
@@ -541,39 +560,13 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     }
 
     const document = this.#documentRepository.findById(parsed.docId);
-    if (!document) {
+    if (!document || document.namespace !== this.#namespace(parsed.namespace)) {
       throw new Error(`Document ${parsed.docId} not found`);
     }
 
-    // Get chunks for the document
-    if (!this.#documentChunkRepository) {
-      throw new Error("Document chunk repository not available");
-    }
-
-    const chunks = this.#documentChunkRepository.listByDocument(parsed.docId);
-    
-    // Extract entities from all chunks
-    if (!this.#entityExtractor) {
-      throw new Error("Entity extractor not available");
-    }
-
-    const allEntities = new Map<string, ExtractedEntity>();
-    
-    for (const chunk of chunks) {
-      const extracted = await this.#entityExtractor.extract(chunk.content);
-      for (const entity of extracted) {
-        const key = entity.name.toLowerCase();
-        if (!allEntities.has(key)) {
-          allEntities.set(key, entity);
-        }
-      }
-    }
-
-    // Ensure entities exist and return them
-    const entities = Array.from(allEntities.values());
-    const ensured = await this.ensureEntities(entities, { docId: parsed.docId });
-    
-    return ensured;
+    return this.#repository
+      .listEntitiesForDocument(parsed.docId)
+      .map((entity) => KnowledgeEntitySchema.parse(entity));
   }
 
   async getEntitiesInMemory(input: KnowledgeGetEntitiesInMemoryRequest): Promise<KnowledgeEntityDTO[]> {
@@ -584,19 +577,23 @@ export class DefaultKnowledgeGraphService implements KnowledgeGraphService {
     }
 
     const memory = this.#memoryRepository.findById(parsed.memoryId);
-    if (!memory) {
+    if (!memory || memory.namespace !== this.#namespace(parsed.namespace)) {
       throw new Error(`Memory ${parsed.memoryId} not found`);
     }
 
-    // Extract entities from memory content
-    if (!this.#entityExtractor) {
-      throw new Error("Entity extractor not available");
-    }
+    return this.#repository
+      .listEntitiesForMemory(parsed.memoryId)
+      .map((entity) => KnowledgeEntitySchema.parse(entity));
+  }
 
-    const extracted = await this.#entityExtractor.extract(memory.content);
-    const ensured = await this.ensureEntities(extracted, {});
-    
-    return ensured;
+  #namespace(requested?: string): string {
+    return requested ?? this.#defaultNamespace;
+  }
+
+  /** Entities of other namespaces are reported as missing. */
+  #findEntity(id: string, namespace: string): KnowledgeEntityRecord | undefined {
+    const entity = this.#repository.findById(id);
+    return entity?.namespace === namespace ? entity : undefined;
   }
 }
 
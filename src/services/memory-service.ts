@@ -1,8 +1,54 @@
 import { randomUUID } from "node:crypto";
+import type { Config } from "../config";
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { DocumentChunkRepository } from "../repositories/document-chunk-repository";
+import { DocumentRepository } from "../repositories/document-repository";
+import { MentionRepository } from "../repositories/mention-repository";
+import { MemoryRelationRepository } from "../repositories/memory-relation-repository";
 import { MemoryRepository } from "../repositories/memory-repository";
-import { MemoryRecordSchema, MemorySearchRequestSchema, MemorySearchResultSchema, MemoryGetRequestSchema, MemoryGetByEntityRequestSchema, MemoryGetByDocumentRequestSchema, type MemoryRecordDTO, type MemorySearchRequest, type MemoryGetRequest, type MemoryGetByEntityRequest, type MemoryGetByDocumentRequest } from "../schemas/memory";
-import type { VectraAdapter } from "../vector/vectra";
-import type { EmbeddingProvider, MemoryService, SearchService } from "./types";
+import type { MemoryMutationOptions, MemoryRecord, MemoryRevisionRecord } from "../repositories/types";
+import type { ExtractedEntity } from "../schemas/knowledge";
+import { MemoryRecordSchema, MemoryAddResultSchema, MemoryAddBatchRequestSchema, MemoryAddBatchResultSchema, MemorySearchRequestSchema, MemorySearchResultSchema, MemorySearchExplainedSchema, MemoryGetRequestSchema, MemoryGetByEntityRequestSchema, MemoryGetByDocumentRequestSchema, MemoryFindDuplicatesRequestSchema, MemoryFindDuplicatesResultSchema, MemoryHistoryRequestSchema, MemoryHistorySchema, MemoryDiffRequestSchema, MemoryDiffSchema, MemoryRevertRequestSchema, MemoryLinkDocumentRequestSchema, MemoryUnlinkDocumentRequestSchema, MemoryRelateRequestSchema, MemoryRelationSchema, MemoryGetRelatedRequestSchema, MemoryRelatedSchema, type MemoryRecordDTO, type MemoryAddResult, type MemoryAddBatchItem, type MemoryAddBatchItemResult, type MemoryAddBatchRequest, type MemoryAddBatchResult, type MemorySearchRequest, type MemorySearchExplained, type MemoryGetRequest, type MemoryGetByEntityRequest, type MemoryGetByDocumentRequest, type MemoryFindDuplicatesRequest, type MemoryFindDuplicatesResult, type MemoryDuplicateGroup, type MemoryHistoryRequest, type MemoryHistory, type MemoryDiffRequest, type MemoryDiff, type MemoryRevertRequest, type MemoryLinkDocumentRequest, type MemoryUnlinkDocumentRequest, type MemoryRelateRequest, type MemoryRelationDTO, type MemoryGetRelatedRequest, type MemoryRelated, type MemoryRelatedEntry } from "../schemas/memory";
+import type { UpsertMemoryVectorInput, VectraAdapter } from "../vector/vectra";
+import { findMentions, resolveEntities } from "./entity-linking";
+import { cosineSimilarity } from "./similarity";
+import type { EmbeddingProvider, EntityExtractor, MemoryService, SearchService } from "./types";
+
+/** Memory fields compared by `diffRevisions`, in output order. */
+const DIFF_FIELDS = [
+  "layer",
+  "content",
+  "summary",
+  "importance",
+  "metadata",
+  "sessionId",
+  "episodeId",
+  "pinned",
+  "expiresAt",
+] as const;
+
+/** Memory fields mirrored into vector metadata so vector search filters like FTS. */
+const VECTOR_FIELDS = ["layer", "importance", "sessionId", "episodeId"] as const;
+
+/** Token count above which content diffs fall back to a whole-text replacement. */
+const MAX_DIFF_TOKENS = 2_000;
+
+/** Number of vector and full-text candidates inspected when looking for duplicates. */
+const DUPLICATE_CANDIDATES = 5;
+
+/** Texts per embedding call in `addMemories` when the request does not set `batchSize`. */
+const DEFAULT_EMBED_BATCH_SIZE = 64;
+
+const DEFAULT_DEDUPE_SETTINGS: Config["dedupe"] = {
+  enabled: false,
+  threshold: 0.92,
+  importanceBoost: 0.1,
+};
+
+interface DuplicateMatch {
+  memory: MemoryRecord;
+  similarity: number;
+}
 
 export interface MemoryServiceDependencies {
   memoryRepository: MemoryRepository;
@@ -10,6 +56,24 @@ export interface MemoryServiceDependencies {
   embeddings: EmbeddingProvider;
   searchService: SearchService;
   knowledgeRepository?: any; // KnowledgeGraphRepository - avoid circular dependency
+  /** Used to validate document references; linking is rejected without them. */
+  documentRepository?: DocumentRepository;
+  chunkRepository?: DocumentChunkRepository;
+  /** With `knowledgeRepository`, stored content is linked to entities in the mentions index. */
+  entityExtractor?: EntityExtractor;
+  mentionRepository?: MentionRepository;
+  /** Backs `relateMemories`/`getRelated`. */
+  relationRepository?: MemoryRelationRepository;
+  /** Fraction of the remaining headroom added to importance each time a memory is returned. */
+  reinforcement?: number;
+  dedupe?: Config["dedupe"];
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
+}
+
+/** `force` allows changing a pinned memory; `namespace` defaults to the configured one. */
+export interface MemoryServiceMutationOptions extends MemoryMutationOptions {
+  namespace?: string;
 }
 
 export class DefaultMemoryService implements MemoryService {
@@ -18,6 +82,14 @@ export class DefaultMemoryService implements MemoryService {
   #embeddings: EmbeddingProvider;
   #searchService: SearchService;
   #knowledgeRepository?: any;
+  #documentRepository?: DocumentRepository;
+  #chunkRepository?: DocumentChunkRepository;
+  #relationRepository?: MemoryRelationRepository;
+  #entityExtractor?: EntityExtractor;
+  #mentionRepository?: MentionRepository;
+  #reinforcement: number;
+  #dedupe: Config["dedupe"];
+  #defaultNamespace: string;
 
   constructor(deps: MemoryServiceDependencies) {
     this.#memoryRepository = deps.memoryRepository;
@@ -25,9 +97,18 @@ export class DefaultMemoryService implements MemoryService {
     this.#embeddings = deps.embeddings;
     this.#searchService = deps.searchService;
     this.#knowledgeRepository = deps.knowledgeRepository;
+    this.#documentRepository = deps.documentRepository;
+    this.#chunkRepository = deps.chunkRepository;
+    this.#relationRepository = deps.relationRepository;
+    this.#entityExtractor = deps.entityExtractor;
+    this.#mentionRepository = deps.mentionRepository;
+    this.#reinforcement = deps.reinforcement ?? 0;
+    this.#dedupe = deps.dedupe ?? DEFAULT_DEDUPE_SETTINGS;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
   }
 
   async addMemory(input: {
+    namespace?: string;
     content: string;
     layer: string;
     metadata?: Record<string, unknown>;
@@ -35,14 +116,45 @@ export class DefaultMemoryService implements MemoryService {
     sessionId?: string;
     episodeId?: string;
     summary?: string;
-  }) {
+    expiresAt?: number;
+    pinned?: boolean;
+    dedupe?: boolean;
+    dedupeThreshold?: number;
+  }): Promise<MemoryAddResult> {
+    const namespace = this.#namespace(input.namespace);
     const vector = await this.#embeddings.embed([input.content]);
     const importance = input.importance ?? 0.5;
     const now = Date.now();
 
+    if (input.dedupe ?? this.#dedupe.enabled) {
+      const [duplicate] = await this.#findDuplicateMatches(
+        input.content,
+        vector[0]!,
+        input.dedupeThreshold ?? this.#dedupe.threshold,
+        namespace,
+      );
+      if (duplicate) {
+        const merged = await this.#absorbInput(duplicate, {
+          content: input.content,
+          metadata: input.metadata ?? {},
+          importance,
+          sessionId: input.sessionId ?? null,
+          episodeId: input.episodeId ?? null,
+          addedAt: now,
+        });
+        return MemoryAddResultSchema.parse({
+          ...merged,
+          references: this.#memoryRepository.listReferences(merged.id),
+          deduplicated: true,
+          similarity: duplicate.similarity,
+        });
+      }
+    }
+
     const created = await this.#memoryRepository.create(
       {
         id: randomUUID(),
+        namespace,
         content: input.content,
         layer: input.layer as any,
         metadata: input.metadata ?? {},
@@ -50,38 +162,130 @@ export class DefaultMemoryService implements MemoryService {
         sessionId: input.sessionId ?? null,
         episodeId: input.episodeId ?? null,
         summary: input.summary ?? null,
+        expiresAt: input.expiresAt ?? null,
+        pinned: input.pinned ?? false,
         createdAt: now,
         updatedAt: now,
       },
       [],
     );
+    await this.#linkEntities(created);
 
     await this.#vectra.upsertMemoryVector({
       memoryId: created.id,
+      namespace,
       vector: vector[0]!,
-      layer: created.layer,
-      importance,
+      ...this.#vectorMetadata(created),
     });
 
-    const dto = MemoryRecordSchema.parse({
+    const dto = MemoryAddResultSchema.parse({
       ...created,
       references: this.#memoryRepository.listReferences(created.id),
+      deduplicated: false,
     });
 
     return dto;
   }
 
-  async updateMemory(id: string, patch: Partial<MemoryRecordDTO>) {
-    const updated = await this.#memoryRepository.update(id, patch as any);
+  /**
+   * Bulk variant of `addMemory` for imports: texts are embedded `batchSize` at a time,
+   * rows are inserted in one transaction and vectors are written in one index update.
+   * Items never fail the whole batch; each gets either an `id` or an `error`.
+   */
+  async addMemories(input: MemoryAddBatchRequest): Promise<MemoryAddBatchResult> {
+    const parsed = MemoryAddBatchRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
+    const batchSize = parsed.batchSize ?? DEFAULT_EMBED_BATCH_SIZE;
+    const results: MemoryAddBatchItemResult[] = parsed.items.map((_, index) => ({ index }));
+    const pending: Array<{ index: number; item: MemoryAddBatchItem; vector: number[] }> = [];
+
+    for (let start = 0; start < parsed.items.length; start += batchSize) {
+      const slice = parsed.items.slice(start, start + batchSize);
+      try {
+        const vectors = await this.#embeddings.embed(slice.map((item) => item.content));
+        slice.forEach((item, offset) => {
+          pending.push({ index: start + offset, item, vector: vectors[offset]! });
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        slice.forEach((_, offset) => {
+          results[start + offset]!.error = `Embedding failed: ${message}`;
+        });
+      }
+    }
 
-    if (patch.content) {
+    const now = Date.now();
+    const created = await this.#memoryRepository.createMany(
+      pending.map(({ item }) => ({
+        id: randomUUID(),
+        namespace,
+        content: item.content,
+        layer: item.layer,
+        metadata: item.metadata,
+        importance: item.importance ?? 0.5,
+        sessionId: item.sessionId ?? null,
+        episodeId: item.episodeId ?? null,
+        summary: item.summary ?? null,
+        expiresAt: item.expiresAt ?? null,
+        pinned: item.pinned ?? false,
+        createdAt: now,
+        updatedAt: now,
+      })),
+    );
+
+    const stored: MemoryRecord[] = [];
+    const vectors: UpsertMemoryVectorInput[] = [];
+    created.forEach((outcome, position) => {
+      const { index, vector } = pending[position]!;
+      if (outcome instanceof Error) {
+        results[index]!.error = outcome.message;
+        return;
+      }
+      results[index]!.id = outcome.id;
+      stored.push(outcome);
+      vectors.push({
+        memoryId: outcome.id,
+        namespace,
+        vector,
+        ...this.#vectorMetadata(outcome),
+      });
+    });
+
+    await this.#vectra.upsertMemoryVectors(vectors);
+    for (const memory of stored) {
+      await this.#linkEntities(memory);
+    }
+
+    return MemoryAddBatchResultSchema.parse({
+      added: stored.length,
+      failed: results.length - stored.length,
+      results,
+    });
+  }
+
+  async updateMemory(
+    id: string,
+    patch: Partial<MemoryRecordDTO>,
+    options: MemoryServiceMutationOptions = {},
+  ) {
+    const current = this.#requireMemory(id, this.#namespace(options.namespace));
+    // A memory never moves between namespaces.
+    const { namespace: _namespace, ...changes } = patch;
+    const updated = await this.#memoryRepository.update(id, changes as any, options);
+
+    if (patch.content && patch.content !== current.content) {
+      await this.#linkEntities(updated);
       const vector = await this.#embeddings.embed([patch.content]);
       await this.#vectra.upsertMemoryVector({
         memoryId: id,
+        namespace: updated.namespace,
         vector: vector[0]!,
-        layer: updated.layer,
-        importance: updated.importance,
+        ...this.#vectorMetadata(updated),
       });
+    } else if (VECTOR_FIELDS.some((field) => updated[field] !== current[field])) {
+      await this.#vectra.updateMemoryMetadata([
+        { memoryId: id, metadata: this.#vectorMetadata(updated) },
+      ]);
     }
 
     return MemoryRecordSchema.parse({
@@ -90,28 +294,188 @@ export class DefaultMemoryService implements MemoryService {
     });
   }
 
-  async deleteMemory(id: string): Promise<void> {
-    this.#memoryRepository.delete(id);
-    await this.#vectra.deleteMemoryVector(id);
+  /** Moves the memory to the trash; its vector is removed when the trash is purged. */
+  async deleteMemory(id: string, options: MemoryServiceMutationOptions = {}): Promise<void> {
+    this.#requireMemory(id, this.#namespace(options.namespace));
+    this.#memoryRepository.trash(id, options);
   }
 
-  async searchMemories(request: MemorySearchRequest) {
-    const parsed = MemorySearchRequestSchema.parse(request);
-    const enriched = { ...parsed };
+  async linkDocument(input: MemoryLinkDocumentRequest): Promise<MemoryRecordDTO> {
+    const { namespace: requested, ...reference } = MemoryLinkDocumentRequestSchema.parse(input);
+    const namespace = this.#namespace(requested);
+    this.#requireMemory(reference.memoryId, namespace);
+
+    if (!this.#documentRepository || !this.#chunkRepository) {
+      throw new Error("Document repositories are not configured");
+    }
+    if (this.#documentRepository.findById(reference.docId)?.namespace !== namespace) {
+      throw new Error(`Document ${reference.docId} not found`);
+    }
+    if (reference.chunkId) {
+      const chunk = this.#chunkRepository.findById(reference.chunkId);
+      if (!chunk || chunk.docId !== reference.docId) {
+        throw new Error(`Chunk ${reference.chunkId} not found in document ${reference.docId}`);
+      }
+    }
+
+    await this.#memoryRepository.addReference(reference.memoryId, reference);
+    return this.#withReferences(reference.memoryId, namespace);
+  }
+
+  async unlinkDocument(input: MemoryUnlinkDocumentRequest): Promise<MemoryRecordDTO> {
+    const parsed = MemoryUnlinkDocumentRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
+    this.#requireMemory(parsed.memoryId, namespace);
+
+    const linked = this.#memoryRepository
+      .listReferences(parsed.memoryId)
+      .some((ref) => ref.docId === parsed.docId && ref.chunkId === parsed.chunkId);
+    if (!linked) {
+      throw new Error(`Memory ${parsed.memoryId} is not linked to document ${parsed.docId}`);
+    }
+
+    this.#memoryRepository.removeReference(parsed.memoryId, parsed.docId, parsed.chunkId);
+    return this.#withReferences(parsed.memoryId, namespace);
+  }
+
+  async relateMemories(input: MemoryRelateRequest): Promise<MemoryRelationDTO> {
+    const { namespace: requested, ...relation } = MemoryRelateRequestSchema.parse(input);
+    const namespace = this.#namespace(requested);
+    const relations = this.#requireRelationRepository();
+    if (relation.srcId === relation.dstId) {
+      throw new Error("A memory cannot be related to itself");
+    }
+    this.#requireMemory(relation.srcId, namespace);
+    this.#requireMemory(relation.dstId, namespace);
+
+    return MemoryRelationSchema.parse(relations.upsert(relation));
+  }
 
-    if (!enriched.queryVector && enriched.query) {
-      const [vector] = await this.#embeddings.embed([enriched.query]);
-      enriched.queryVector = vector;
+  /** Breadth-first walk over memory relations up to `depth` hops (default 1). */
+  async getRelated(input: MemoryGetRelatedRequest): Promise<MemoryRelated> {
+    const parsed = MemoryGetRelatedRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
+    const relations = this.#requireRelationRepository();
+    this.#requireMemory(parsed.id, namespace);
+
+    const direction = parsed.direction ?? "both";
+    const maxDepth = parsed.depth ?? 1;
+    const limit = parsed.limit ?? 50;
+    const visited = new Set([parsed.id]);
+    const related: MemoryRelatedEntry[] = [];
+    let frontier = [parsed.id];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length && related.length < limit; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const link of relations.listForMemory(id, direction, parsed.relations)) {
+          const otherId = link.srcId === id ? link.dstId : link.srcId;
+          const memory = visited.has(otherId) ? undefined : this.#memoryRepository.findById(otherId);
+          if (!memory || memory.namespace !== namespace || related.length >= limit) {
+            continue;
+          }
+          visited.add(otherId);
+          next.push(otherId);
+          related.push({
+            memory: MemoryRecordSchema.parse({
+              ...memory,
+              references: this.#memoryRepository.listReferences(otherId),
+            }),
+            relation: link,
+            depth,
+          });
+        }
+      }
+      frontier = next;
+    }
+
+    return MemoryRelatedSchema.parse({ id: parsed.id, related });
+  }
+
+  /** Re-extracts entities from the memory's content and replaces its mentions. */
+  async #linkEntities(memory: MemoryRecord): Promise<void> {
+    const extracted = await this.#extractEntities(memory.content);
+    if (extracted) {
+      this.#replaceMentions(memory, extracted);
+    }
+  }
+
+  /** Undefined when entity linking is not configured. */
+  async #extractEntities(content: string): Promise<ExtractedEntity[] | undefined> {
+    if (!this.#entityExtractor || !this.#mentionRepository || !this.#knowledgeRepository) {
+      return undefined;
+    }
+    return this.#entityExtractor.extract(content);
+  }
+
+  /** Resolves `extracted` to entities of the memory's namespace and replaces its mentions. */
+  #replaceMentions(memory: MemoryRecord, extracted: ExtractedEntity[]): void {
+    const entities = resolveEntities(this.#knowledgeRepository!, extracted, memory.namespace);
+    this.#mentionRepository!.replaceForMemory(
+      memory.id,
+      findMentions(memory.content, entities, true),
+    );
+  }
+
+  #requireRelationRepository(): MemoryRelationRepository {
+    if (!this.#relationRepository) {
+      throw new Error("Memory relation repository is not configured");
     }
+    return this.#relationRepository;
+  }
+
+  #vectorMetadata(memory: MemoryRecord) {
+    return {
+      layer: memory.layer,
+      importance: memory.importance,
+      sessionId: memory.sessionId ?? undefined,
+      episodeId: memory.episodeId ?? undefined,
+    };
+  }
 
-    const results = await this.#searchService.searchMemories(enriched);
+  #namespace(requested?: string): string {
+    return requested ?? this.#defaultNamespace;
+  }
+
+  /** Memories of other namespaces are reported as missing. */
+  #requireMemory(id: string, namespace: string): MemoryRecord {
+    const memory = this.#memoryRepository.findById(id);
+    if (!memory || memory.namespace !== namespace) {
+      throw new Error(`Memory ${id} not found`);
+    }
+    return memory;
+  }
+
+  #withReferences(id: string, namespace: string): MemoryRecordDTO {
+    return MemoryRecordSchema.parse({
+      ...this.#requireMemory(id, namespace),
+      references: this.#memoryRepository.listReferences(id),
+    });
+  }
+
+  async searchMemories(request: MemorySearchRequest) {
+    // The search service embeds the query so it can reuse cached vectors and results.
+    const parsed = MemorySearchRequestSchema.parse(request);
+    const results = await this.#searchService.searchMemories(parsed);
+    await this.#recordAccess(results.map((result) => result.id));
     return results.map((result) => MemorySearchResultSchema.parse(result));
   }
 
+  async explainSearch(request: MemorySearchRequest): Promise<MemorySearchExplained> {
+    const parsed = MemorySearchRequestSchema.parse(request);
+    const { results, explanation } = await this.#searchService.explainSearch(parsed);
+    await this.#recordAccess(results.map((result) => result.id));
+    return MemorySearchExplainedSchema.parse({ results, explanation });
+  }
+
   async getMemory(input: MemoryGetRequest): Promise<MemoryRecordDTO | undefined> {
     const parsed = MemoryGetRequestSchema.parse(input);
-    const memory = this.#memoryRepository.findById(parsed.id);
-    
+    const stored = this.#memoryRepository.findById(parsed.id);
+    if (stored?.namespace !== this.#namespace(parsed.namespace)) {
+      return undefined;
+    }
+
+    const [memory] = await this.#recordAccess([parsed.id]);
     if (!memory) {
       return undefined;
     }
@@ -129,23 +493,18 @@ export class DefaultMemoryService implements MemoryService {
       throw new Error("Knowledge repository not available");
     }
 
-    // Get entity to find its name
     const entity = this.#knowledgeRepository.findById(parsed.entityId);
-    if (!entity) {
+    if (!entity || entity.namespace !== this.#namespace(parsed.namespace)) {
       throw new Error(`Entity ${parsed.entityId} not found`);
     }
 
-    // Search memories by entity name using FTS
-    const memories = this.#memoryRepository.searchByEntityName(
-      entity.name,
+    const memories = this.#memoryRepository.listByEntity(
+      entity.id,
       parsed.limit ?? 100,
+      parsed.offset ?? 0,
     );
 
-    // Apply offset if specified
-    const offset = parsed.offset ?? 0;
-    const paginated = memories.slice(offset, offset + (parsed.limit ?? 100));
-
-    return paginated.map((memory) =>
+    return memories.map((memory) =>
       MemoryRecordSchema.parse({
         ...memory,
         references: this.#memoryRepository.listReferences(memory.id),
@@ -157,7 +516,11 @@ export class DefaultMemoryService implements MemoryService {
     const parsed = MemoryGetByDocumentRequestSchema.parse(input);
     
     // Get all memories and filter by document reference
-    const allMemories = this.#memoryRepository.listAll(1000, 0);
+    const allMemories = this.#memoryRepository.listAll(
+      1000,
+      0,
+      this.#namespace(parsed.namespace),
+    );
     const matchingMemories: MemoryRecordDTO[] = [];
 
     for (const memory of allMemories) {
@@ -177,5 +540,454 @@ export class DefaultMemoryService implements MemoryService {
     const limit = parsed.limit ?? 100;
     return matchingMemories.slice(offset, offset + limit);
   }
+
+  async findDuplicates(
+    input: MemoryFindDuplicatesRequest = {},
+  ): Promise<MemoryFindDuplicatesResult> {
+    const parsed = MemoryFindDuplicatesRequestSchema.parse(input);
+    const threshold = parsed.threshold ?? this.#dedupe.threshold;
+    const merge = parsed.merge ?? false;
+    const namespace = this.#namespace(parsed.namespace);
+
+    const memories = (
+      parsed.layer
+        ? this.#memoryRepository.listByLayer(parsed.layer, parsed.limit ?? 1000, namespace)
+        : this.#memoryRepository.listAll(parsed.limit ?? 1000, 0, namespace)
+    ).sort((a, b) => a.createdAt - b.createdAt);
+
+    // The oldest memory of each group is kept as canonical; grouped ids are not revisited.
+    const grouped = new Set<string>();
+    const groups: MemoryDuplicateGroup[] = [];
+    let merged = 0;
+
+    for (const memory of memories) {
+      if (grouped.has(memory.id) || memory.pinned) {
+        continue;
+      }
+
+      const vector = await this.#resolveVector(memory);
+      const matches = (
+        await this.#findDuplicateMatches(memory.content, vector, threshold, namespace, memory.id)
+      ).filter(
+        (match) =>
+          !grouped.has(match.memory.id) &&
+          (!parsed.layer || match.memory.layer === parsed.layer),
+      );
+      if (matches.length === 0) {
+        continue;
+      }
+
+      grouped.add(memory.id);
+      for (const match of matches) {
+        grouped.add(match.memory.id);
+      }
+
+      groups.push({
+        memoryId: memory.id,
+        duplicates: matches.map((match) => ({
+          memoryId: match.memory.id,
+          similarity: match.similarity,
+        })),
+      });
+
+      if (merge) {
+        for (const match of matches) {
+          await this.#mergeInto(memory.id, match);
+          merged += 1;
+        }
+      }
+    }
+
+    return MemoryFindDuplicatesResultSchema.parse({
+      scanned: memories.length,
+      merged,
+      groups,
+    });
+  }
+
+  async getHistory(input: MemoryHistoryRequest): Promise<MemoryHistory> {
+    const parsed = MemoryHistoryRequestSchema.parse(input);
+    const current = this.#memoryRepository.findById(parsed.id);
+    const revisions = this.#memoryRepository.listRevisions(
+      parsed.id,
+      parsed.limit ?? 50,
+      parsed.offset ?? 0,
+    );
+
+    // Revisions keep the namespace of their memory, which never changes.
+    const owner = current?.namespace ?? revisions[0]?.namespace;
+    if (owner === undefined || owner !== this.#namespace(parsed.namespace)) {
+      throw new Error(`Memory ${parsed.id} not found`);
+    }
+
+    return MemoryHistorySchema.parse({
+      memoryId: parsed.id,
+      current: current
+        ? { ...current, references: this.#memoryRepository.listReferences(current.id) }
+        : undefined,
+      revisions,
+    });
+  }
+
+  async diffRevisions(input: MemoryDiffRequest): Promise<MemoryDiff> {
+    const parsed = MemoryDiffRequestSchema.parse(input);
+    const namespace = this.#namespace(parsed.namespace);
+    const before = this.#requireRevision(parsed.id, parsed.from, namespace);
+
+    let after: Pick<MemoryRecord, (typeof DIFF_FIELDS)[number]>;
+    if (parsed.to !== undefined) {
+      after = this.#requireRevision(parsed.id, parsed.to, namespace);
+    } else {
+      const current = this.#memoryRepository.findById(parsed.id);
+      if (!current) {
+        throw new Error(`Memory ${parsed.id} not found`);
+      }
+      after = current;
+    }
+
+    const changes = DIFF_FIELDS.filter(
+      (field) =>
+        JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null),
+    ).map((field) => ({
+      field,
+      before: before[field] ?? null,
+      after: after[field] ?? null,
+    }));
+
+    return MemoryDiffSchema.parse({
+      memoryId: parsed.id,
+      from: parsed.from,
+      to: parsed.to ?? null,
+      changes,
+      contentDiff: diffWords(before.content, after.content),
+    });
+  }
+
+  async revertMemory(input: MemoryRevertRequest): Promise<MemoryRecordDTO> {
+    const parsed = MemoryRevertRequestSchema.parse(input);
+    const revision = this.#requireRevision(
+      parsed.id,
+      parsed.revision,
+      this.#namespace(parsed.namespace),
+    );
+    // Extracted up front so the transaction below only runs SQL and holds the write lock briefly.
+    const extracted = await this.#extractEntities(revision.content);
+    // The mentions index follows the reverted content, or nothing changes.
+    const { current, reverted } = await this.#memoryRepository.transaction(async () => {
+      // Reverting a trashed memory takes it out of the trash before applying the revision.
+      this.#memoryRepository.untrash(parsed.id);
+      const current = this.#memoryRepository.findById(parsed.id);
+
+      let reverted: MemoryRecord;
+      if (!current) {
+        reverted = await this.#memoryRepository.restore(revision);
+      } else {
+        // Goes through update() so the state being replaced is itself kept as a revision.
+        reverted = await this.#memoryRepository.update(
+          parsed.id,
+          {
+            layer: revision.layer,
+            content: revision.content,
+            metadata: revision.metadata,
+            importance: revision.importance,
+            sessionId: revision.sessionId ?? null,
+            episodeId: revision.episodeId ?? null,
+            summary: revision.summary ?? null,
+            pinned: revision.pinned,
+            expiresAt: revision.expiresAt ?? null,
+          },
+          { force: parsed.force },
+        );
+      }
+      if (extracted) {
+        this.#replaceMentions(reverted, extracted);
+      }
+      return { current, reverted };
+    });
+
+    const stored = current ? await this.#vectra.getMemoryVector(parsed.id) : undefined;
+    if (stored && current?.content === reverted.content) {
+      await this.#vectra.updateMemoryMetadata([
+        { memoryId: reverted.id, metadata: this.#vectorMetadata(reverted) },
+      ]);
+    } else {
+      const [vector] = await this.#embeddings.embed([reverted.content]);
+      await this.#vectra.upsertMemoryVector({
+        memoryId: reverted.id,
+        namespace: reverted.namespace,
+        vector: vector!,
+        ...this.#vectorMetadata(reverted),
+      });
+    }
+
+    return MemoryRecordSchema.parse({
+      ...reverted,
+      references: this.#memoryRepository.listReferences(reverted.id),
+    });
+  }
+
+  #requireRevision(memoryId: string, revision: number, namespace: string): MemoryRevisionRecord {
+    const record = this.#memoryRepository.findRevision(memoryId, revision);
+    if (!record || record.namespace !== namespace) {
+      throw new Error(`Revision ${revision} of memory ${memoryId} not found`);
+    }
+    return record;
+  }
+
+  /**
+   * Collects candidates from the vector index and FTS, and scores each by the higher of
+   * cosine similarity and token overlap so exact rewrites are caught even when the
+   * embedding model is weak. Returns matches at or above `threshold`, best first.
+   * Pinned memories are never offered, so they are neither merged away nor absorb others.
+   * Only memories of `namespace` are considered.
+   */
+  async #findDuplicateMatches(
+    content: string,
+    vector: number[],
+    threshold: number,
+    namespace: string,
+    excludeId?: string,
+  ): Promise<DuplicateMatch[]> {
+    const vectorScores = new Map<string, number>();
+    for (const match of await this.#vectra.queryMemories(vector, {
+      topK: DUPLICATE_CANDIDATES,
+      namespaces: [namespace],
+    })) {
+      vectorScores.set(match.id, match.score);
+    }
+
+    const candidates = new Map<string, MemoryRecord>();
+    for (const id of vectorScores.keys()) {
+      const memory = this.#memoryRepository.findById(id);
+      if (memory && memory.namespace === namespace && !memory.pinned) {
+        candidates.set(id, memory);
+      }
+    }
+    for (const memory of this.#memoryRepository.searchByContent(
+      content,
+      DUPLICATE_CANDIDATES,
+      namespace,
+    )) {
+      if (!memory.pinned) {
+        candidates.set(memory.id, memory);
+      }
+    }
+    candidates.delete(excludeId ?? "");
+
+    const matches: DuplicateMatch[] = [];
+    for (const memory of candidates.values()) {
+      let cosine = vectorScores.get(memory.id);
+      if (cosine === undefined) {
+        const stored = await this.#vectra.getMemoryVector(memory.id);
+        cosine = stored ? cosineSimilarity(vector, stored.vector) : 0;
+      }
+      const similarity = Math.max(cosine, tokenOverlap(content, memory.content));
+      if (similarity >= threshold) {
+        matches.push({ memory, similarity });
+      }
+    }
+
+    return matches.sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /** Folds an incoming `memory.add` payload into an existing memory. */
+  async #absorbInput(
+    duplicate: DuplicateMatch,
+    incoming: {
+      content: string;
+      metadata: Record<string, unknown>;
+      importance: number;
+      sessionId: string | null;
+      episodeId: string | null;
+      addedAt: number;
+    },
+  ): Promise<MemoryRecord> {
+    const { memory } = duplicate;
+    const importance = this.#boostedImportance(memory.importance, incoming.importance);
+    const updated = await this.#memoryRepository.update(memory.id, {
+      importance,
+      metadata: {
+        ...incoming.metadata,
+        ...memory.metadata,
+        provenance: [
+          ...readProvenance(memory.metadata),
+          {
+            content: incoming.content,
+            similarity: duplicate.similarity,
+            sessionId: incoming.sessionId,
+            episodeId: incoming.episodeId,
+            addedAt: incoming.addedAt,
+          },
+        ],
+      },
+    });
+
+    await this.#vectra.updateMemoryMetadata([
+      { memoryId: updated.id, metadata: { importance: updated.importance } },
+    ]);
+    return updated;
+  }
+
+  /** Merges an existing duplicate memory into `targetId` and removes it. */
+  async #mergeInto(targetId: string, duplicate: DuplicateMatch): Promise<void> {
+    const target = this.#memoryRepository.findById(targetId);
+    if (!target) {
+      return;
+    }
+
+    const source = duplicate.memory;
+    await this.#memoryRepository.update(target.id, {
+      importance: this.#boostedImportance(target.importance, source.importance),
+      metadata: {
+        ...source.metadata,
+        ...target.metadata,
+        provenance: [
+          ...readProvenance(target.metadata),
+          ...readProvenance(source.metadata),
+          {
+            memoryId: source.id,
+            content: source.content,
+            similarity: duplicate.similarity,
+            sessionId: source.sessionId ?? null,
+            episodeId: source.episodeId ?? null,
+            addedAt: source.createdAt,
+          },
+        ],
+      },
+    });
+
+    const references = [
+      ...this.#memoryRepository.listReferences(target.id),
+      ...this.#memoryRepository.listReferences(source.id),
+    ];
+    const uniqueReferences = new Map(
+      references.map((ref) => [`${ref.docId}:${ref.chunkId ?? ""}`, ref]),
+    );
+    await this.#memoryRepository.replaceReferences(
+      target.id,
+      Array.from(uniqueReferences.values()),
+    );
+
+    this.#memoryRepository.delete(source.id);
+    await this.#vectra.deleteMemoryVector(source.id);
+
+    const updated = this.#memoryRepository.findById(target.id);
+    if (updated) {
+      await this.#vectra.updateMemoryMetadata([
+        { memoryId: updated.id, metadata: { importance: updated.importance } },
+      ]);
+    }
+  }
+
+  #boostedImportance(existing: number, incoming: number): number {
+    const base = Math.max(existing, incoming);
+    return Math.min(1, base + (1 - base) * this.#dedupe.importanceBoost);
+  }
+
+  async #resolveVector(memory: MemoryRecord): Promise<number[]> {
+    const stored = await this.#vectra.getMemoryVector(memory.id);
+    if (stored) {
+      return stored.vector;
+    }
+    const [vector] = await this.#embeddings.embed([memory.content]);
+    return vector!;
+  }
+
+  async #recordAccess(ids: string[]) {
+    const accessed = this.#memoryRepository.recordAccess(ids, this.#reinforcement);
+    if (accessed.length && this.#reinforcement > 0) {
+      await this.#vectra.updateMemoryMetadata(
+        accessed.map((memory) => ({
+          memoryId: memory.id,
+          metadata: { importance: memory.importance },
+        })),
+      );
+    }
+    return accessed;
+  }
 }
 
+function readProvenance(metadata: Record<string, unknown>): unknown[] {
+  return Array.isArray(metadata.provenance) ? (metadata.provenance as unknown[]) : [];
+}
+
+/** Jaccard overlap of the lower-cased word sets of two texts. */
+function tokenOverlap(a: string, b: string): number {
+  const tokensA = new Set(a.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+  const tokensB = new Set(b.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const token of tokensA) {
+    if (tokensB.has(token)) {
+      shared += 1;
+    }
+  }
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/** Word-level LCS diff; whitespace is kept attached to the surrounding tokens. */
+function diffWords(
+  before: string,
+  after: string,
+): Array<{ op: "equal" | "insert" | "delete"; text: string }> {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+
+  if (a.length > MAX_DIFF_TOKENS || b.length > MAX_DIFF_TOKENS) {
+    if (before === after) {
+      return [{ op: "equal", text: before }];
+    }
+    return [
+      ...(before ? [{ op: "delete" as const, text: before }] : []),
+      ...(after ? [{ op: "insert" as const, text: after }] : []),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1]! + 1
+          : Math.max(lengths[(i + 1) * width + j]!, lengths[i * width + j + 1]!);
+    }
+  }
+
+  const ops: Array<{ op: "equal" | "insert" | "delete"; text: string }> = [];
+  const push = (op: "equal" | "insert" | "delete", text: string) => {
+    const last = ops[ops.length - 1];
+    if (last?.op === op) {
+      last.text += text;
+    } else {
+      ops.push({ op, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]!);
+      i += 1;
+      j += 1;
+    } else if (lengths[(i + 1) * width + j]! >= lengths[i * width + j + 1]!) {
+      push("delete", a[i]!);
+      i += 1;
+    } else {
+      push("insert", b[j]!);
+      j += 1;
+    }
+  }
+  for (; i < a.length; i += 1) {
+    push("delete", a[i]!);
+  }
+  for (; j < b.length; j += 1) {
+    push("insert", b[j]!);
+  }
+
+  return ops;
+}
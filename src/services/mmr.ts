@@ -0,0 +1,68 @@
+import { cosineSimilarity } from "./similarity";
+
+/** A ranked hit with its relevance `score`; higher is better. */
+export interface DiversityCandidate {
+  id: string;
+  score: number;
+}
+
+/** Candidates fetched per requested result when a rerank stage picks from them. */
+export const RERANK_CANDIDATE_FACTOR = 3;
+
+/**
+ * Reorders `candidates` by Maximal Marginal Relevance: each pick maximizes
+ * `(1 - diversity) * relevance - diversity * maxSimilarity`, where relevance is the score
+ * min-max scaled over the candidates and maxSimilarity the highest cosine similarity to an
+ * already picked hit. `diversity` 0 keeps the ranking; 1 only avoids redundancy. Candidates
+ * without a vector cannot be compared and are treated as dissimilar to everything.
+ */
+export function rerankByDiversity<T extends DiversityCandidate>(
+  candidates: T[],
+  vectors: Map<string, number[]>,
+  diversity: number,
+): T[] {
+  if (diversity <= 0) {
+    return candidates;
+  }
+
+  const scores = candidates.map((candidate) => candidate.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const relevance = (candidate: T) => (max > min ? (candidate.score - min) / (max - min) : 1);
+
+  const remaining = [...candidates];
+  const picked: T[] = [];
+  // Highest similarity of each remaining candidate to any picked one, updated per pick.
+  const similarity = new Map(candidates.map((candidate) => [candidate.id, 0]));
+
+  while (remaining.length > 0) {
+    let bestIndex = 0;
+    let bestValue = Number.NEGATIVE_INFINITY;
+    remaining.forEach((candidate, index) => {
+      const value =
+        (1 - diversity) * relevance(candidate) - diversity * similarity.get(candidate.id)!;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [next] = remaining.splice(bestIndex, 1);
+    picked.push(next!);
+    const vector = vectors.get(next!.id);
+    if (!vector) {
+      continue;
+    }
+    for (const candidate of remaining) {
+      const other = vectors.get(candidate.id);
+      if (other) {
+        similarity.set(
+          candidate.id,
+          Math.max(similarity.get(candidate.id)!, cosineSimilarity(vector, other)),
+        );
+      }
+    }
+  }
+
+  return picked;
+}
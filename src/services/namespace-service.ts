@@ -0,0 +1,43 @@
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { NamespaceRepository } from "../repositories/namespace-repository";
+import {
+  NamespaceListRequestSchema,
+  NamespaceStatsRequestSchema,
+  NamespaceStatsSchema,
+  NamespaceSummarySchema,
+  type NamespaceListRequest,
+  type NamespaceStatsDTO,
+  type NamespaceStatsRequest,
+  type NamespaceSummaryDTO,
+} from "../schemas/namespace";
+import type { NamespaceService } from "./types";
+
+export interface NamespaceServiceDependencies {
+  namespaceRepository: NamespaceRepository;
+  /** Namespace reported by `stats` when the request names none. */
+  defaultNamespace?: string;
+}
+
+export class DefaultNamespaceService implements NamespaceService {
+  #namespaceRepository: NamespaceRepository;
+  #defaultNamespace: string;
+
+  constructor(deps: NamespaceServiceDependencies) {
+    this.#namespaceRepository = deps.namespaceRepository;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+  }
+
+  async list(input: NamespaceListRequest = {}): Promise<NamespaceSummaryDTO[]> {
+    const parsed = NamespaceListRequestSchema.parse(input);
+    return this.#namespaceRepository
+      .list(parsed.limit ?? 100, parsed.offset ?? 0)
+      .map((summary) => NamespaceSummarySchema.parse(summary));
+  }
+
+  async stats(input: NamespaceStatsRequest = {}): Promise<NamespaceStatsDTO> {
+    const parsed = NamespaceStatsRequestSchema.parse(input);
+    return NamespaceStatsSchema.parse(
+      this.#namespaceRepository.stats(parsed.namespace ?? this.#defaultNamespace),
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import type { RankingProfile } from "../schemas/memory";
+
+const DAY_MS = 86_400_000;
+
+export interface RankingProfileSettings {
+  /** Share of the blended score taken by recency; relevance gets what the weights leave. */
+  recencyWeight: number;
+  /** Share of the blended score taken by importance. */
+  importanceWeight: number;
+  /** Age after which recency has halved. */
+  halfLifeMs: number;
+}
+
+export interface RankingOptions {
+  /** Profile of requests that do not pick one. */
+  profile: RankingProfile;
+  profiles: Record<RankingProfile, RankingProfileSettings>;
+}
+
+export const DEFAULT_RANKING: RankingOptions = {
+  profile: "relevance",
+  profiles: {
+    relevance: { recencyWeight: 0, importanceWeight: 0, halfLifeMs: 30 * DAY_MS },
+    recent: { recencyWeight: 0.5, importanceWeight: 0.1, halfLifeMs: 7 * DAY_MS },
+    important: { recencyWeight: 0.1, importanceWeight: 0.5, halfLifeMs: 30 * DAY_MS },
+    balanced: { recencyWeight: 0.25, importanceWeight: 0.25, halfLifeMs: 30 * DAY_MS },
+  },
+};
+
+/** A hit whose `score` is a retrieval score on any scale. */
+export interface RankableHit {
+  score: number;
+  updatedAt: number;
+  importance: number;
+}
+
+export interface RankingBreakdown {
+  fusedScore: number;
+  relevance: number;
+  recency: number;
+  importance: number;
+}
+
+/** Whether `settings` changes the order of hits at all. */
+export function blendsRanking(settings: RankingProfileSettings): boolean {
+  return settings.recencyWeight > 0 || settings.importanceWeight > 0;
+}
+
+/**
+ * Replaces each hit's `score` with
+ * `(1 - recencyWeight - importanceWeight) * relevance + recencyWeight * recency + importanceWeight * importance`
+ * and returns the hits best first. Relevance is the retrieval score min-max scaled over the
+ * hits (all ties count as 1); recency decays exponentially with the time since `updatedAt`.
+ */
+export function applyRanking<T extends RankableHit>(
+  hits: T[],
+  settings: RankingProfileSettings,
+  now = Date.now(),
+): Array<{ hit: T; breakdown: RankingBreakdown }> {
+  const scores = hits.map((hit) => hit.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+  const relevanceWeight = Math.max(0, 1 - settings.recencyWeight - settings.importanceWeight);
+
+  return hits
+    .map((hit) => {
+      const breakdown: RankingBreakdown = {
+        fusedScore: hit.score,
+        relevance: max > min ? (hit.score - min) / (max - min) : 1,
+        recency: 0.5 ** (Math.max(0, now - hit.updatedAt) / settings.halfLifeMs),
+        importance: hit.importance,
+      };
+      const score =
+        relevanceWeight * breakdown.relevance +
+        settings.recencyWeight * breakdown.recency +
+        settings.importanceWeight * breakdown.importance;
+      return { hit: { ...hit, score }, breakdown };
+    })
+    .sort((a, b) => b.hit.score - a.hit.score);
+}
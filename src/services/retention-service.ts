@@ -0,0 +1,101 @@
+import type { Config } from "../config";
+import { MemoryRepository } from "../repositories/memory-repository";
+import type { MemoryLayer, MemoryRecord } from "../repositories/types";
+import {
+  MemoryRetentionReportSchema,
+  MemoryRetentionRequestSchema,
+  type MemoryRetentionReport,
+  type MemoryRetentionRequest,
+} from "../schemas/memory";
+import type { VectraAdapter } from "../vector/vectra";
+import type { RetentionService } from "./types";
+
+export interface RetentionServiceDependencies {
+  memoryRepository: MemoryRepository;
+  vectra: VectraAdapter;
+  settings: Config["retention"];
+}
+
+export class DefaultRetentionService implements RetentionService {
+  #memoryRepository: MemoryRepository;
+  #vectra: VectraAdapter;
+  #settings: Config["retention"];
+
+  constructor(deps: RetentionServiceDependencies) {
+    this.#memoryRepository = deps.memoryRepository;
+    this.#vectra = deps.vectra;
+    this.#settings = deps.settings;
+  }
+
+  async purge(request: MemoryRetentionRequest = {}): Promise<MemoryRetentionReport> {
+    const parsed = MemoryRetentionRequestSchema.parse(request);
+    const dryRun = parsed.dryRun ?? false;
+    const startedAt = Date.now();
+    const now = parsed.now ?? startedAt;
+
+    const report: MemoryRetentionReport = {
+      startedAt,
+      completedAt: startedAt,
+      dryRun,
+      expired: 0,
+      byLayer: {},
+      purged: 0,
+    };
+
+    report.expired = await this.#drain(dryRun, (limit, offset) =>
+      this.#memoryRepository.listExpired(now, limit, offset),
+    );
+
+    for (const [layer, rule] of Object.entries(this.#settings.layers)) {
+      if (!rule) {
+        continue;
+      }
+      report.byLayer[layer] = await this.#drain(dryRun, (limit, offset) =>
+        this.#memoryRepository.listRetentionCandidates(
+          layer as MemoryLayer,
+          now - rule.maxAgeMs,
+          rule.keepImportanceAbove,
+          now,
+          limit,
+          offset,
+        ),
+      );
+    }
+
+    if (!dryRun) {
+      report.purged =
+        report.expired + Object.values(report.byLayer).reduce((sum, count) => sum + count, 0);
+    }
+
+    report.completedAt = Date.now();
+    return MemoryRetentionReportSchema.parse(report);
+  }
+
+  /**
+   * Deletes every memory returned by `list` in batches and returns how many matched.
+   * Deleted rows drop out of the query, so real runs always read from offset 0; dry
+   * runs page through instead.
+   */
+  async #drain(
+    dryRun: boolean,
+    list: (limit: number, offset: number) => MemoryRecord[],
+  ): Promise<number> {
+    const batchSize = this.#settings.batchSize;
+    let matched = 0;
+
+    for (;;) {
+      const batch = list(batchSize, dryRun ? matched : 0);
+      matched += batch.length;
+
+      if (batch.length && !dryRun) {
+        const ids = batch.map((memory) => memory.id);
+        await this.#memoryRepository.deleteMany(ids);
+        await this.#vectra.deleteMemoryVectors(ids);
+      }
+
+      if (batch.length < batchSize) {
+        return matched;
+      }
+    }
+  }
+}
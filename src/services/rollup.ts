@@ -0,0 +1,35 @@
+import type { MemoryRecord } from "../repositories/types";
+import type { SummaryGenerator } from "./types";
+
+/** Upper bound on the length of a generated roll-up summary. */
+const MAX_ROLLUP_LENGTH = 2_000;
+/** Length each memory is clipped to in the fallback roll-up. */
+const MAX_ENTRY_LENGTH = 240;
+
+/**
+ * Condenses a chronological list of memories into a single summary text. Uses the
+ * summary generator when available, otherwise falls back to a clipped bullet list.
+ */
+export async function buildRollupSummary(
+  title: string,
+  memories: MemoryRecord[],
+  summaryGenerator?: SummaryGenerator,
+): Promise<string | undefined> {
+  if (memories.length === 0) {
+    return undefined;
+  }
+
+  const lines = memories.map((memory) => {
+    const text = (memory.summary ?? memory.content).trim().replace(/\s+/g, " ");
+    return `- ${text.slice(0, MAX_ENTRY_LENGTH)}`;
+  });
+
+  if (summaryGenerator) {
+    const generated = await summaryGenerator.summarize(lines.join("\n"));
+    if (generated?.trim()) {
+      return `${title}: ${generated.trim()}`;
+    }
+  }
+
+  return `${title}\n${lines.join("\n")}`.slice(0, MAX_ROLLUP_LENGTH);
+}
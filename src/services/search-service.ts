@@ -1,90 +1,487 @@
+import { LRUCache } from "lru-cache";
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { MemoryRelationRepository } from "../repositories/memory-relation-repository";
+import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import {
+  buildMemoryFilterSql,
+  hasMemoryFilter,
+  type SqlConditions,
+} from "../repositories/memory-filter";
+import { FTS_COLUMNS, toFtsQuery } from "../repositories/fts";
 import { MemoryRepository } from "../repositories/memory-repository";
+import { MentionRepository } from "../repositories/mention-repository";
+import type { MemoryRecord } from "../repositories/types";
 import type { SQLiteClient } from "../database/sqlite";
 import type { VectraAdapter } from "../vector/vectra";
 import {
   MemorySearchRequestSchema,
   MemorySearchResultSchema,
+  type MemorySearchExplained,
+  type MemorySearchExplanation,
+  type MemorySearchHitExplanation,
   type MemorySearchRequest,
   type MemorySearchResult,
 } from "../schemas/memory";
 import { HybridSearchResultSchema, type HybridSearchResult } from "../schemas/search";
-import type { SearchService } from "./types";
+import {
+  DEFAULT_FUSION,
+  describeFusion,
+  explainFusion,
+  fuseScores,
+  resolveFusion,
+  type FusionExplanation,
+  type FusionOptions,
+  type FusionRetriever,
+} from "./fusion";
+import { RERANK_CANDIDATE_FACTOR, rerankByDiversity } from "./mmr";
+import {
+  DEFAULT_RANKING,
+  applyRanking,
+  blendsRanking,
+  type RankingOptions,
+  type RankingProfileSettings,
+} from "./ranking";
+import type { AnalyticsService, EmbeddingProvider, EntityExtractor, SearchService } from "./types";
 
 export interface SearchServiceDependencies {
   memoryRepository: MemoryRepository;
   sqlite: SQLiteClient;
   vectra: VectraAdapter;
+  /** Required for `collapseSuperseded`; without it results are never collapsed. */
+  relationRepository?: MemoryRelationRepository;
+  /** Mentions link graph entities to memories; its writes invalidate cached results. */
+  mentionRepository?: MentionRepository;
+  /** Namespace searched when a request names none. */
+  defaultNamespace?: string;
+  /** Fusion of requests that do not pick one. */
+  fusion?: FusionOptions;
+  /** Graph retrieval runs only when both the repository and the extractor are provided. */
+  knowledgeRepository?: KnowledgeGraphRepository;
+  entityExtractor?: EntityExtractor;
+  /** Hops expanded from the query's entities when a request does not set `graphHops`. */
+  graphHops?: number;
+  /**
+   * Embeds requests that carry a `query` but no `queryVector`; without it such requests
+   * only use full-text and graph retrieval.
+   */
+  embeddings?: EmbeddingProvider;
+  /** Receives the latency, result count and cache hit of every search. */
+  analytics?: AnalyticsService;
+  /** Result and query-embedding caches; searches are not cached without it. */
+  cache?: SearchCacheOptions;
+  /** Ranking profiles; requests without `profile` use `ranking.profile`. */
+  ranking?: RankingOptions;
+}
+
+export interface SearchCacheOptions {
+  /** Cached result lists; 0 disables the result cache. */
+  resultEntries: number;
+  /** Cached query vectors; 0 disables the embedding cache. */
+  embeddingEntries: number;
+  /** Lifetime of a cache entry; 0 keeps entries until evicted or invalidated. */
+  ttlMs: number;
+}
+
+/** Upper bound on pinned memories appended by `includePinned`. */
+const MAX_PINNED_RESULTS = 50;
+/** Share of an entity's score passed on across each hop, on top of the edge weight. */
+const GRAPH_HOP_DECAY = 0.5;
+/** Upper bound on entities reached while expanding the query's entities. */
+const MAX_GRAPH_ENTITIES = 200;
+
+/** Cached results, stale once the earliest expiry among them has passed. */
+interface CachedSearch {
+  results: HybridSearchResult[];
+  expiresAt?: number;
 }
 
 interface ScoredMemory {
   id: string;
+  score: number;
   vectorScore?: number;
   textScore?: number;
+  graphScore?: number;
+  explanation?: MemorySearchHitExplanation;
+}
+
+type SearchTimings = MemorySearchExplanation["timings"];
+
+/** What one search did, collected for `explain`. */
+interface SearchTrace {
+  timings: SearchTimings;
+  /** Retrievers that returned at least one hit. */
+  retrievers: FusionRetriever[];
 }
 
 export class DefaultSearchService implements SearchService {
   #memoryRepository: MemoryRepository;
   #sqlite: SQLiteClient;
   #vectra: VectraAdapter;
+  #relationRepository?: MemoryRelationRepository;
+  #mentionRepository?: MentionRepository;
+  #defaultNamespace: string;
+  #fusion: FusionOptions;
+  #knowledgeRepository?: KnowledgeGraphRepository;
+  #entityExtractor?: EntityExtractor;
+  #graphHops: number;
+  #embeddings?: EmbeddingProvider;
+  #analytics?: AnalyticsService;
+  #ranking: RankingOptions;
+  #resultCache?: LRUCache<string, CachedSearch>;
+  #embeddingCache?: LRUCache<string, number[]>;
+  /** Data version, see `#dataVersion`, the cached results were computed at. */
+  #cachedVersion = 0;
 
   constructor(deps: SearchServiceDependencies) {
     this.#memoryRepository = deps.memoryRepository;
     this.#sqlite = deps.sqlite;
     this.#vectra = deps.vectra;
+    this.#relationRepository = deps.relationRepository;
+    this.#mentionRepository = deps.mentionRepository;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+    this.#fusion = deps.fusion ?? DEFAULT_FUSION;
+    this.#knowledgeRepository = deps.knowledgeRepository;
+    this.#entityExtractor = deps.entityExtractor;
+    this.#graphHops = deps.graphHops ?? 2;
+    this.#embeddings = deps.embeddings;
+    this.#analytics = deps.analytics;
+    this.#ranking = deps.ranking ?? DEFAULT_RANKING;
+    if (deps.cache && deps.cache.resultEntries > 0) {
+      this.#resultCache = new LRUCache({ max: deps.cache.resultEntries, ttl: deps.cache.ttlMs });
+    }
+    if (deps.cache && deps.cache.embeddingEntries > 0) {
+      this.#embeddingCache = new LRUCache({ max: deps.cache.embeddingEntries, ttl: deps.cache.ttlMs });
+    }
   }
 
+  /**
+   * Cached results are keyed by the normalized request and dropped as soon as a repository
+   * they are derived from records a write, or once a memory among them expires. Reinforcement
+   * on access is not a write, so cached scores and access counters may lag behind until the
+   * entry's TTL runs out.
+   */
   async searchMemories(request: MemorySearchRequest): Promise<HybridSearchResult[]> {
-    const parsed = MemorySearchRequestSchema.parse(request);
-    const results = await this.#collectScores(parsed);
+    return (await this.#search(request)).results;
+  }
+
+  /** Searches with `explain` set and returns the request-level breakdown next to the hits. */
+  async explainSearch(request: MemorySearchRequest): Promise<MemorySearchExplained> {
+    const { results, explanation } = await this.#search({ ...request, explain: true });
+    return { results, explanation: explanation! };
+  }
+
+  async #search(
+    request: MemorySearchRequest,
+  ): Promise<{ results: HybridSearchResult[]; explanation?: MemorySearchExplanation }> {
+    const startedAt = performance.now();
+    const parsed = this.#scopeNamespaces(MemorySearchRequestSchema.parse(request));
+    const trace: SearchTrace = {
+      timings: {
+        embedMs: 0,
+        vectorMs: 0,
+        textMs: 0,
+        graphMs: 0,
+        fusionMs: 0,
+        hydrateMs: 0,
+        rerankMs: 0,
+        totalMs: 0,
+      },
+      retrievers: [],
+    };
+
+    const version = this.#dataVersion();
+    if (version !== this.#cachedVersion) {
+      this.#resultCache?.clear();
+      this.#cachedVersion = version;
+    }
+    // Explained searches always run, so their timings describe real work.
+    const key = this.#resultCache && !parsed.explain ? cacheKey(parsed) : undefined;
+    const cached = key ? this.#resultCache!.get(key) : undefined;
+    if (cached && (cached.expiresAt === undefined || cached.expiresAt > Date.now())) {
+      this.#recordMetric(startedAt, cached.results.length, true);
+      return { results: structuredClone(cached.results) };
+    }
+
+    if (!parsed.queryVector && parsed.query && this.#embeddings) {
+      const query = parsed.query;
+      parsed.queryVector = await timed(trace.timings, "embedMs", () => this.#embedQuery(query));
+    }
+    const results = await this.#rank(parsed, trace);
+
+    // A write that landed while this search ran may not be reflected in its results.
+    if (key && this.#dataVersion() === version) {
+      this.#resultCache!.set(key, { results: structuredClone(results), expiresAt: earliestExpiry(results) });
+    }
+    this.#recordMetric(startedAt, results.length, false);
+    trace.timings.totalMs = performance.now() - startedAt;
+
+    if (!parsed.explain) {
+      return { results };
+    }
+    const fusion = resolveFusion(this.#fusion, parsed.fusion);
+    return {
+      results,
+      explanation: {
+        ftsQuery: ftsQueryOf(parsed) || undefined,
+        fusion: { ...fusion, formula: describeFusion(fusion, trace.retrievers) },
+        ranking: {
+          profile: parsed.profile ?? this.#ranking.profile,
+          ...this.#rankingFor(parsed),
+        },
+        filters: appliedFilters(parsed),
+        timings: trace.timings,
+      },
+    };
+  }
+
+  /**
+   * Changes whenever a repository that search results are read from records a write. Each
+   * version only grows, so their sum changes with any of them.
+   */
+  #dataVersion(): number {
+    return [
+      this.#memoryRepository,
+      this.#relationRepository,
+      this.#knowledgeRepository,
+      this.#mentionRepository,
+    ].reduce((sum, repository) => sum + (repository?.version ?? 0), 0);
+  }
 
-    const limited = results.slice(0, parsed.topK);
+  async #embedQuery(query: string): Promise<number[] | undefined> {
+    const key = normalizeQuery(query);
+    const cached = this.#embeddingCache?.get(key);
+    if (cached) {
+      return cached;
+    }
+    const [vector] = await this.#embeddings!.embed([query]);
+    if (vector) {
+      this.#embeddingCache?.set(key, vector);
+    }
+    return vector;
+  }
+
+  #recordMetric(startedAt: number, resultCount: number, cacheHit: boolean): void {
+    this.#analytics?.recordMetric({
+      timestamp: Date.now(),
+      queryMs: performance.now() - startedAt,
+      cacheHit,
+      resultCount,
+    });
+  }
+
+  async #rank(parsed: MemorySearchRequest, trace: SearchTrace): Promise<HybridSearchResult[]> {
+    const results = await this.#collectScores(parsed, trace);
+    const hydrateStartedAt = performance.now();
+    const now = Date.now();
     const enriched: HybridSearchResult[] = [];
+    const byId = new Map<string, HybridSearchResult>();
 
-    for (const result of limited) {
-      const record = this.#memoryRepository.findById(result.id);
-      if (!record) {
+    // Reranking picks from the wider candidate pool, so it is hydrated in full.
+    const limit = this.#candidateLimit(parsed);
+    for (const result of results) {
+      if (enriched.length >= limit) {
+        break;
+      }
+      let record = this.#memoryRepository.findById(result.id);
+      // Expired memories stay hidden until the retention job purges them.
+      if (!record || this.#isExpired(record, now)) {
         continue;
       }
+
+      let collapsedFrom: string | undefined;
+      if (parsed.collapseSuperseded) {
+        const successor = this.#newestSuccessor(record, now);
+        if (successor.id !== record.id) {
+          collapsedFrom = record.id;
+          record = successor;
+        }
+      }
+
+      // Results are visited best first, so a successor already listed keeps its score.
+      const existing = byId.get(record.id);
+      if (existing) {
+        if (collapsedFrom) {
+          existing.collapsed = [...(existing.collapsed ?? []), collapsedFrom];
+        }
+        continue;
+      }
+
       const references = parsed.includeReferences ?? true
-        ? this.#memoryRepository.listReferences(result.id)
+        ? this.#memoryRepository.listReferences(record.id)
         : undefined;
 
       const dto = MemorySearchResultSchema.parse({
         ...record,
         references,
-        score: this.#combineScores(result),
+        score: result.score,
         vectorScore: result.vectorScore,
         textScore: result.textScore,
+        graphScore: result.graphScore,
+        collapsed: collapsedFrom ? [collapsedFrom] : undefined,
+        explanation: result.explanation,
       });
 
-      enriched.push(
-        HybridSearchResultSchema.parse({
-          ...dto,
-          source: this.#resolveSource(result),
-        }),
+      const hybrid = HybridSearchResultSchema.parse({
+        ...dto,
+        source: this.#resolveSource(result),
+      });
+      byId.set(record.id, hybrid);
+      enriched.push(hybrid);
+    }
+    trace.timings.hydrateMs = performance.now() - hydrateStartedAt;
+
+    const rerankStartedAt = performance.now();
+    const ranked = (await this.#rerank(parsed, enriched, now)).slice(0, parsed.topK);
+    trace.timings.rerankMs = performance.now() - rerankStartedAt;
+
+    if (parsed.includePinned) {
+      // Pinned memories are appended after the ranked results and do not count towards topK.
+      const pinned = this.#memoryRepository.listPinned(
+        {
+          layers: parsed.layers,
+          sessionId: parsed.sessionId,
+          episodeId: parsed.episodeId,
+          minImportance: parsed.minImportance,
+          createdAfter: parsed.createdAfter,
+          createdBefore: parsed.createdBefore,
+          updatedAfter: parsed.updatedAfter,
+          metadata: parsed.metadata,
+          namespaces: parsed.namespaces,
+        },
+        MAX_PINNED_RESULTS,
       );
+      const listed = new Set(ranked.map((result) => result.id));
+      for (const record of pinned) {
+        if (listed.has(record.id)) {
+          continue;
+        }
+        const hybrid = HybridSearchResultSchema.parse({
+          ...record,
+          references: parsed.includeReferences ?? true
+            ? this.#memoryRepository.listReferences(record.id)
+            : undefined,
+          score: 0,
+          source: "pinned",
+        });
+        ranked.push(hybrid);
+      }
     }
 
-    return enriched;
+    return ranked;
   }
 
-  async #collectScores(request: MemorySearchRequest): Promise<ScoredMemory[]> {
-    const vectorPromise = request.queryVector
-      ? this.#vectra.queryMemories(request.queryVector, {
-          topK: request.topK,
-          layer: request.layers?.[0],
-          minImportance: request.minImportance,
-          query: request.query,
-          useKeywordFallback: false,
-        })
+  /** Blends in the ranking profile, then spreads out near-duplicates; both only reorder. */
+  async #rerank(
+    request: MemorySearchRequest,
+    hits: HybridSearchResult[],
+    now: number,
+  ): Promise<HybridSearchResult[]> {
+    let ranked = hits;
+    const ranking = this.#rankingFor(request);
+    if (blendsRanking(ranking)) {
+      ranked = applyRanking(hits, ranking, now).map(({ hit, breakdown }) =>
+        hit.explanation ? { ...hit, explanation: { ...hit.explanation, ranking: breakdown } } : hit,
+      );
+    }
+    if (request.diversity) {
+      const vectors = await this.#vectra.getMemoryVectors(ranked.map((hit) => hit.id));
+      ranked = rerankByDiversity(ranked, vectors, request.diversity);
+    }
+    return ranked;
+  }
+
+  #rankingFor(request: MemorySearchRequest): RankingProfileSettings {
+    return this.#ranking.profiles[request.profile ?? this.#ranking.profile];
+  }
+
+  /**
+   * Resolves the namespaces to search into `namespaces`, which the filters downstream apply:
+   * the requested or default namespace alone unless the request widens it.
+   */
+  #scopeNamespaces(request: MemorySearchRequest): MemorySearchRequest {
+    if (request.allNamespaces) {
+      return { ...request, namespaces: undefined };
+    }
+    return {
+      ...request,
+      namespaces: request.namespaces ?? [request.namespace ?? this.#defaultNamespace],
+    };
+  }
+
+  /** Pinned memories never expire. */
+  #isExpired(record: MemoryRecord, now: number): boolean {
+    return !record.pinned && record.expiresAt != null && record.expiresAt <= now;
+  }
+
+  /**
+   * Follows `supersedes` links to the newest live memory replacing `record`. When a memory
+   * was superseded more than once, the most recently created successor wins.
+   */
+  #newestSuccessor(record: MemoryRecord, now: number): MemoryRecord {
+    if (!this.#relationRepository) {
+      return record;
+    }
+
+    const visited = new Set([record.id]);
+    let current = record;
+    for (;;) {
+      let next: MemoryRecord | undefined;
+      for (const link of this.#relationRepository.listForMemory(current.id, "incoming", [
+        "supersedes",
+      ])) {
+        if (visited.has(link.srcId)) {
+          continue;
+        }
+        const successor = this.#memoryRepository.findById(link.srcId);
+        if (successor && !this.#isExpired(successor, now) && successor.createdAt >= (next?.createdAt ?? 0)) {
+          next = successor;
+        }
+      }
+      if (!next) {
+        return current;
+      }
+      visited.add(next.id);
+      current = next;
+    }
+  }
+
+  async #collectScores(request: MemorySearchRequest, trace: SearchTrace): Promise<ScoredMemory[]> {
+    // Vectors carry layer, importance, namespace, session and episode; time and metadata
+    // filters are resolved in SQLite and handed to Vectra as an id allow-list. FTS and graph
+    // retrieval apply all of these predicates through `#memoryConditions`, so every retriever
+    // draws from the same candidates.
+    const memoryIds = hasMemoryFilter(request)
+      ? this.#memoryRepository.listIdsMatching(request)
+      : undefined;
+
+    const queryVector = request.queryVector;
+    const vectorPromise = queryVector
+      ? timed(trace.timings, "vectorMs", () =>
+          this.#vectra.queryMemories(queryVector, {
+            topK: this.#candidateLimit(request),
+            layers: request.layers,
+            sessionId: request.sessionId,
+            episodeId: request.episodeId,
+            minImportance: request.minImportance,
+            namespaces: request.namespaces,
+            memoryIds,
+            query: request.query,
+            useKeywordFallback: false,
+          }),
+        )
       : Promise.resolve([]);
 
-    const [vectorResults, textResults] = await Promise.all([
+    const [vectorResults, textResults, graphResults] = await Promise.all([
       vectorPromise,
-      request.query ? this.#searchFts(request) : Promise.resolve([]),
+      request.query
+        ? timed(trace.timings, "textMs", () => this.#searchFts(request))
+        : Promise.resolve([]),
+      request.query
+        ? timed(trace.timings, "graphMs", () => this.#searchGraph(request))
+        : Promise.resolve([]),
     ]);
 
-    const merged = new Map<string, ScoredMemory>();
+    const merged = new Map<string, Omit<ScoredMemory, "score">>();
 
     for (const match of vectorResults) {
       merged.set(match.id, {
@@ -102,37 +499,50 @@ export class DefaultSearchService implements SearchService {
       }
     }
 
-    return Array.from(merged.values()).sort(
-      (a, b) => this.#combineScores(b) - this.#combineScores(a),
-    );
-  }
-
-  async #searchFts(request: MemorySearchRequest): Promise<Array<{ id: string; score: number }>> {
-    const conditions: string[] = [];
-    const params: unknown[] = [];
-
-    if (request.layers?.length) {
-      conditions.push(`m.layer IN (${request.layers.map(() => "?").join(",")})`);
-      params.push(...request.layers);
+    for (const match of graphResults) {
+      const existing = merged.get(match.id);
+      if (existing) {
+        existing.graphScore = match.score;
+      } else {
+        merged.set(match.id, { id: match.id, graphScore: match.score });
+      }
     }
 
-    if (request.sessionId) {
-      conditions.push("m.session_id = ?");
-      params.push(request.sessionId);
+    const fusionStartedAt = performance.now();
+    const candidates = Array.from(merged.values());
+    const fusion = resolveFusion(this.#fusion, request.fusion);
+    const fused: ScoredMemory[] = fuseScores(candidates, fusion);
+    if (request.explain) {
+      const explanations = explainFusion(candidates, fusion);
+      for (const result of fused) {
+        result.explanation = explainHit(result, explanations.get(result.id)!);
+      }
+      const hits: Array<[FusionRetriever, unknown[]]> = [
+        ["vector", vectorResults],
+        ["text", textResults],
+        ["graph", graphResults],
+      ];
+      trace.retrievers = hits.filter(([, found]) => found.length > 0).map(([retriever]) => retriever);
     }
+    trace.timings.fusionMs = performance.now() - fusionStartedAt;
+    return fused;
+  }
 
-    if (request.episodeId) {
-      conditions.push("m.episode_id = ?");
-      params.push(request.episodeId);
-    }
+  /** Hits each retriever returns; reranking needs more than it keeps. */
+  #candidateLimit(request: MemorySearchRequest): number {
+    return request.diversity || blendsRanking(this.#rankingFor(request))
+      ? request.topK * RERANK_CANDIDATE_FACTOR
+      : request.topK;
+  }
 
-    let whereClause = "";
-    if (conditions.length) {
-      whereClause = `AND ${conditions.join(" AND ")}`;
+  async #searchFts(request: MemorySearchRequest): Promise<Array<{ id: string; score: number }>> {
+    const { conditions, params } = this.#memoryConditions(request);
+    const whereClause = `AND ${conditions.join(" AND ")}`;
+    const query = ftsQueryOf(request);
+    if (!query) {
+      return [];
     }
 
-    const query = this.#sanitizeFts(request.query ?? "");
-
     const rows = this.#sqlite.all<{ id: string; score: number }>(
       `
       SELECT m.id as id, bm25(fts_memories) as score
@@ -143,47 +553,211 @@ export class DefaultSearchService implements SearchService {
       ORDER BY score ASC
       LIMIT ?
       `,
-      [query, ...params, request.topK],
+      [query, ...params, this.#candidateLimit(request)],
     );
 
     return rows.map((row) => ({
       id: row.id,
-      // bm25 returns lower score for better match; invert to align with cosine
-      score: row.score !== 0 ? 1 / row.score : 1,
+      // bm25 is negative and lower for better matches; negate so higher is better.
+      score: -row.score,
     }));
   }
 
-  #sanitizeFts(input: string): string {
-    if (!input.trim()) {
-      return "*";
+  /**
+   * Finds the entities named in the query, expands them through `kg_edges` and returns the
+   * memories mentioning any entity reached. An entity scores its extraction confidence,
+   * multiplied by the edge weight and `GRAPH_HOP_DECAY` for every hop; a memory takes the
+   * best score among the entities it mentions.
+   */
+  async #searchGraph(request: MemorySearchRequest): Promise<Array<{ id: string; score: number }>> {
+    if (!this.#knowledgeRepository || !this.#entityExtractor) {
+      return [];
     }
-    return input
-      .trim()
-      .split(/\s+/)
-      .map((token) => `${token}*`)
-      .join(" ");
+
+    const entityScores = new Map<string, number>();
+    for (const extracted of await this.#entityExtractor.extract(request.query ?? "")) {
+      const name = extracted.name.trim();
+      if (!name) {
+        continue;
+      }
+      for (const entity of this.#knowledgeRepository.listByNameIgnoreCase(name, request.namespaces)) {
+        entityScores.set(entity.id, Math.max(entityScores.get(entity.id) ?? 0, extracted.confidence));
+      }
+    }
+
+    let frontier = new Map(entityScores);
+    for (let hop = 0; hop < (request.graphHops ?? this.#graphHops); hop += 1) {
+      const next = new Map<string, number>();
+      for (const [entityId, score] of frontier) {
+        for (const edge of this.#knowledgeRepository.listEdgesForEntity(entityId)) {
+          const neighbour = edge.src === entityId ? edge.dst : edge.src;
+          const weight = Math.min(Math.max(edge.weight ?? 1, 0), 1);
+          const reached = score * weight * GRAPH_HOP_DECAY;
+          if (reached <= (entityScores.get(neighbour) ?? 0)) {
+            continue;
+          }
+          if (!entityScores.has(neighbour) && entityScores.size >= MAX_GRAPH_ENTITIES) {
+            continue;
+          }
+          entityScores.set(neighbour, reached);
+          next.set(neighbour, reached);
+        }
+      }
+      frontier = next;
+    }
+
+    if (entityScores.size === 0) {
+      return [];
+    }
+
+    const { conditions, params } = this.#memoryConditions(request);
+    const entityIds = Array.from(entityScores.keys());
+    const rows = this.#sqlite.all<{ id: string; entity_id: string }>(
+      `
+      SELECT DISTINCT m.id as id, mn.entity_id as entity_id
+      FROM mentions mn
+      JOIN memories m ON m.id = mn.memory_id
+      WHERE mn.entity_id IN (${entityIds.map(() => "?").join(",")})
+      AND ${conditions.join(" AND ")}
+      `,
+      [...entityIds, ...params],
+    );
+
+    const memoryScores = new Map<string, number>();
+    for (const row of rows) {
+      const score = entityScores.get(row.entity_id) ?? 0;
+      memoryScores.set(row.id, Math.max(memoryScores.get(row.id) ?? 0, score));
+    }
+
+    return Array.from(memoryScores, ([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.#candidateLimit(request));
   }
 
-  #combineScores(result: ScoredMemory): number {
-    const vector = result.vectorScore ?? 0;
-    const text = result.textScore ?? 0;
-    if (vector && text) {
-      return vector * 0.7 + text * 0.3;
+  /** Predicates over `memories m` shared by the FTS and graph retrievers. */
+  #memoryConditions(request: MemorySearchRequest): SqlConditions {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (request.layers?.length) {
+      conditions.push(`m.layer IN (${request.layers.map(() => "?").join(",")})`);
+      params.push(...request.layers);
+    }
+
+    if (request.sessionId) {
+      conditions.push("m.session_id = ?");
+      params.push(request.sessionId);
     }
-    return vector || text;
+
+    if (request.episodeId) {
+      conditions.push("m.episode_id = ?");
+      params.push(request.episodeId);
+    }
+
+    if (request.minImportance !== undefined) {
+      conditions.push("m.importance >= ?");
+      params.push(request.minImportance);
+    }
+
+    conditions.push("m.deleted_at IS NULL");
+    conditions.push("(m.pinned = 1 OR m.expires_at IS NULL OR m.expires_at > ?)");
+    params.push(Date.now());
+
+    const filter = buildMemoryFilterSql(request, "m");
+    conditions.push(...filter.conditions);
+    params.push(...filter.params);
+
+    return { conditions, params };
   }
 
   #resolveSource(result: ScoredMemory): "vector" | "text" | "graph" {
-    if (result.vectorScore && result.textScore) {
+    if (result.vectorScore !== undefined) {
       return "vector";
     }
-    if (result.vectorScore) {
-      return "vector";
-    }
-    if (result.textScore) {
+    if (result.textScore !== undefined) {
       return "text";
     }
     return "graph";
   }
 }
 
+/** The MATCH expression for `request.query`; empty when it has no terms to match. */
+function ftsQueryOf(request: MemorySearchRequest): string {
+  return request.query ? toFtsQuery(request.query, request.queryMode, FTS_COLUMNS.memories) : "";
+}
+
+function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ");
+}
+
+/** When the first memory among `results` expires; pinned memories never do. */
+function earliestExpiry(results: HybridSearchResult[]): number | undefined {
+  let earliest: number | undefined;
+  for (const result of results) {
+    if (!result.pinned && result.expiresAt != null && (earliest === undefined || result.expiresAt < earliest)) {
+      earliest = result.expiresAt;
+    }
+  }
+  return earliest;
+}
+
+/** Stable key of a scoped request: normalized query, object keys in sorted order. */
+function cacheKey(request: MemorySearchRequest): string {
+  const normalized = { ...request, query: request.query ? normalizeQuery(request.query) : undefined };
+  return JSON.stringify(normalized, (_key, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+      : value,
+  );
+}
+
+async function timed<T>(
+  timings: SearchTimings,
+  stage: keyof SearchTimings,
+  run: () => Promise<T>,
+): Promise<T> {
+  const startedAt = performance.now();
+  try {
+    return await run();
+  } finally {
+    timings[stage] = performance.now() - startedAt;
+  }
+}
+
+function explainHit(result: ScoredMemory, fusion: FusionExplanation): MemorySearchHitExplanation {
+  const detail = (retriever: FusionRetriever) => ({
+    rank: fusion.ranks[retriever]!,
+    normalized: fusion.normalized[retriever]!,
+    contribution: fusion.contributions[retriever]!,
+  });
+  return {
+    retrievers: Object.keys(fusion.ranks) as FusionRetriever[],
+    vector:
+      result.vectorScore !== undefined
+        ? { ...detail("vector"), cosine: result.vectorScore }
+        : undefined,
+    // Text scores are negated bm25 ranks; the raw value is reported as FTS5 returns it.
+    text: result.textScore !== undefined ? { ...detail("text"), bm25: -result.textScore } : undefined,
+    graph:
+      result.graphScore !== undefined
+        ? { ...detail("graph"), pathWeight: result.graphScore }
+        : undefined,
+    fusion: fusion.formula,
+  };
+}
+
+/** The filters of a scoped request that narrowed the candidates, without unset ones. */
+function appliedFilters(request: MemorySearchRequest): Record<string, unknown> {
+  const filters = {
+    namespaces: request.namespaces,
+    layers: request.layers,
+    minImportance: request.minImportance,
+    sessionId: request.sessionId,
+    episodeId: request.episodeId,
+    createdAfter: request.createdAfter,
+    createdBefore: request.createdBefore,
+    updatedAfter: request.updatedAfter,
+    metadata: request.metadata,
+  };
+  return Object.fromEntries(Object.entries(filters).filter(([, value]) => value !== undefined));
+}
@@ -0,0 +1,160 @@
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { MemoryRepository } from "../repositories/memory-repository";
+import { SessionRepository } from "../repositories/session-repository";
+import type { SessionRecord } from "../repositories/types";
+import { MemoryRecordSchema, type MemoryRecordDTO } from "../schemas/memory";
+import {
+  SessionCloseRequestSchema,
+  SessionCloseResultSchema,
+  SessionDetailSchema,
+  SessionGetRequestSchema,
+  SessionListRequestSchema,
+  SessionSchema,
+  type SessionCloseRequest,
+  type SessionCloseResult,
+  type SessionDTO,
+  type SessionDetailDTO,
+  type SessionGetRequest,
+  type SessionListRequest,
+} from "../schemas/session";
+import { buildRollupSummary } from "./rollup";
+import type { MemoryService, SessionService, SummaryGenerator } from "./types";
+
+export interface SessionServiceDependencies {
+  sessionRepository: SessionRepository;
+  memoryRepository: MemoryRepository;
+  memoryService: MemoryService;
+  summaryGenerator?: SummaryGenerator;
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
+}
+
+export class DefaultSessionService implements SessionService {
+  #sessionRepository: SessionRepository;
+  #memoryRepository: MemoryRepository;
+  #memoryService: MemoryService;
+  #summaryGenerator?: SummaryGenerator;
+  #defaultNamespace: string;
+
+  constructor(deps: SessionServiceDependencies) {
+    this.#sessionRepository = deps.sessionRepository;
+    this.#memoryRepository = deps.memoryRepository;
+    this.#memoryService = deps.memoryService;
+    this.#summaryGenerator = deps.summaryGenerator;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+  }
+
+  async listSessions(input: SessionListRequest = {}): Promise<SessionDTO[]> {
+    const parsed = SessionListRequestSchema.parse(input);
+    const sessions = this.#sessionRepository.list(
+      {
+        namespace: parsed.namespace ?? this.#defaultNamespace,
+        status: parsed.status,
+        from: parsed.from,
+        to: parsed.to,
+      },
+      parsed.limit ?? 50,
+      parsed.offset ?? 0,
+    );
+    return sessions.map((session) => this.#toDto(session));
+  }
+
+  async getSession(input: SessionGetRequest): Promise<SessionDetailDTO | undefined> {
+    const parsed = SessionGetRequestSchema.parse(input);
+    const session = this.#sessionRepository.findById(
+      parsed.id,
+      parsed.namespace ?? this.#defaultNamespace,
+    );
+    if (!session) {
+      return undefined;
+    }
+
+    const memories = this.#memoryRepository
+      .listBySession(session.id, parsed.limit ?? 500, parsed.offset ?? 0, session.namespace)
+      .filter((memory) => memory.id !== session.summaryMemoryId);
+    const summary = session.summaryMemoryId
+      ? this.#memoryRepository.findById(session.summaryMemoryId)
+      : undefined;
+
+    return SessionDetailSchema.parse({
+      session: this.#toDto(session),
+      layerCounts: this.#sessionRepository.countByLayer(session.id, session.namespace),
+      memories: memories.map((memory) =>
+        MemoryRecordSchema.parse({
+          ...memory,
+          references: this.#memoryRepository.listReferences(memory.id),
+        }),
+      ),
+      summary,
+    });
+  }
+
+  async closeSession(input: SessionCloseRequest): Promise<SessionCloseResult> {
+    const parsed = SessionCloseRequestSchema.parse(input);
+    const session = this.#sessionRepository.findById(
+      parsed.id,
+      parsed.namespace ?? this.#defaultNamespace,
+    );
+    if (!session) {
+      throw new Error(`Session ${parsed.id} not found`);
+    }
+    if (session.closedAt) {
+      throw new Error(`Session ${parsed.id} already closed`);
+    }
+
+    let summary: MemoryRecordDTO | undefined;
+    if (parsed.summarize ?? Boolean(parsed.summary)) {
+      summary = await this.#createSummary(session, parsed);
+    }
+
+    const closed = this.#sessionRepository.close(
+      session.id,
+      Date.now(),
+      summary?.id ?? null,
+      session.namespace,
+    );
+    return SessionCloseResultSchema.parse({
+      session: this.#toDto(closed),
+      summary,
+    });
+  }
+
+  async #createSummary(
+    session: SessionRecord,
+    request: SessionCloseRequest,
+  ): Promise<MemoryRecordDTO | undefined> {
+    const memories = this.#memoryRepository.listBySession(session.id, 500, 0, session.namespace);
+    const content =
+      request.summary ??
+      (await buildRollupSummary(
+        `Session ${session.id} (${new Date(session.startedAt).toISOString()})`,
+        memories,
+        this.#summaryGenerator,
+      ));
+    if (!content) {
+      return undefined;
+    }
+
+    return this.#memoryService.addMemory({
+      namespace: session.namespace,
+      content,
+      layer: "episodic",
+      importance:
+        request.importance ??
+        Math.max(0.5, ...memories.map((memory) => memory.importance)),
+      sessionId: session.id,
+      metadata: {
+        kind: "session_summary",
+        memoryIds: memories.map((memory) => memory.id),
+      },
+    });
+  }
+
+  #toDto(session: SessionRecord): SessionDTO {
+    return SessionSchema.parse({
+      ...session,
+      status: session.closedAt ? "closed" : "open",
+      durationMs: session.lastActivityAt - session.startedAt,
+    });
+  }
+}
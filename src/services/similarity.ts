@@ -0,0 +1,15 @@
+/**
+ * Cosine similarity of two vectors, compared over their common length. 0 when either is
+ * all zeros.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let index = 0; index < Math.min(a.length, b.length); index += 1) {
+    dot += a[index]! * b[index]!;
+    normA += a[index]! * a[index]!;
+    normB += b[index]! * b[index]!;
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
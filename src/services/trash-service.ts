@@ -0,0 +1,211 @@
+import type { Config } from "../config";
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { DocumentChunkRepository } from "../repositories/document-chunk-repository";
+import { DocumentRepository } from "../repositories/document-repository";
+import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import { MemoryRepository } from "../repositories/memory-repository";
+import { TrashRepository } from "../repositories/trash-repository";
+import type { TrashItemRecord } from "../repositories/types";
+import {
+  TrashItemSchema,
+  TrashListRequestSchema,
+  TrashPurgeReportSchema,
+  TrashPurgeRequestSchema,
+  TrashRestoreRequestSchema,
+  type TrashItemDTO,
+  type TrashItemKind,
+  type TrashItemRef,
+  type TrashListRequest,
+  type TrashPurgeReport,
+  type TrashPurgeRequest,
+  type TrashRestoreRequest,
+} from "../schemas/trash";
+import type { VectraAdapter } from "../vector/vectra";
+import type { TrashService } from "./types";
+
+/** Trashed items removed per batch by `purge`. */
+const PURGE_BATCH_SIZE = 500;
+
+const TRASH_KINDS: TrashItemKind[] = ["memory", "document", "entity"];
+
+export interface TrashServiceDependencies {
+  trashRepository: TrashRepository;
+  memoryRepository: MemoryRepository;
+  documentRepository: DocumentRepository;
+  chunkRepository: DocumentChunkRepository;
+  knowledgeRepository: KnowledgeGraphRepository;
+  vectra: VectraAdapter;
+  settings: Config["trash"];
+  /** Namespace of calls that do not name one. */
+  defaultNamespace?: string;
+}
+
+export class DefaultTrashService implements TrashService {
+  #trashRepository: TrashRepository;
+  #memoryRepository: MemoryRepository;
+  #documentRepository: DocumentRepository;
+  #chunkRepository: DocumentChunkRepository;
+  #knowledgeRepository: KnowledgeGraphRepository;
+  #vectra: VectraAdapter;
+  #settings: Config["trash"];
+  #defaultNamespace: string;
+
+  constructor(deps: TrashServiceDependencies) {
+    this.#trashRepository = deps.trashRepository;
+    this.#memoryRepository = deps.memoryRepository;
+    this.#documentRepository = deps.documentRepository;
+    this.#chunkRepository = deps.chunkRepository;
+    this.#knowledgeRepository = deps.knowledgeRepository;
+    this.#vectra = deps.vectra;
+    this.#settings = deps.settings;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+  }
+
+  async list(input: TrashListRequest = {}): Promise<TrashItemDTO[]> {
+    const parsed = TrashListRequestSchema.parse(input);
+    return this.#trashRepository
+      .list(
+        { kinds: parsed.kinds, namespace: this.#scope(parsed) },
+        parsed.limit ?? 50,
+        parsed.offset ?? 0,
+      )
+      .map((item) => this.#toDto(item));
+  }
+
+  async restore(input: TrashRestoreRequest): Promise<TrashItemDTO> {
+    const parsed = TrashRestoreRequestSchema.parse(input);
+    const item = this.#requireTrashed(parsed, this.#scope(parsed));
+
+    switch (item.kind) {
+      case "memory":
+        this.#memoryRepository.untrash(item.id);
+        break;
+      case "document":
+        this.#documentRepository.untrash(item.id);
+        break;
+      case "entity":
+        this.#knowledgeRepository.untrashEntity(item.id);
+        break;
+    }
+
+    return this.#toDto(item);
+  }
+
+  /**
+   * Permanently deletes trashed items together with their vectors. Without `items`, every
+   * item of the namespace trashed longer than the grace period is purged; `allNamespaces`
+   * drains every namespace.
+   */
+  async purge(request: TrashPurgeRequest = {}): Promise<TrashPurgeReport> {
+    const parsed = TrashPurgeRequestSchema.parse(request);
+    const dryRun = parsed.dryRun ?? false;
+    const startedAt = Date.now();
+    const now = parsed.now ?? startedAt;
+    const namespace = this.#scope(parsed);
+
+    const report: TrashPurgeReport = {
+      startedAt,
+      completedAt: startedAt,
+      dryRun,
+      byKind: {},
+      purged: 0,
+    };
+
+    if (parsed.items) {
+      const items = parsed.items.map((ref) => this.#requireTrashed(ref, namespace));
+      for (const kind of TRASH_KINDS) {
+        const ids = items.filter((item) => item.kind === kind).map((item) => item.id);
+        if (ids.length) {
+          report.byKind[kind] = ids.length;
+          if (!dryRun) {
+            await this.#purgeIds(kind, ids);
+          }
+        }
+      }
+    } else {
+      const deletedBefore = now - (parsed.olderThanMs ?? this.#settings.gracePeriodMs);
+      for (const kind of TRASH_KINDS) {
+        report.byKind[kind] = await this.#drain(kind, deletedBefore, namespace, dryRun);
+      }
+    }
+
+    if (!dryRun) {
+      report.purged = Object.values(report.byKind).reduce((sum, count) => sum + count, 0);
+    }
+
+    report.completedAt = Date.now();
+    return TrashPurgeReportSchema.parse(report);
+  }
+
+  /**
+   * Purges every `kind` item trashed before `deletedBefore` in batches and returns how
+   * many matched. Purged rows drop out of the listing, so real runs always read from
+   * offset 0; dry runs page through instead.
+   */
+  async #drain(
+    kind: TrashItemKind,
+    deletedBefore: number,
+    namespace: string | undefined,
+    dryRun: boolean,
+  ): Promise<number> {
+    let matched = 0;
+
+    for (;;) {
+      const batch = this.#trashRepository.list(
+        { kinds: [kind], deletedBefore, namespace },
+        PURGE_BATCH_SIZE,
+        dryRun ? matched : 0,
+      );
+      matched += batch.length;
+
+      if (batch.length && !dryRun) {
+        await this.#purgeIds(kind, batch.map((item) => item.id));
+      }
+
+      if (batch.length < PURGE_BATCH_SIZE) {
+        return matched;
+      }
+    }
+  }
+
+  async #purgeIds(kind: TrashItemKind, ids: string[]): Promise<void> {
+    switch (kind) {
+      case "memory":
+        await this.#memoryRepository.deleteMany(ids);
+        await this.#vectra.deleteMemoryVectors(ids);
+        break;
+      case "document":
+        for (const id of ids) {
+          const chunkIds = this.#chunkRepository.listByDocument(id).map((chunk) => chunk.id);
+          this.#documentRepository.delete(id);
+          await this.#vectra.deleteDocumentVectors(chunkIds);
+        }
+        break;
+      case "entity":
+        for (const id of ids) {
+          this.#knowledgeRepository.deleteEntity(id);
+        }
+        break;
+    }
+  }
+
+  /** The namespace a request is limited to, or `undefined` for every namespace. */
+  #scope(request: { namespace?: string; allNamespaces?: boolean }): string | undefined {
+    return request.allNamespaces ? undefined : (request.namespace ?? this.#defaultNamespace);
+  }
+
+  #requireTrashed(ref: TrashItemRef, namespace: string | undefined): TrashItemRecord {
+    const item = this.#trashRepository.find(ref.kind, ref.id);
+    if (!item || (namespace !== undefined && item.namespace !== namespace)) {
+      throw new Error(`No trashed ${ref.kind} ${ref.id}`);
+    }
+    return item;
+  }
+
+  #toDto(item: TrashItemRecord): TrashItemDTO {
+    return TrashItemSchema.parse({
+      ...item,
+      purgeAfter: item.deletedAt + this.#settings.gracePeriodMs,
+    });
+  }
+}
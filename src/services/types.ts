@@ -1,11 +1,71 @@
-import type { DocumentChunkDTO, DocumentIngestionResult } from "../schemas/document";
 import type {
+  DocumentChunkDTO,
+  DocumentChunkHitDTO,
+  DocumentIngestionResult,
+  DocumentSearchChunksRequest,
+} from "../schemas/document";
+import type {
+  MemoryConsolidateRequest,
+  MemoryConsolidationReport,
+  MemoryDecayReport,
+  MemoryDecayRequest,
+  MemoryRetentionReport,
+  MemoryRetentionRequest,
+  MemoryAddBatchRequest,
+  MemoryAddBatchResult,
+  MemoryAddResult,
+  MemoryDiff,
+  MemoryDiffRequest,
+  MemoryHistory,
+  MemoryHistoryRequest,
+  MemoryLinkDocumentRequest,
+  MemoryGetRelatedRequest,
+  MemoryRelated,
+  MemoryRelateRequest,
+  MemoryRelationDTO,
+  MemoryUnlinkDocumentRequest,
+  MemoryRevertRequest,
+  MemoryFindDuplicatesRequest,
+  MemoryFindDuplicatesResult,
   MemoryRecordDTO,
+  MemorySearchExplained,
   MemorySearchRequest,
   MemorySearchResult,
 } from "../schemas/memory";
 import type { KnowledgeEntityDTO, KnowledgeEntityDetailDTO, KnowledgeEdgeDTO, KnowledgeGraphSnapshotDTO, KnowledgeEntityContextDTO, ExtractedEntity, KnowledgeGetEntityRequest, KnowledgeCreateEntityRequest, KnowledgeUpdateEntityRequest, KnowledgeDeleteEntityRequest, KnowledgeCreateRelationRequest, KnowledgeGetRelationsRequest, KnowledgeDeleteRelationRequest, KnowledgeSearchRelationsRequest, KnowledgeSearchEntitiesRequest, KnowledgeGetEntitiesByTypeRequest, KnowledgeGetEntitiesByTagRequest, KnowledgeTagEntityRequest, KnowledgeRemoveTagRequest, KnowledgeGetTagsRequest, KnowledgeReadGraphRequest, KnowledgeGetRelatedEntitiesRequest, KnowledgeFindPathRequest, KnowledgeGetEntityContextRequest, KnowledgeGetEntitiesInDocumentRequest, KnowledgeGetEntitiesInMemoryRequest } from "../schemas/knowledge";
-import type { HybridSearchResult } from "../schemas/search";
+import type { HybridSearchResult, SearchAllHit, SearchAllRequest } from "../schemas/search";
+import type {
+  EpisodeDTO,
+  EpisodeDetailDTO,
+  EpisodeEndRequest,
+  EpisodeEndResult,
+  EpisodeGetRequest,
+  EpisodeListRequest,
+  EpisodeStartRequest,
+  EpisodeTimelineDTO,
+  EpisodeTimelineRequest,
+} from "../schemas/episode";
+import type {
+  SessionCloseRequest,
+  SessionCloseResult,
+  SessionDTO,
+  SessionDetailDTO,
+  SessionGetRequest,
+  SessionListRequest,
+} from "../schemas/session";
+import type {
+  TrashItemDTO,
+  TrashListRequest,
+  TrashPurgeReport,
+  TrashPurgeRequest,
+  TrashRestoreRequest,
+} from "../schemas/trash";
+import type {
+  NamespaceListRequest,
+  NamespaceStatsDTO,
+  NamespaceStatsRequest,
+  NamespaceSummaryDTO,
+} from "../schemas/namespace";
 import type { MemoryMetricDTO } from "../schemas/analytics";
 
 export interface EmbeddingProvider {
@@ -33,8 +93,13 @@ export interface EntityExtractor {
   extract(text: string): Promise<ExtractedEntity[]>;
 }
 
+/**
+ * Calls that take an optional `namespace` act on the configured default namespace without
+ * one; records of other namespaces are treated as missing.
+ */
 export interface DocumentService {
   ingest(request: {
+    namespace?: string;
     path?: string;
     mime?: string;
     content?: string;
@@ -54,17 +119,19 @@ export interface DocumentService {
     };
   }): Promise<DocumentIngestionResult>;
 
-  getDocument(id: string): Promise<DocumentIngestionResult["document"] | undefined>;
-  listDocuments(limit?: number, offset?: number): Promise<DocumentIngestionResult["document"][]>;
-  updateDocument(input: { id: string; metadata?: Record<string, unknown>; title?: string }): Promise<DocumentIngestionResult["document"]>;
-  deleteDocument(input: { id: string }): Promise<void>;
-  searchDocuments(input: { query: string; limit?: number; offset?: number }): Promise<DocumentIngestionResult["document"][]>;
-  getDocumentReferences(input: { docId: string }): Promise<any[]>;
-  analyzeDocument(input: { docId: string }): Promise<any>;
+  getDocument(id: string, namespace?: string): Promise<DocumentIngestionResult["document"] | undefined>;
+  listDocuments(limit?: number, offset?: number, namespace?: string): Promise<DocumentIngestionResult["document"][]>;
+  updateDocument(input: { id: string; namespace?: string; metadata?: Record<string, unknown>; title?: string }): Promise<DocumentIngestionResult["document"]>;
+  deleteDocument(input: { id: string; namespace?: string }): Promise<void>;
+  searchDocuments(input: { query: string; namespace?: string; limit?: number; offset?: number }): Promise<DocumentIngestionResult["document"][]>;
+  searchChunks(input: DocumentSearchChunksRequest): Promise<DocumentChunkHitDTO[]>;
+  getDocumentReferences(input: { docId: string; namespace?: string }): Promise<any[]>;
+  analyzeDocument(input: { docId: string; namespace?: string }): Promise<any>;
 }
 
 export interface MemoryService {
   addMemory(input: {
+    namespace?: string;
     content: string;
     layer: MemoryRecordDTO["layer"];
     metadata?: Record<string, unknown>;
@@ -72,20 +139,77 @@ export interface MemoryService {
     sessionId?: string;
     episodeId?: string;
     summary?: string;
+    expiresAt?: number;
     queryVector?: number[];
-  }): Promise<MemoryRecordDTO>;
+    dedupe?: boolean;
+    dedupeThreshold?: number;
+  }): Promise<MemoryAddResult>;
 
-  updateMemory(id: string, patch: Partial<MemoryRecordDTO>): Promise<MemoryRecordDTO>;
-  deleteMemory(id: string): Promise<void>;
+  addMemories(input: MemoryAddBatchRequest): Promise<MemoryAddBatchResult>;
+  /** Pinned memories are only updated or deleted with `force`. */
+  updateMemory(
+    id: string,
+    patch: Partial<MemoryRecordDTO>,
+    options?: { force?: boolean; namespace?: string },
+  ): Promise<MemoryRecordDTO>;
+  deleteMemory(id: string, options?: { force?: boolean; namespace?: string }): Promise<void>;
+  linkDocument(input: MemoryLinkDocumentRequest): Promise<MemoryRecordDTO>;
+  unlinkDocument(input: MemoryUnlinkDocumentRequest): Promise<MemoryRecordDTO>;
+  relateMemories(input: MemoryRelateRequest): Promise<MemoryRelationDTO>;
+  getRelated(input: MemoryGetRelatedRequest): Promise<MemoryRelated>;
   searchMemories(request: MemorySearchRequest): Promise<MemorySearchResult[]>;
-  getMemory(input: { id: string }): Promise<MemoryRecordDTO | undefined>;
-  getMemoriesByEntity(input: { entityId: string; limit?: number; offset?: number }): Promise<MemoryRecordDTO[]>;
-  getMemoriesByDocument(input: { docId: string; limit?: number; offset?: number }): Promise<MemoryRecordDTO[]>;
+  explainSearch(request: MemorySearchRequest): Promise<MemorySearchExplained>;
+  getMemory(input: { id: string; namespace?: string }): Promise<MemoryRecordDTO | undefined>;
+  getMemoriesByEntity(input: { entityId: string; namespace?: string; limit?: number; offset?: number }): Promise<MemoryRecordDTO[]>;
+  getMemoriesByDocument(input: { docId: string; namespace?: string; limit?: number; offset?: number }): Promise<MemoryRecordDTO[]>;
+  findDuplicates(input?: MemoryFindDuplicatesRequest): Promise<MemoryFindDuplicatesResult>;
+  getHistory(input: MemoryHistoryRequest): Promise<MemoryHistory>;
+  diffRevisions(input: MemoryDiffRequest): Promise<MemoryDiff>;
+  revertMemory(input: MemoryRevertRequest): Promise<MemoryRecordDTO>;
+}
+
+export interface ConsolidationService {
+  consolidate(request?: MemoryConsolidateRequest): Promise<MemoryConsolidationReport>;
+}
+
+export interface EpisodeService {
+  startEpisode(input: EpisodeStartRequest): Promise<EpisodeDTO>;
+  endEpisode(input: EpisodeEndRequest): Promise<EpisodeEndResult>;
+  listEpisodes(input?: EpisodeListRequest): Promise<EpisodeDTO[]>;
+  getEpisode(input: EpisodeGetRequest): Promise<EpisodeDetailDTO | undefined>;
+  getTimeline(input?: EpisodeTimelineRequest): Promise<EpisodeTimelineDTO>;
+}
+
+export interface SessionService {
+  listSessions(input?: SessionListRequest): Promise<SessionDTO[]>;
+  getSession(input: SessionGetRequest): Promise<SessionDetailDTO | undefined>;
+  closeSession(input: SessionCloseRequest): Promise<SessionCloseResult>;
+}
+
+export interface DecayService {
+  applyDecay(request?: MemoryDecayRequest): Promise<MemoryDecayReport>;
+}
+
+export interface RetentionService {
+  purge(request?: MemoryRetentionRequest): Promise<MemoryRetentionReport>;
+}
+
+/** Deletes of memories, documents and entities are soft until the trash is purged. */
+export interface TrashService {
+  list(input?: TrashListRequest): Promise<TrashItemDTO[]>;
+  restore(input: TrashRestoreRequest): Promise<TrashItemDTO>;
+  purge(request?: TrashPurgeRequest): Promise<TrashPurgeReport>;
+}
+
+/** Namespaces exist implicitly while any memory, document or entity uses them. */
+export interface NamespaceService {
+  list(input?: NamespaceListRequest): Promise<NamespaceSummaryDTO[]>;
+  stats(input?: NamespaceStatsRequest): Promise<NamespaceStatsDTO>;
 }
 
 export interface KnowledgeGraphService {
-  ensureEntities(entities: ExtractedEntity[], context: { docId?: string }): Promise<KnowledgeEntityDTO[]>;
-  listEntities(limit?: number, offset?: number): Promise<KnowledgeEntityDTO[]>;
+  ensureEntities(entities: ExtractedEntity[], context: { docId?: string; namespace?: string }): Promise<KnowledgeEntityDTO[]>;
+  listEntities(limit?: number, offset?: number, namespace?: string): Promise<KnowledgeEntityDTO[]>;
   getEntity(request: KnowledgeGetEntityRequest): Promise<KnowledgeEntityDetailDTO | undefined>;
   createEntity(input: KnowledgeCreateEntityRequest): Promise<KnowledgeEntityDTO>;
   updateEntity(input: KnowledgeUpdateEntityRequest): Promise<KnowledgeEntityDTO>;
@@ -110,6 +234,13 @@ export interface KnowledgeGraphService {
 
 export interface SearchService {
   searchMemories(request: MemorySearchRequest): Promise<HybridSearchResult[]>;
+  /** Like `searchMemories` with `explain` set, plus the FTS query, fusion, filters and timings. */
+  explainSearch(request: MemorySearchRequest): Promise<MemorySearchExplained>;
+}
+
+/** One ranked list over memories, document chunks and entities. */
+export interface UnifiedSearchService {
+  searchAll(request: SearchAllRequest): Promise<SearchAllHit[]>;
 }
 
 export interface AnalyticsService {
@@ -139,8 +270,16 @@ export interface SystemService {
 export interface ServiceRegistry {
   document: DocumentService;
   memory: MemoryService;
+  consolidation: ConsolidationService;
+  decay: DecayService;
+  retention: RetentionService;
+  trash: TrashService;
+  namespace: NamespaceService;
+  episode: EpisodeService;
+  session: SessionService;
   knowledge: KnowledgeGraphService;
   search: SearchService;
+  unifiedSearch: UnifiedSearchService;
   analytics: AnalyticsService;
   system: SystemService;
 }
@@ -0,0 +1,162 @@
+import { DEFAULT_NAMESPACE } from "../repositories/base";
+import { FTS_COLUMNS, toFtsQuery } from "../repositories/fts";
+import { KnowledgeGraphRepository } from "../repositories/knowledge-graph-repository";
+import { KnowledgeEntitySchema } from "../schemas/knowledge";
+import {
+  SearchAllHitSchema,
+  SearchAllRequestSchema,
+  type SearchAllHit,
+  type SearchAllRequest,
+  type SearchHitType,
+} from "../schemas/search";
+import { DEFAULT_FUSION, fuseScores, type FusionOptions } from "./fusion";
+import type {
+  DocumentService,
+  EmbeddingProvider,
+  MemoryService,
+  UnifiedSearchService,
+} from "./types";
+
+export interface UnifiedSearchServiceDependencies {
+  memoryService: MemoryService;
+  documentService: DocumentService;
+  knowledgeRepository: KnowledgeGraphRepository;
+  embeddings: EmbeddingProvider;
+  /** Namespace searched when a request names none. */
+  defaultNamespace?: string;
+  /**
+   * Ranks entity hits; memories and chunks are ranked by the search and document services,
+   * which should be given the same fusion.
+   */
+  fusion?: FusionOptions;
+}
+
+const HIT_TYPES: SearchHitType[] = ["memory", "chunk", "entity"];
+
+/**
+ * Searches memories, document chunks and entities in one call. Each type is ranked by its
+ * own retrievers and fused with the same strategy, so scores are comparable across types
+ * (under RRF a hit found by several retrievers outranks one found by a single retriever).
+ * Memories are ranked with the `relevance` profile: chunks and entities have no importance
+ * to blend, and a blended memory score is on a different scale than their fused scores.
+ */
+export class DefaultUnifiedSearchService implements UnifiedSearchService {
+  #memoryService: MemoryService;
+  #documentService: DocumentService;
+  #knowledgeRepository: KnowledgeGraphRepository;
+  #embeddings: EmbeddingProvider;
+  #defaultNamespace: string;
+  #fusion: FusionOptions;
+
+  constructor(deps: UnifiedSearchServiceDependencies) {
+    this.#memoryService = deps.memoryService;
+    this.#documentService = deps.documentService;
+    this.#knowledgeRepository = deps.knowledgeRepository;
+    this.#embeddings = deps.embeddings;
+    this.#defaultNamespace = deps.defaultNamespace ?? DEFAULT_NAMESPACE;
+    this.#fusion = deps.fusion ?? DEFAULT_FUSION;
+  }
+
+  async searchAll(request: SearchAllRequest): Promise<SearchAllHit[]> {
+    const parsed = SearchAllRequestSchema.parse(request);
+    const types = new Set(parsed.types ?? HIT_TYPES);
+    const namespaces = parsed.allNamespaces
+      ? undefined
+      : (parsed.namespaces ?? [parsed.namespace ?? this.#defaultNamespace]);
+    const limitFor = (type: SearchHitType) => Math.min(parsed.quotas?.[type] ?? parsed.topK, parsed.topK);
+
+    const needsVector = types.has("memory") || types.has("chunk");
+    const [queryVector] = needsVector ? await this.#embeddings.embed([parsed.query]) : [];
+
+    const [memories, chunks, entities] = await Promise.all([
+      types.has("memory") && limitFor("memory") > 0
+        ? this.#searchMemories(parsed, namespaces, queryVector, limitFor("memory"))
+        : Promise.resolve([]),
+      types.has("chunk") && limitFor("chunk") > 0
+        ? this.#searchChunks(parsed, namespaces, queryVector, limitFor("chunk"))
+        : Promise.resolve([]),
+      types.has("entity") && limitFor("entity") > 0
+        ? this.#searchEntities(parsed, namespaces, limitFor("entity"))
+        : Promise.resolve([]),
+    ]);
+
+    // Each list is at most its quota long, so merging by score only has to respect topK.
+    return [...memories, ...chunks, ...entities]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, parsed.topK)
+      .map((hit) => SearchAllHitSchema.parse(hit));
+  }
+
+  async #searchMemories(
+    request: SearchAllRequest,
+    namespaces: string[] | undefined,
+    queryVector: number[] | undefined,
+    limit: number,
+  ): Promise<SearchAllHit[]> {
+    const results = await this.#memoryService.searchMemories({
+      query: request.query,
+      queryMode: request.queryMode,
+      queryVector,
+      topK: limit,
+      namespaces,
+      allNamespaces: namespaces === undefined,
+      includeReferences: false,
+      profile: "relevance",
+    });
+    return results.map((memory) => ({
+      type: "memory",
+      id: memory.id,
+      score: memory.score,
+      memory,
+    }));
+  }
+
+  async #searchChunks(
+    request: SearchAllRequest,
+    namespaces: string[] | undefined,
+    queryVector: number[] | undefined,
+    limit: number,
+  ): Promise<SearchAllHit[]> {
+    const hits = await this.#documentService.searchChunks({
+      query: request.query,
+      queryMode: request.queryMode,
+      queryVector,
+      topK: limit,
+      namespaces,
+      allNamespaces: namespaces === undefined,
+      context: 0,
+    });
+    return hits.map((hit) => ({
+      type: "chunk",
+      id: hit.chunk.id,
+      score: hit.score,
+      vectorScore: hit.vectorScore,
+      textScore: hit.textScore,
+      chunk: hit.chunk,
+      document: hit.document,
+    }));
+  }
+
+  async #searchEntities(
+    request: SearchAllRequest,
+    namespaces: string[] | undefined,
+    limit: number,
+  ): Promise<SearchAllHit[]> {
+    const query = toFtsQuery(request.query, request.queryMode, FTS_COLUMNS.entities);
+    if (!query) {
+      return [];
+    }
+    const matches = this.#knowledgeRepository.searchEntitiesFullText(query, limit, namespaces);
+    const entities = new Map(matches.map(({ entity }) => [entity.id, entity]));
+    return fuseScores(
+      matches.map(({ entity, score }) => ({ id: entity.id, textScore: score })),
+      this.#fusion,
+    ).map((candidate) => ({
+      type: "entity",
+      id: candidate.id,
+      score: candidate.score,
+      textScore: candidate.textScore,
+      entity: KnowledgeEntitySchema.parse(entities.get(candidate.id)),
+    }));
+  }
+}
@@ -9,13 +9,18 @@ import type { MemoryLayer } from "../repositories/types";
 
 type MemoryVectorMetadata = {
   memoryId: string;
+  namespace: string;
   layer: MemoryLayer;
   importance: number;
+  // Absent when the memory belongs to no session or episode.
+  sessionId?: string;
+  episodeId?: string;
 };
 
 type DocumentVectorMetadata = {
   chunkId: string;
   docId: string;
+  namespace: string;
   positionStart: number;
   positionEnd: number;
   page?: number;
@@ -30,14 +35,18 @@ export interface VectraAdapterOptions {
 
 export interface UpsertMemoryVectorInput {
   memoryId: string;
+  namespace: string;
   vector: number[];
   layer: MemoryLayer;
   importance: number;
+  sessionId?: string | null;
+  episodeId?: string | null;
 }
 
 export interface UpsertDocumentVectorInput {
   chunkId: string;
   docId: string;
+  namespace: string;
   vector: number[];
   positionStart: number;
   positionEnd: number;
@@ -45,10 +54,30 @@ export interface UpsertDocumentVectorInput {
   layer?: string;
 }
 
+export interface MemoryVectorMetadataUpdate {
+  memoryId: string;
+  /** Keys set to `undefined` are removed from the stored metadata. */
+  metadata: Partial<Omit<MemoryVectorMetadata, "memoryId">>;
+}
+
+/** Session and episode a memory currently belongs to, as recorded in SQLite. */
+export interface MemoryScopeAssignment {
+  memoryId: string;
+  sessionId?: string | null;
+  episodeId?: string | null;
+}
+
 export interface MemoryQueryOptions {
   topK?: number;
-  layer?: MemoryLayer;
+  /** Restricts matches to these namespaces; every namespace matches when omitted. */
+  namespaces?: string[];
+  /** Restricts matches to any of these layers. */
+  layers?: MemoryLayer[];
+  sessionId?: string;
+  episodeId?: string;
   minImportance?: number;
+  /** Restricts matches to these memories; an empty list matches nothing. */
+  memoryIds?: string[];
   metadataFilter?: MetadataFilter;
   query?: string;
   useKeywordFallback?: boolean;
@@ -56,6 +85,7 @@ export interface MemoryQueryOptions {
 
 export interface DocumentQueryOptions {
   topK?: number;
+  namespaces?: string[];
   docId?: string;
   layer?: string;
   metadataFilter?: MetadataFilter;
@@ -73,7 +103,7 @@ export class VectraAdapter {
   readonly #options: Required<VectraAdapterOptions>;
   #memoryIndex!: LocalIndex<MemoryVectorMetadata>;
   #documentIndex!: LocalIndex<DocumentVectorMetadata>;
-  #initialized = false;
+  #initializing?: Promise<void>;
 
   constructor(options: VectraAdapterOptions) {
     this.#options = {
@@ -83,11 +113,16 @@ export class VectraAdapter {
     };
   }
 
-  async initialize(): Promise<void> {
-    if (this.#initialized) {
-      return;
-    }
+  initialize(): Promise<void> {
+    // Share one in-flight initialization so concurrent callers don't race on createIndex.
+    this.#initializing ??= this.#createIndexes().catch((error) => {
+      this.#initializing = undefined;
+      throw error;
+    });
+    return this.#initializing;
+  }
 
+  async #createIndexes(): Promise<void> {
     const vectorsRoot = path.resolve(this.#options.dataRoot, "vectors");
     const memoryPath = path.join(vectorsRoot, this.#options.memoryCollection);
     const documentPath = path.join(vectorsRoot, this.#options.documentCollection);
@@ -105,8 +140,6 @@ export class VectraAdapter {
     if (!(await this.#documentIndex.isIndexCreated())) {
       await this.#documentIndex.createIndex({ version: 1 });
     }
-
-    this.#initialized = true;
   }
 
   async upsertMemoryVector(input: UpsertMemoryVectorInput): Promise<void> {
@@ -114,15 +147,37 @@ export class VectraAdapter {
 
     await this.#memoryIndex.upsertItem({
       id: input.memoryId,
-      metadata: {
-        memoryId: input.memoryId,
-        layer: input.layer,
-        importance: input.importance,
-      },
+      metadata: toMemoryMetadata(input),
       vector: input.vector,
     });
   }
 
+  /**
+   * Upserts many memory vectors as a single index update so the collection is only
+   * rewritten once.
+   */
+  async upsertMemoryVectors(inputs: UpsertMemoryVectorInput[]): Promise<void> {
+    await this.initialize();
+    if (inputs.length === 0) {
+      return;
+    }
+
+    await this.#memoryIndex.beginUpdate();
+    try {
+      for (const input of inputs) {
+        await this.#memoryIndex.upsertItem({
+          id: input.memoryId,
+          metadata: toMemoryMetadata(input),
+          vector: input.vector,
+        });
+      }
+      await this.#memoryIndex.endUpdate();
+    } catch (error) {
+      this.#memoryIndex.cancelUpdate();
+      throw error;
+    }
+  }
+
   async upsertDocumentVector(input: UpsertDocumentVectorInput): Promise<void> {
     await this.initialize();
 
@@ -131,6 +186,7 @@ export class VectraAdapter {
       metadata: {
         chunkId: input.chunkId,
         docId: input.docId,
+        namespace: input.namespace,
         positionStart: input.positionStart,
         positionEnd: input.positionEnd,
         ...(typeof input.page === "number" ? { page: input.page } : {}),
@@ -140,26 +196,182 @@ export class VectraAdapter {
     });
   }
 
+  async getMemoryVector(
+    memoryId: string,
+  ): Promise<{ vector: number[]; metadata: MemoryVectorMetadata } | undefined> {
+    await this.initialize();
+    const item = await this.#memoryIndex.getItem(memoryId);
+    if (!item) {
+      return undefined;
+    }
+    return { vector: item.vector, metadata: item.metadata };
+  }
+
+  /** Stored vectors of the given memories; ids without a vector are left out. */
+  async getMemoryVectors(memoryIds: string[]): Promise<Map<string, number[]>> {
+    await this.initialize();
+    return collectVectors(this.#memoryIndex, memoryIds);
+  }
+
+  /** Stored vectors of the given document chunks; ids without a vector are left out. */
+  async getDocumentVectors(chunkIds: string[]): Promise<Map<string, number[]>> {
+    await this.initialize();
+    return collectVectors(this.#documentIndex, chunkIds);
+  }
+
+  /**
+   * Patches metadata of existing memory vectors without re-embedding. Runs as a single
+   * index update so bulk patches only rewrite the collection once. Returns the number
+   * of vectors that were found and updated.
+   */
+  async updateMemoryMetadata(updates: MemoryVectorMetadataUpdate[]): Promise<number> {
+    await this.initialize();
+    if (updates.length === 0) {
+      return 0;
+    }
+
+    const items = new Map(
+      (await this.#memoryIndex.listItems()).map((item) => [item.id, item]),
+    );
+
+    let updated = 0;
+    await this.#memoryIndex.beginUpdate();
+    try {
+      for (const update of updates) {
+        const item = items.get(update.memoryId);
+        if (!item) {
+          continue;
+        }
+        await this.#memoryIndex.upsertItem({
+          id: item.id,
+          vector: item.vector,
+          metadata: stripUndefined({ ...item.metadata, ...update.metadata }),
+        });
+        updated += 1;
+      }
+      await this.#memoryIndex.endUpdate();
+    } catch (error) {
+      this.#memoryIndex.cancelUpdate();
+      throw error;
+    }
+
+    return updated;
+  }
+
+  /**
+   * Stamps `namespace` onto memory and document vectors written before vectors carried
+   * one. Those rows all belong to the namespace existing data was migrated into, so no
+   * lookup is needed. Returns how many vectors of each collection were updated.
+   */
+  async backfillNamespace(
+    namespace: string,
+  ): Promise<{ memories: number; docChunks: number }> {
+    await this.initialize();
+    return {
+      memories: await stampNamespace(this.#memoryIndex, namespace),
+      docChunks: await stampNamespace(this.#documentIndex, namespace),
+    };
+  }
+
+  /**
+   * Brings the session and episode ids of memory vectors in line with `assignments`, for
+   * vectors written before they carried them. Only vectors that differ are rewritten;
+   * returns how many were.
+   */
+  async backfillMemoryScopes(assignments: MemoryScopeAssignment[]): Promise<number> {
+    await this.initialize();
+    if (assignments.length === 0) {
+      return 0;
+    }
+
+    const items = new Map(
+      (await this.#memoryIndex.listItems()).map((item) => [item.id, item]),
+    );
+    const stale = assignments.filter((assignment) => {
+      const metadata = items.get(assignment.memoryId)?.metadata;
+      return (
+        metadata !== undefined &&
+        (metadata.sessionId !== (assignment.sessionId ?? undefined) ||
+          metadata.episodeId !== (assignment.episodeId ?? undefined))
+      );
+    });
+
+    return this.updateMemoryMetadata(
+      stale.map((assignment) => ({
+        memoryId: assignment.memoryId,
+        metadata: {
+          sessionId: assignment.sessionId ?? undefined,
+          episodeId: assignment.episodeId ?? undefined,
+        },
+      })),
+    );
+  }
+
   async deleteMemoryVector(memoryId: string): Promise<void> {
     await this.initialize();
     await this.#memoryIndex.deleteItem(memoryId);
   }
 
+  /** Deletes several memory vectors in a single index update. */
+  async deleteMemoryVectors(memoryIds: string[]): Promise<void> {
+    await this.initialize();
+    if (memoryIds.length === 0) {
+      return;
+    }
+
+    await this.#memoryIndex.beginUpdate();
+    try {
+      for (const memoryId of memoryIds) {
+        await this.#memoryIndex.deleteItem(memoryId);
+      }
+      await this.#memoryIndex.endUpdate();
+    } catch (error) {
+      this.#memoryIndex.cancelUpdate();
+      throw error;
+    }
+  }
+
   async deleteDocumentVector(chunkId: string): Promise<void> {
     await this.initialize();
     await this.#documentIndex.deleteItem(chunkId);
   }
 
+  /** Deletes several document chunk vectors in a single index update. */
+  async deleteDocumentVectors(chunkIds: string[]): Promise<void> {
+    await this.initialize();
+    if (chunkIds.length === 0) {
+      return;
+    }
+
+    await this.#documentIndex.beginUpdate();
+    try {
+      for (const chunkId of chunkIds) {
+        await this.#documentIndex.deleteItem(chunkId);
+      }
+      await this.#documentIndex.endUpdate();
+    } catch (error) {
+      this.#documentIndex.cancelUpdate();
+      throw error;
+    }
+  }
+
   async queryMemories(
     vector: number[],
     options: MemoryQueryOptions = {},
   ): Promise<VectorQueryResult<MemoryVectorMetadata>[]> {
     await this.initialize();
+    if (options.memoryIds?.length === 0) {
+      return [];
+    }
 
     const topK = options.topK ?? 20;
     const filter = mergeFilters([
       options.metadataFilter,
-      options.layer ? makeEqFilter("layer", options.layer) : undefined,
+      options.namespaces ? makeInFilter("namespace", options.namespaces) : undefined,
+      options.memoryIds ? makeInFilter("memoryId", options.memoryIds) : undefined,
+      options.layers?.length ? makeInFilter("layer", options.layers) : undefined,
+      options.sessionId ? makeEqFilter("sessionId", options.sessionId) : undefined,
+      options.episodeId ? makeEqFilter("episodeId", options.episodeId) : undefined,
       typeof options.minImportance === "number"
         ? makeGteFilter("importance", options.minImportance)
         : undefined,
@@ -185,6 +397,7 @@ export class VectraAdapter {
     const topK = options.topK ?? 20;
     const filter = mergeFilters([
       options.metadataFilter,
+      options.namespaces ? makeInFilter("namespace", options.namespaces) : undefined,
       options.docId ? makeEqFilter("docId", options.docId) : undefined,
       options.layer ? makeEqFilter("layer", options.layer) : undefined,
     ]);
@@ -229,6 +442,57 @@ export class VectraAdapter {
   }
 }
 
+function toMemoryMetadata(input: UpsertMemoryVectorInput): MemoryVectorMetadata {
+  return stripUndefined({
+    memoryId: input.memoryId,
+    namespace: input.namespace,
+    layer: input.layer,
+    importance: input.importance,
+    sessionId: input.sessionId ?? undefined,
+    episodeId: input.episodeId ?? undefined,
+  });
+}
+
+async function stampNamespace<TMetadata extends { namespace: string }>(
+  index: LocalIndex<TMetadata>,
+  namespace: string,
+): Promise<number> {
+  const missing = (await index.listItems()).filter((item) => !item.metadata.namespace);
+  if (missing.length === 0) {
+    return 0;
+  }
+
+  await index.beginUpdate();
+  try {
+    for (const item of missing) {
+      await index.upsertItem({
+        id: item.id,
+        vector: item.vector,
+        metadata: { ...item.metadata, namespace },
+      });
+    }
+    await index.endUpdate();
+  } catch (error) {
+    index.cancelUpdate();
+    throw error;
+  }
+  return missing.length;
+}
+
+async function collectVectors<TMetadata extends { namespace: string }>(
+  index: LocalIndex<TMetadata>,
+  ids: string[],
+): Promise<Map<string, number[]>> {
+  const vectors = new Map<string, number[]>();
+  for (const id of new Set(ids)) {
+    const item = await index.getItem(id);
+    if (item) {
+      vectors.set(id, item.vector);
+    }
+  }
+  return vectors;
+}
+
 function mapResults<TMetadata>(
   results: QueryResult<TMetadata>[],
 ): VectorQueryResult<TMetadata>[] {
@@ -246,6 +510,13 @@ function makeEqFilter(
   return { [key]: { $eq: value } } as MetadataFilter;
 }
 
+function makeInFilter(
+  key: string,
+  values: Array<string | number>,
+): MetadataFilter {
+  return { [key]: { $in: values } } as MetadataFilter;
+}
+
 function makeGteFilter(
   key: string,
   value: number,
@@ -253,6 +524,12 @@ function makeGteFilter(
   return { [key]: { $gte: value } } as MetadataFilter;
 }
 
+function stripUndefined<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
+
 function mergeFilters(filters: Array<MetadataFilter | undefined>): MetadataFilter | undefined {
   const defined = filters.filter(
     (filter): filter is MetadataFilter => Boolean(filter),
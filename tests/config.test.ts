@@ -49,6 +49,37 @@ describe("loadConfig", () => {
     expect(config.jobs.cleanupCron).toBe("30 2 * * 0");
     expect(config.jobs.reindexCron).toBe("0 4 * * *");
     expect(config.jobs.metricsCron).toBe("*/15 * * * *");
+    expect(config.consolidation.batchSize).toBe(500);
+    expect(config.consolidation.minAgeMs).toBe(3_600_000);
+    expect(config.consolidation.promoteThreshold).toBe(0.6);
+    expect(config.consolidation.duplicateThreshold).toBe(0.95);
+    expect(config.jobs.decayCron).toBe("30 * * * *");
+    expect(config.decay.curve).toBe("exponential");
+    expect(config.decay.halfLifeMs).toBe(2_592_000_000);
+    expect(config.decay.floor).toBe(0.05);
+    expect(config.decay.reinforcement).toBe(0.05);
+    expect(config.dedupe.enabled).toBe(false);
+    expect(config.dedupe.threshold).toBe(0.92);
+    expect(config.namespace.default).toBe("default");
+    expect(config.search).toEqual({
+      fusion: "rrf",
+      rrfK: 60,
+      weights: { vector: 0.7, text: 0.3, graph: 0.2 },
+      graphHops: 2,
+      ranking: {
+        profile: "relevance",
+        profiles: {
+          relevance: { recencyWeight: 0, importanceWeight: 0, halfLifeMs: 2_592_000_000 },
+          recent: { recencyWeight: 0.5, importanceWeight: 0.1, halfLifeMs: 604_800_000 },
+          important: { recencyWeight: 0.1, importanceWeight: 0.5, halfLifeMs: 2_592_000_000 },
+          balanced: { recencyWeight: 0.25, importanceWeight: 0.25, halfLifeMs: 2_592_000_000 },
+        },
+      },
+      cache: { resultEntries: 500, embeddingEntries: 1_000, ttlMs: 300_000 },
+    });
+    expect(config.jobs.retentionCron).toBe("15 3 * * *");
+    expect(config.retention.layers.stm).toBeNull();
+    expect(config.retention.layers.ltm).toBeNull();
   });
 
   it("applies environment variable overrides", () => {
@@ -71,6 +102,30 @@ describe("loadConfig", () => {
           CRON_CLEANUP: "15 2 * * 1",
           CRON_REINDEX: "0 5 * * *",
           CRON_METRICS: "*/30 * * * *",
+          CONSOLIDATE_BATCH_SIZE: "50",
+          CONSOLIDATE_PROMOTE_THRESHOLD: "0.75",
+          CRON_DECAY: "0 */6 * * *",
+          DECAY_CURVE: "linear",
+          DECAY_HALF_LIFE_MS: "86400000",
+          DECAY_REINFORCEMENT: "0.2",
+          MEMORY_DEDUPE: "true",
+          MEMORY_DEDUPE_THRESHOLD: "0.85",
+          DEFAULT_NAMESPACE: "work",
+          SEARCH_FUSION: "weighted",
+          SEARCH_WEIGHT_VECTOR: "0.5",
+          SEARCH_WEIGHT_TEXT: "0.5",
+          SEARCH_WEIGHT_GRAPH: "0",
+          SEARCH_GRAPH_HOPS: "1",
+          SEARCH_PROFILE: "recent",
+          SEARCH_PROFILE_RECENT_RECENCY_WEIGHT: "0.8",
+          SEARCH_PROFILE_RECENT_HALF_LIFE_MS: "86400000",
+          SEARCH_CACHE_SIZE: "0",
+          SEARCH_CACHE_TTL_MS: "60000",
+          CRON_RETENTION: "0 2 * * *",
+          RETENTION_STM_MAX_AGE_MS: "604800000",
+          RETENTION_STM_KEEP_IMPORTANCE: "off",
+          RETENTION_EPISODIC_MAX_AGE_MS: "86400000",
+          RETENTION_EPISODIC_KEEP_IMPORTANCE: "0.5",
         },
       },
     );
@@ -89,6 +144,34 @@ describe("loadConfig", () => {
     expect(config.jobs.cleanupCron).toBe("15 2 * * 1");
     expect(config.jobs.reindexCron).toBe("0 5 * * *");
     expect(config.jobs.metricsCron).toBe("*/30 * * * *");
+    expect(config.consolidation.batchSize).toBe(50);
+    expect(config.consolidation.promoteThreshold).toBe(0.75);
+    expect(config.jobs.decayCron).toBe("0 */6 * * *");
+    expect(config.decay.curve).toBe("linear");
+    expect(config.decay.halfLifeMs).toBe(86_400_000);
+    expect(config.decay.reinforcement).toBe(0.2);
+    expect(config.dedupe.enabled).toBe(true);
+    expect(config.dedupe.threshold).toBe(0.85);
+    expect(config.namespace.default).toBe("work");
+    expect(config.search.fusion).toBe("weighted");
+    expect(config.search.weights).toEqual({ vector: 0.5, text: 0.5, graph: 0 });
+    expect(config.search.graphHops).toBe(1);
+    expect(config.search.ranking.profile).toBe("recent");
+    expect(config.search.ranking.profiles.recent).toEqual({
+      recencyWeight: 0.8,
+      importanceWeight: 0.1,
+      halfLifeMs: 86_400_000,
+    });
+    expect(config.search.cache).toEqual({ resultEntries: 0, embeddingEntries: 1_000, ttlMs: 60_000 });
+    expect(config.jobs.retentionCron).toBe("0 2 * * *");
+    expect(config.retention.layers.stm).toEqual({
+      maxAgeMs: 604_800_000,
+      keepImportanceAbove: null,
+    });
+    expect(config.retention.layers.episodic).toEqual({
+      maxAgeMs: 86_400_000,
+      keepImportanceAbove: 0.5,
+    });
   });
 
   it("honors explicit override parameters", () => {
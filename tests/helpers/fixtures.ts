@@ -0,0 +1,117 @@
+import type { SQLiteClient } from "../../src/database/sqlite";
+import { AnalyticsRepository } from "../../src/repositories/analytics-repository";
+import { DocumentChunkRepository } from "../../src/repositories/document-chunk-repository";
+import { DocumentRepository } from "../../src/repositories/document-repository";
+import { EpisodeRepository } from "../../src/repositories/episode-repository";
+import { JobRepository } from "../../src/repositories/job-repository";
+import { KnowledgeGraphRepository } from "../../src/repositories/knowledge-graph-repository";
+import { MemoryRelationRepository } from "../../src/repositories/memory-relation-repository";
+import { MemoryRepository } from "../../src/repositories/memory-repository";
+import { MentionRepository } from "../../src/repositories/mention-repository";
+import { NamespaceRepository } from "../../src/repositories/namespace-repository";
+import { SessionRepository } from "../../src/repositories/session-repository";
+import { TagRepository } from "../../src/repositories/tag-repository";
+import { TrashRepository } from "../../src/repositories/trash-repository";
+import {
+  DefaultMemoryService,
+  type MemoryServiceDependencies,
+} from "../../src/services/memory-service";
+import {
+  DefaultSearchService,
+  type SearchServiceDependencies,
+} from "../../src/services/search-service";
+import type { EmbeddingProvider } from "../../src/services/types";
+import type { VectraAdapter } from "../../src/vector/vectra";
+
+/** Every repository over one test database, so services built from them share state. */
+export interface TestRepositories {
+  memory: MemoryRepository;
+  document: DocumentRepository;
+  chunk: DocumentChunkRepository;
+  knowledge: KnowledgeGraphRepository;
+  mention: MentionRepository;
+  relation: MemoryRelationRepository;
+  episode: EpisodeRepository;
+  session: SessionRepository;
+  trash: TrashRepository;
+  namespace: NamespaceRepository;
+  tag: TagRepository;
+  analytics: AnalyticsRepository;
+  job: JobRepository;
+}
+
+export function createTestRepositories(db: SQLiteClient): TestRepositories {
+  return {
+    memory: new MemoryRepository(db),
+    document: new DocumentRepository(db),
+    chunk: new DocumentChunkRepository(db),
+    knowledge: new KnowledgeGraphRepository(db),
+    mention: new MentionRepository(db),
+    relation: new MemoryRelationRepository(db),
+    episode: new EpisodeRepository(db),
+    session: new SessionRepository(db),
+    trash: new TrashRepository(db),
+    namespace: new NamespaceRepository(db),
+    tag: new TagRepository(db),
+    analytics: new AnalyticsRepository(db),
+    job: new JobRepository(db),
+  };
+}
+
+export interface MemoryServicesOptions {
+  /** Defaults to `KeywordEmbeddingProvider`. */
+  embeddings?: EmbeddingProvider;
+  search?: Partial<SearchServiceDependencies>;
+  memory?: Partial<MemoryServiceDependencies>;
+}
+
+/**
+ * A memory service and the search service behind it over `repositories.memory`. `search`
+ * and `memory` add dependencies, e.g. a knowledge repository for graph retrieval.
+ */
+export function createMemoryServices(
+  db: SQLiteClient,
+  vectra: VectraAdapter,
+  repositories: TestRepositories,
+  options: MemoryServicesOptions = {},
+): { searchService: DefaultSearchService; memoryService: DefaultMemoryService } {
+  const embeddings = options.embeddings ?? new KeywordEmbeddingProvider();
+  const searchService = new DefaultSearchService({
+    memoryRepository: repositories.memory,
+    sqlite: db,
+    vectra,
+    ...options.search,
+  });
+  const memoryService = new DefaultMemoryService({
+    memoryRepository: repositories.memory,
+    vectra,
+    embeddings,
+    searchService,
+    ...options.memory,
+  });
+  return { searchService, memoryService };
+}
+
+/** Deterministic vectors that only depend on the text length. */
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text, index) => {
+      const base = (text.length % 7) + 1 + index * 0.1;
+      return [base, base / 2, base / 3];
+    });
+  }
+}
+
+/** One dimension per keyword, so cosine similarity is easy to reason about in tests. */
+export class KeywordEmbeddingProvider implements EmbeddingProvider {
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const lower = text.toLowerCase();
+      return [
+        lower.includes("coffee") ? 1 : 0,
+        lower.includes("berlin") ? 1 : 0,
+        lower.includes("deadline") ? 1 : 0,
+      ];
+    });
+  }
+}
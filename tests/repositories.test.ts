@@ -1,18 +1,16 @@
 import { afterEach, beforeEach, describe, expect, it } from "vitest";
-import { MemoryRepository } from "../src/repositories/memory-repository";
-import { DocumentRepository } from "../src/repositories/document-repository";
-import { DocumentChunkRepository } from "../src/repositories/document-chunk-repository";
-import { KnowledgeGraphRepository } from "../src/repositories/knowledge-graph-repository";
-import { TagRepository } from "../src/repositories/tag-repository";
-import { AnalyticsRepository } from "../src/repositories/analytics-repository";
-import { JobRepository } from "../src/repositories/job-repository";
+import { toFtsQuery } from "../src/repositories/fts";
+import { FtsQueryError, NotFoundError } from "../src/database/errors";
 import type { SQLiteClient } from "../src/database/sqlite";
 import { closeTestSQLite, createTestSQLite } from "./helpers/database";
+import { createTestRepositories, type TestRepositories } from "./helpers/fixtures";
 
 let db: SQLiteClient;
+let repositories: TestRepositories;
 
 beforeEach(async () => {
   db = await createTestSQLite();
+  repositories = createTestRepositories(db);
 });
 
 afterEach(() => {
@@ -21,11 +19,12 @@ afterEach(() => {
 
 describe("Repositories integration", () => {
   it("creates and updates memories with references", async () => {
-    const memoryRepo = new MemoryRepository(db);
-    const documentRepo = new DocumentRepository(db);
-    const chunkRepo = new DocumentChunkRepository(db);
+    const memoryRepo = repositories.memory;
+    const documentRepo = repositories.document;
+    const chunkRepo = repositories.chunk;
 
     const doc = documentRepo.create({
+      id: "doc-1",
       hash: "hash-1",
       metadata: { name: "Test" },
     });
@@ -41,9 +40,11 @@ describe("Repositories integration", () => {
 
     const memory = await memoryRepo.create(
       {
+        id: "memory-1",
         layer: "stm",
         content: "Remember this",
         metadata: { topic: "alpha" },
+        importance: 0.5,
       },
       [
         {
@@ -60,7 +61,7 @@ describe("Repositories integration", () => {
 
     const references = memoryRepo.listReferences(memory.id);
     expect(references).toHaveLength(1);
-    expect(references[0].docId).toBe(doc.id);
+    expect(references[0]?.docId).toBe(doc.id);
 
     const updated = await memoryRepo.update(memory.id, {
       layer: "ltm",
@@ -69,13 +70,79 @@ describe("Repositories integration", () => {
 
     expect(updated.layer).toBe("ltm");
     expect(updated.importance).toBeCloseTo(0.8);
+
+    memoryRepo.delete(memory.id);
+    const revisions = memoryRepo.listRevisions(memory.id);
+    expect(revisions).toMatchObject([
+      { revision: 2, operation: "delete" },
+      { revision: 1, operation: "update" },
+    ]);
+    expect(revisions[1]?.layer).toBe("stm");
+    expect(revisions[0]?.references).toEqual([
+      { docId: doc.id, chunkId: chunk.id, relation: "evidence", score: 0.9 },
+    ]);
+
+    const restored = await memoryRepo.restore(revisions[0]!);
+    expect(restored.createdAt).toBe(memory.createdAt);
+    expect(memoryRepo.listReferences(memory.id)).toHaveLength(1);
+  });
+
+  it("refuses to update trashed memories", async () => {
+    const memoryRepo = repositories.memory;
+    const memory = await memoryRepo.create({ id: "before", layer: "stm", content: "Before", metadata: {}, importance: 0.5 });
+    memoryRepo.trash(memory.id);
+
+    await expect(memoryRepo.update(memory.id, { content: "After" })).rejects.toThrow(NotFoundError);
+    memoryRepo.untrash(memory.id);
+    expect(memoryRepo.findById(memory.id)?.content).toBe("Before");
+  });
+
+  it("nests transactions as savepoints", async () => {
+    const memoryRepo = repositories.memory;
+    const kept = await memoryRepo.transaction(async () => {
+      const outer = await memoryRepo.create({ id: "outer", layer: "stm", content: "Outer", metadata: {}, importance: 0.5 });
+      await expect(
+        memoryRepo.transaction(async () => {
+          await memoryRepo.create({ id: "inner", layer: "stm", content: "Inner", metadata: {}, importance: 0.5 });
+          throw new Error("inner failed");
+        }),
+      ).rejects.toThrow("inner failed");
+      return outer;
+    });
+
+    const [only, ...rest] = memoryRepo.listAll();
+    expect(only?.id).toBe(kept.id);
+    expect(rest).toHaveLength(0);
+  });
+
+  it("runs concurrent transactions one after the other", async () => {
+    const memoryRepo = repositories.memory;
+    let releaseFirst!: () => void;
+    const firstWaits = new Promise<void>((resolve) => {
+      releaseFirst = resolve;
+    });
+    const first = memoryRepo.transaction(async () => {
+      await memoryRepo.create({ id: "first", layer: "stm", content: "First", metadata: {}, importance: 0.5 });
+      await firstWaits;
+      throw new Error("first failed");
+    });
+    // Started while the first one is open, so it must not become a savepoint of it.
+    const second = memoryRepo.transaction(() =>
+      memoryRepo.create({ id: "second", layer: "stm", content: "Second", metadata: {}, importance: 0.5 }),
+    );
+    releaseFirst();
+
+    await expect(first).rejects.toThrow("first failed");
+    await second;
+    expect(memoryRepo.listAll().map((memory) => memory.content)).toEqual(["Second"]);
   });
 
   it("manages documents and chunks", () => {
-    const documentRepo = new DocumentRepository(db);
-    const chunkRepo = new DocumentChunkRepository(db);
+    const documentRepo = repositories.document;
+    const chunkRepo = repositories.chunk;
 
     const doc = documentRepo.create({
+      id: "doc-2",
       hash: "hash-2",
       title: "Test Document",
       metadata: { category: "notes" },
@@ -93,7 +160,7 @@ describe("Repositories integration", () => {
 
     const chunks = chunkRepo.listByDocument(doc.id);
     expect(chunks).toHaveLength(1);
-    expect(chunks[0].id).toBe(chunk.id);
+    expect(chunks[0]?.id).toBe(chunk.id);
 
     const updatedChunk = chunkRepo.update(chunk.id, {
       summary: "Summary",
@@ -102,7 +169,7 @@ describe("Repositories integration", () => {
   });
 
   it("tracks knowledge graph entities and edges", () => {
-    const kgRepo = new KnowledgeGraphRepository(db);
+    const kgRepo = repositories.knowledge;
 
     const entity = kgRepo.upsertEntity({
       name: "Memorized MCP",
@@ -131,9 +198,74 @@ describe("Repositories integration", () => {
     expect(edges.map((e) => e.id)).toContain(edge.id);
   });
 
+  it("escapes free text and validates FTS5 syntax", () => {
+    expect(toFtsQuery('e-mail "draft": v2')).toBe('"e"* "mail"* "draft"* "v2"*');
+    expect(toFtsQuery("Bob's  notes", "phrase")).toBe('"Bob s notes"');
+    expect(toFtsQuery("--", "simple")).toBe("");
+    const columns = ["content", "summary"];
+    for (const query of [
+      '"launch plan" OR NEAR(coffee deadline, 5)',
+      "summary: coffee NOT -content: tea",
+      "{content summary}: (coffee AND ^dead*)",
+      'a + b "x ""y"""',
+      "a * b",
+      "coffee NEAR(a b) summary: ^tea",
+      "(coffee) OR summary: (tea NOT -content: milk)",
+    ]) {
+      expect(toFtsQuery(query, "fts", columns)).toBe(query);
+      // Whatever passes validation must also parse in SQLite.
+      expect(() => db.all("SELECT rowid FROM fts_memories WHERE fts_memories MATCH ?;", [query])).not.toThrow();
+    }
+    for (const query of [
+      "coffee OR",
+      "(coffee",
+      "e-mail",
+      "layer: stm",
+      '"open',
+      "NEAR(a b, x)",
+      "",
+      "a (b)",
+      "(a)(b)",
+      "a ^",
+      "near(a b)",
+      "summary: -content: a",
+      "hello (world OR foo)",
+      "NEAR(a OR b)",
+    ]) {
+      expect(() => toFtsQuery(query, "fts", columns)).toThrow(FtsQueryError);
+    }
+
+    const documentRepo = repositories.document;
+    const chunkRepo = repositories.chunk;
+    const kgRepo = repositories.knowledge;
+    const doc = documentRepo.create({ id: "doc-fts", hash: "hash-fts", metadata: {} });
+    const chunk = chunkRepo.insert({
+      docId: doc.id,
+      positionStart: 0,
+      positionEnd: 30,
+      content: "Ship the e-mail: O'Brien signs off",
+      metadata: {},
+    });
+    const entity = kgRepo.upsertEntity({ name: "O'Brien", type: "person" });
+
+    // Raw names like these used to be FTS5 syntax errors.
+    expect(chunkRepo.searchByEntityName("e-mail:").map((found) => found.id)).toEqual([chunk.id]);
+    expect(chunkRepo.searchByEntityName("O'Brien").map((found) => found.id)).toEqual([chunk.id]);
+    expect(kgRepo.searchEntitiesByName('"O\'Brien').map((found) => found.id)).toEqual([entity.id]);
+    expect(kgRepo.searchEntitiesByName("()")).toEqual([]);
+
+    // Matches in other namespaces must not use up the limit.
+    const other = documentRepo.create({ id: "doc-other", namespace: "other", hash: "hash-fts", metadata: {} });
+    chunkRepo.insert({ docId: other.id, positionStart: 0, positionEnd: 20, content: "O'Brien again", metadata: {} });
+    chunkRepo.insert({ docId: other.id, positionStart: 20, positionEnd: 40, content: "O'Brien once more", metadata: {} });
+    expect(chunkRepo.searchByEntityName("O'Brien", 1, "other")).toHaveLength(1);
+    expect(chunkRepo.searchByEntityName("O'Brien", 5, "other")).toHaveLength(2);
+    expect(chunkRepo.searchByEntityName("O'Brien").map((found) => found.id)).toEqual([chunk.id]);
+  });
+
   it("manages tags and analytics metrics", () => {
-    const tagRepo = new TagRepository(db);
-    const analyticsRepo = new AnalyticsRepository(db);
+    const tagRepo = repositories.tag;
+    const analyticsRepo = repositories.analytics;
 
     tagRepo.upsert({ name: "priority", description: "High priority" });
     tagRepo.upsert({ name: "context" });
@@ -157,7 +289,7 @@ describe("Repositories integration", () => {
   });
 
   it("tracks job executions", () => {
-    const jobRepo = new JobRepository(db);
+    const jobRepo = repositories.job;
 
     jobRepo.upsert({
       name: "reindex",
@@ -13,10 +13,18 @@ const fakeServices: ServiceRegistry = {
     deleteMemory: async () => undefined,
     searchMemories: async () => [],
   } as any,
+  consolidation: {} as any,
+  decay: {} as any,
+  retention: {} as any,
+  trash: {} as any,
+  namespace: {} as any,
+  episode: {} as any,
+  session: {} as any,
   knowledge: {} as any,
   search: {
     searchMemories: async () => [{ id: "mem-1", score: 1 }],
   } as any,
+  unifiedSearch: {} as any,
   analytics: {
     recordMetric: () => {},
     listRecentMetrics: () => [],
@@ -47,6 +47,29 @@ describe("JobScheduler", () => {
     );
   });
 
+  it("persists metadata returned by the task", async () => {
+    const { repo, markRun } = createJobRepositoryMock();
+    const scheduler = new JobScheduler(logger, repo);
+    const task = vi.fn().mockResolvedValue({ report: { scanned: 3 } });
+
+    scheduler.register({
+      name: "job.report",
+      schedule: "* * * * *",
+      task,
+    });
+
+    await scheduler.runJobNow("job.report");
+
+    expect(markRun).toHaveBeenCalledWith(
+      "job.report",
+      "succeeded",
+      expect.objectContaining({
+        durationMs: expect.any(Number),
+        report: { scanned: 3 },
+      }),
+    );
+  });
+
   it("marks job as failed when an exception is thrown", async () => {
     const { repo, markRun } = createJobRepositoryMock();
     const scheduler = new JobScheduler(logger, repo);
@@ -3,32 +3,35 @@ import os from "node:os";
 import path from "node:path";
 import { beforeEach, afterEach, describe, expect, it } from "vitest";
 import { createTestSQLite, closeTestSQLite } from "./helpers/database";
-import { DocumentRepository } from "../src/repositories/document-repository";
-import { DocumentChunkRepository } from "../src/repositories/document-chunk-repository";
-import { KnowledgeGraphRepository } from "../src/repositories/knowledge-graph-repository";
-import { MemoryRepository } from "../src/repositories/memory-repository";
-import { AnalyticsRepository } from "../src/repositories/analytics-repository";
-import { JobRepository } from "../src/repositories/job-repository";
+import {
+  createMemoryServices,
+  createTestRepositories,
+  FakeEmbeddingProvider,
+  KeywordEmbeddingProvider,
+  type TestRepositories,
+} from "./helpers/fixtures";
 import { DefaultDocumentService, SlidingWindowTextSplitter } from "../src/services/document-service";
-import { DefaultSearchService } from "../src/services/search-service";
-import { DefaultMemoryService } from "../src/services/memory-service";
+import { DefaultUnifiedSearchService } from "../src/services/unified-search-service";
+import { DefaultConsolidationService } from "../src/services/consolidation-service";
+import { DefaultDecayService } from "../src/services/decay-service";
+import { DefaultKnowledgeGraphService } from "../src/services/knowledge-graph-service";
+import { DefaultRetentionService } from "../src/services/retention-service";
+import { DefaultTrashService } from "../src/services/trash-service";
+import { DefaultNamespaceService } from "../src/services/namespace-service";
+import { DefaultEpisodeService } from "../src/services/episode-service";
+import { DefaultSessionService } from "../src/services/session-service";
 import { DefaultAnalyticsService } from "../src/services/analytics-service";
+import { DEFAULT_RANKING } from "../src/services/ranking";
 import { DefaultSystemService } from "../src/services/system-service";
 import type { EmbeddingProvider, EntityExtractor, TextSplitterChunk } from "../src/services/types";
 import { VectraAdapter } from "../src/vector/vectra";
 import type { SQLiteClient } from "../src/database/sqlite";
+import { FtsQueryError } from "../src/database/errors";
 import type { ExtractedEntity } from "../src/schemas/knowledge";
+import type { MemoryMetricDTO } from "../src/schemas/analytics";
+import type { MemorySearchRequest } from "../src/schemas/memory";
 import { loadConfig } from "../src/config";
 
-class FakeEmbeddingProvider implements EmbeddingProvider {
-  async embed(texts: string[]): Promise<number[][]> {
-    return texts.map((text, index) => {
-      const base = (text.length % 7) + 1 + index * 0.1;
-      return [base, base / 2, base / 3];
-    });
-  }
-}
-
 class StubEntityExtractor implements EntityExtractor {
   constructor(private readonly entity: ExtractedEntity = { name: "Memorized MCP", type: "project", confidence: 0.9 }) {}
   async extract(): Promise<ExtractedEntity[]> {
@@ -38,6 +41,7 @@ class StubEntityExtractor implements EntityExtractor {
 
 describe("Service layer integration", () => {
   let db: SQLiteClient;
+  let repositories: TestRepositories;
   let tempDir: string;
   let vectra: VectraAdapter;
   let embeddingProvider: EmbeddingProvider;
@@ -45,6 +49,7 @@ describe("Service layer integration", () => {
 
   beforeEach(async () => {
     db = await createTestSQLite();
+    repositories = createTestRepositories(db);
     tempDir = await mkdtemp(path.join(os.tmpdir(), "vectra-"));
     vectra = new VectraAdapter({
       dataRoot: tempDir,
@@ -59,10 +64,9 @@ describe("Service layer integration", () => {
   });
 
   it("ingests documents and records metadata", async () => {
-    const documentRepository = new DocumentRepository(db);
-    const chunkRepository = new DocumentChunkRepository(db);
-    const memoryRepository = new MemoryRepository(db);
-    const knowledgeRepository = new KnowledgeGraphRepository(db);
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const knowledgeRepository = repositories.knowledge;
 
     const documentService = new DefaultDocumentService({
       documentRepository,
@@ -96,18 +100,81 @@ describe("Service layer integration", () => {
     expect(stats.docChunks).toBe(result.chunkCount);
   });
 
-  it("adds memories and performs hybrid search", async () => {
-    const memoryRepository = new MemoryRepository(db);
-    const searchService = new DefaultSearchService({
-      memoryRepository,
-      sqlite: db,
+  it("links entities on memory add and ingest through the mentions index", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const memoryRepository = repositories.memory;
+    const knowledgeRepository = repositories.knowledge;
+    const mentionRepository = repositories.mention;
+    const entityExtractor: EntityExtractor = {
+      extract: async (text) =>
+        /berlin/i.test(text) ? [{ name: "Berlin", type: "place", confidence: 0.8 }] : [],
+    };
+
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings: embeddingProvider, memory: { knowledgeRepository, entityExtractor, mentionRepository } });
+    const documentService = new DefaultDocumentService({
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository,
       vectra,
+      embeddings: embeddingProvider,
+      textSplitter,
+      entityExtractor,
+      mentionRepository,
     });
-    const memoryService = new DefaultMemoryService({
+    const knowledgeService = new DefaultKnowledgeGraphService({
+      repository: knowledgeRepository,
+      documentRepository,
       memoryRepository,
-      vectra,
+      documentChunkRepository: chunkRepository,
+    });
+
+    const memory = await memoryService.addMemory({
+      content: "Flew to berlin, then back to Berlin again",
+      layer: "episodic",
+    });
+    await memoryService.addMemory({ content: "Unrelated note", layer: "stm" });
+    const ingested = await documentService.ingest({
+      content: "Berlin travel guide",
+      options: { chunkSize: 160, chunkOverlap: 20, generateSummary: false, detectEntities: true },
+    });
+
+    const entity = knowledgeRepository.findByName("Berlin");
+    expect(entity?.count).toBe(2);
+    expect(mentionRepository.listByMemory(memory.id)).toMatchObject([
+      { entityId: entity!.id, surface: "berlin", startOffset: 8, endOffset: 14, confidence: 0.8 },
+      { entityId: entity!.id, surface: "Berlin", startOffset: 29, endOffset: 35 },
+    ]);
+
+    const byEntity = await memoryService.getMemoriesByEntity({ entityId: entity!.id });
+    expect(byEntity.map((record) => record.id)).toEqual([memory.id]);
+
+    const context = await knowledgeService.getEntityContext({ entityId: entity!.id });
+    expect(context.documents.map((doc: { id: string }) => doc.id)).toEqual([
+      ingested.document.id,
+    ]);
+    expect(context.chunks).toHaveLength(1);
+
+    const inMemory = await knowledgeService.getEntitiesInMemory({ memoryId: memory.id });
+    expect(inMemory.map((item) => item.name)).toEqual(["Berlin"]);
+    const inDocument = await knowledgeService.getEntitiesInDocument({
+      docId: ingested.document.id,
+    });
+    expect(inDocument.map((item) => item.id)).toEqual([entity!.id]);
+
+    // Reverting content re-links the entities of the restored text.
+    await memoryService.updateMemory(memory.id, { content: "Stayed home" });
+    expect(mentionRepository.listByMemory(memory.id)).toEqual([]);
+    await memoryService.revertMemory({ id: memory.id, revision: 1 });
+    expect(mentionRepository.listByMemory(memory.id)).toHaveLength(2);
+    const afterRevert = await knowledgeService.getEntitiesInMemory({ memoryId: memory.id });
+    expect(afterRevert.map((item) => item.name)).toEqual(["Berlin"]);
+  });
+
+  it("adds memories and performs hybrid search", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
       embeddings: embeddingProvider,
-      searchService,
+      search: { embeddings: embeddingProvider },
     });
 
     await memoryService.addMemory({
@@ -126,9 +193,1534 @@ describe("Service layer integration", () => {
     expect(results[0]?.content).toContain("quick brown fox");
   });
 
+  it("adds memories in batches and reports per-item failures", async () => {
+    const keywords = new KeywordEmbeddingProvider();
+    const calls: string[][] = [];
+    const embeddings: EmbeddingProvider = {
+      async embed(texts) {
+        calls.push(texts);
+        if (texts.some((text) => text.includes("unembeddable"))) {
+          throw new Error("model unavailable");
+        }
+        return keywords.embed(texts);
+      },
+    };
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings });
+
+    const result = await memoryService.addMemories({
+      batchSize: 2,
+      items: [
+        { content: "Coffee with the team on Monday", layer: "stm", metadata: {} },
+        { content: "Berlin office opens in spring", layer: "ltm", metadata: { source: "import" }, importance: 0.7 },
+        { content: "unembeddable deadline note", layer: "stm", metadata: {} },
+      ],
+    });
+
+    expect(calls.map((texts) => texts.length)).toEqual([2, 1]);
+    expect(result.added).toBe(2);
+    expect(result.failed).toBe(1);
+    expect(result.results[2]).toEqual({ index: 2, error: "Embedding failed: model unavailable" });
+
+    const berlinId = result.results[1]?.id;
+    expect(berlinId).toBeDefined();
+    const stored = await memoryService.getMemory({ id: berlinId! });
+    expect(stored?.layer).toBe("ltm");
+    expect(stored?.importance).toBe(0.7);
+    expect(stored?.metadata).toEqual({ source: "import" });
+
+    const vector = await vectra.getMemoryVector(berlinId!);
+    expect(vector?.vector).toEqual([0, 1, 0]);
+    expect(vector?.metadata.layer).toBe("ltm");
+  });
+
+  it("promotes important short-term memories and merges duplicates", async () => {
+    const memoryRepository = repositories.memory;
+    const knowledgeRepository = repositories.knowledge;
+    const embeddings = new KeywordEmbeddingProvider();
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings });
+    const consolidationService = new DefaultConsolidationService({
+      memoryRepository,
+      vectra,
+      embeddings,
+      knowledgeRepository,
+      settings: {
+        ...loadConfig({}, { useDotenv: false }).consolidation,
+        promoteThreshold: 0.3,
+      },
+    });
+
+    const preference = await memoryService.addMemory({
+      content: "User drinks coffee every morning",
+      layer: "stm",
+      importance: 0.9,
+    });
+    const paraphrase = await memoryService.addMemory({
+      content: "Every morning the user has coffee",
+      layer: "stm",
+      importance: 0.4,
+    });
+    const trivia = await memoryService.addMemory({
+      content: "The deadline moved by a day",
+      layer: "stm",
+      importance: 0.1,
+    });
+
+    const dryRun = await consolidationService.consolidate({ minAgeMs: 0, dryRun: true });
+    expect(dryRun.merged).toBe(1);
+    expect(memoryRepository.findById(preference.id)?.layer).toBe("stm");
+
+    const report = await consolidationService.consolidate({ minAgeMs: 0 });
+
+    expect(report.scanned).toBe(3);
+    expect(report.merges).toEqual([
+      expect.objectContaining({ memoryId: preference.id, mergedInto: paraphrase.id }),
+    ]);
+    expect(report.promoted.ltm).toBe(1);
+    expect(report.retained).toBe(1);
+    expect(memoryRepository.findById(preference.id)).toBeUndefined();
+
+    const survivor = memoryRepository.findById(paraphrase.id);
+    expect(survivor?.layer).toBe("ltm");
+    expect(survivor?.importance).toBeCloseTo(0.9);
+    expect(survivor?.metadata.consolidatedFrom).toEqual([preference.id]);
+    expect(memoryRepository.findById(trivia.id)?.layer).toBe("stm");
+  });
+
+  it("leaves expired memories out of merges and syncs the merge target's vector", async () => {
+    const memoryRepository = repositories.memory;
+    const embeddings = new KeywordEmbeddingProvider();
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings });
+    const consolidationService = new DefaultConsolidationService({
+      memoryRepository,
+      vectra,
+      embeddings,
+      settings: {
+        ...loadConfig({}, { useDotenv: false }).consolidation,
+        promoteThreshold: 1,
+      },
+    });
+
+    const expired = await memoryService.addMemory({
+      content: "Coffee order is a flat white",
+      layer: "stm",
+      importance: 0.3,
+      expiresAt: Date.now() - 1_000,
+    });
+    const source = await memoryService.addMemory({
+      content: "User drinks coffee every morning",
+      layer: "stm",
+      importance: 0.9,
+    });
+    const target = await memoryService.addMemory({
+      content: "Every morning the user has coffee",
+      layer: "stm",
+      importance: 0.2,
+    });
+
+    const report = await consolidationService.consolidate({ minAgeMs: 0 });
+
+    expect(report.merges).toEqual([
+      expect.objectContaining({ memoryId: source.id, mergedInto: target.id }),
+    ]);
+    expect(memoryRepository.findById(expired.id)?.content).toBe(expired.content);
+    expect(memoryRepository.findById(target.id)?.importance).toBeCloseTo(0.9);
+    expect((await vectra.getMemoryVector(target.id))?.metadata.importance).toBeCloseTo(0.9);
+  });
+
+  it("reinforces accessed memories and decays stale importance", async () => {
+    const memoryRepository = repositories.memory;
+    const embeddings = new KeywordEmbeddingProvider();
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings, memory: { reinforcement: 0.5 } });
+    const decayService = new DefaultDecayService({
+      memoryRepository,
+      vectra,
+      settings: {
+        ...loadConfig({}, { useDotenv: false }).decay,
+        halfLifeMs: 1_000,
+        floor: 0.1,
+      },
+    });
+
+    const fresh = await memoryService.addMemory({
+      content: "Coffee with the Berlin team",
+      layer: "ltm",
+      importance: 0.6,
+    });
+    const stale = await memoryService.addMemory({
+      content: "The deadline is on Friday",
+      layer: "ltm",
+      importance: 0.9,
+    });
+
+    const fetched = await memoryService.getMemory({ id: fresh.id });
+    expect(fetched?.accessCount).toBe(1);
+    expect(fetched?.importance).toBeCloseTo(0.8);
+    expect(fetched?.lastAccessedAt).toBeGreaterThan(0);
+
+    const vector = await vectra.getMemoryVector(fresh.id);
+    expect(vector?.metadata.importance).toBeCloseTo(0.8);
+
+    const report = await decayService.applyDecay({ now: stale.createdAt + 1_000 });
+    expect(report.scanned).toBe(2);
+    expect(report.decayed).toBe(2);
+    expect(report.vectorsUpdated).toBe(2);
+
+    // One half-life towards the floor: 0.1 + (0.9 - 0.1) / 2
+    const decayed = memoryRepository.findById(stale.id);
+    expect(decayed?.importance).toBeCloseTo(0.5);
+    expect(decayed?.decayedAt).toBe(stale.createdAt + 1_000);
+
+    const filtered = await vectra.queryMemories([0, 0, 1], { topK: 5, minImportance: 0.6 });
+    expect(filtered.map((match) => match.id)).not.toContain(stale.id);
+
+    const rerun = await decayService.applyDecay({ now: stale.createdAt + 1_000 });
+    expect(rerun.decayed).toBe(0);
+  });
+
+  it("hides expired memories and purges them with layer retention", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+    const retentionService = new DefaultRetentionService({
+      memoryRepository,
+      vectra,
+      settings: {
+        batchSize: 1,
+        layers: {
+          stm: { maxAgeMs: 1_000, keepImportanceAbove: 0.8 },
+          ltm: null,
+          episodic: null,
+          semantic: null,
+          documentary: null,
+        },
+      },
+    });
+
+    const expired = await memoryService.addMemory({
+      content: "Coffee order for the offsite",
+      layer: "ltm",
+      expiresAt: Date.now() - 1,
+    });
+    const scratch = await memoryService.addMemory({
+      content: "Berlin hotel shortlist",
+      layer: "stm",
+      importance: 0.4,
+    });
+    const pinned = await memoryService.addMemory({
+      content: "The Berlin deadline moved",
+      layer: "stm",
+      importance: 0.9,
+    });
+
+    const results = await memoryService.searchMemories({
+      query: "coffee",
+      topK: 5,
+      includeReferences: false,
+    });
+    expect(results.map((result) => result.id)).not.toContain(expired.id);
+    expect(memoryRepository.findById(expired.id)?.expiresAt).toBe(expired.expiresAt);
+
+    const now = scratch.createdAt + 2_000;
+    const preview = await retentionService.purge({ dryRun: true, now });
+    expect(preview).toMatchObject({ expired: 1, byLayer: { stm: 1 }, purged: 0 });
+    expect(memoryRepository.findById(scratch.id)).toBeDefined();
+
+    const report = await retentionService.purge({ now });
+    expect(report).toMatchObject({ expired: 1, byLayer: { stm: 1 }, purged: 2 });
+    expect(memoryRepository.findById(expired.id)).toBeUndefined();
+    expect(memoryRepository.findById(scratch.id)).toBeUndefined();
+    expect(memoryRepository.findById(pinned.id)).toBeDefined();
+    expect(await vectra.getMemoryVector(scratch.id)).toBeUndefined();
+    expect(
+      db.get<{ count: number }>(
+        "SELECT COUNT(*) as count FROM fts_memories WHERE memory_id = ?;",
+        [expired.id],
+      )?.count,
+    ).toBe(0);
+  });
+
+  it("applies time and metadata filters to both vector and text retrieval", async () => {
+    const { searchService, memoryService } = createMemoryServices(db, vectra, repositories);
+
+    const chat = await memoryService.addMemory({
+      content: "Coffee with Alice",
+      layer: "stm",
+      metadata: { source: { kind: "chat" }, priority: 3, reviewed: true },
+    });
+    const email = await memoryService.addMemory({
+      content: "Coffee with Bob",
+      layer: "stm",
+      metadata: { source: { kind: "email" }, priority: 1 },
+    });
+    const old = await memoryService.addMemory({ content: "Coffee beans order", layer: "stm" });
+    db.run("UPDATE memories SET created_at = 1000 WHERE id = ?;", [old.id]);
+
+    const search = async (filter: Partial<MemorySearchRequest>) => {
+      const base = { topK: 10, includeReferences: false, ...filter };
+      const byVector = await searchService.searchMemories({ ...base, queryVector: [1, 0, 0] });
+      const byText = await searchService.searchMemories({ ...base, query: "coffee" });
+      const vectorIds = byVector.map((result) => result.id).sort();
+      expect(byText.map((result) => result.id).sort()).toEqual(vectorIds);
+      return vectorIds;
+    };
+
+    expect(await search({ metadata: [{ path: "source.kind", eq: "chat" }] })).toEqual([chat.id]);
+    expect(await search({ metadata: [{ path: "source.kind", in: ["chat", "email"] }] })).toEqual(
+      [chat.id, email.id].sort(),
+    );
+    expect(await search({ metadata: [{ path: "priority", gte: 2 }] })).toEqual([chat.id]);
+    expect(await search({ metadata: [{ path: "reviewed", eq: true }] })).toEqual([chat.id]);
+    expect(await search({ metadata: [{ path: "source", exists: false }] })).toEqual([old.id]);
+    expect(await search({ createdBefore: 2_000 })).toEqual([old.id]);
+    expect(await search({ createdAfter: 2_000, metadata: [{ path: "priority", lt: 2 }] })).toEqual([
+      email.id,
+    ]);
+    expect(await search({ updatedAfter: Date.now() + 60_000 })).toEqual([]);
+  });
+
+  it("filters vector hits by every requested layer, session and episode", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    const stm = await memoryService.addMemory({
+      content: "Coffee order for the team",
+      layer: "stm",
+      sessionId: "session-1",
+      episodeId: "episode-1",
+    });
+    const ltm = await memoryService.addMemory({
+      content: "Coffee beans come from Ethiopia",
+      layer: "ltm",
+      sessionId: "session-1",
+    });
+    const semantic = await memoryService.addMemory({
+      content: "Coffee contains caffeine",
+      layer: "semantic",
+      sessionId: "session-2",
+    });
+
+    // Vector-only searches, so every hit comes through the Vectra filter.
+    const search = async (request: Partial<MemorySearchRequest>) =>
+      (
+        await memoryService.searchMemories({
+          queryVector: [1, 0, 0],
+          topK: 10,
+          includeReferences: false,
+          ...request,
+        })
+      )
+        .map((result) => result.id)
+        .sort();
+
+    expect(await search({ layers: ["stm", "ltm"] })).toEqual([stm.id, ltm.id].sort());
+    expect(await search({ sessionId: "session-1" })).toEqual([stm.id, ltm.id].sort());
+    expect(await search({ sessionId: "session-1", layers: ["ltm", "semantic"] })).toEqual([ltm.id]);
+    expect(await search({ episodeId: "episode-1" })).toEqual([stm.id]);
+
+    // Moving a memory to another session updates its vector without re-embedding.
+    await memoryService.updateMemory(semantic.id, { sessionId: "session-1" });
+    expect(await search({ sessionId: "session-2" })).toEqual([]);
+
+    // Vectors written before they carried session ids are backfilled from SQLite.
+    await vectra.upsertMemoryVector({
+      memoryId: ltm.id,
+      namespace: ltm.namespace,
+      vector: [1, 0, 0],
+      layer: "ltm",
+      importance: ltm.importance,
+    });
+    expect(await search({ sessionId: "session-1" })).toEqual([stm.id, semantic.id].sort());
+    expect(await vectra.backfillMemoryScopes(memoryRepository.listSessionAssignments())).toBe(1);
+    expect(await vectra.backfillMemoryScopes(memoryRepository.listSessionAssignments())).toBe(0);
+    expect(await search({ sessionId: "session-1" })).toEqual([stm.id, ltm.id, semantic.id].sort());
+  });
+
+  it("applies minImportance to full-text and graph hits", async () => {
+    const knowledgeRepository = repositories.knowledge;
+    const entityExtractor: EntityExtractor = {
+      extract: async (text) =>
+        /roadmap/i.test(text) ? [{ name: "Roadmap", type: "project", confidence: 0.9 }] : [],
+    };
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      search: { knowledgeRepository, entityExtractor },
+    });
+
+    const minor = await memoryService.addMemory({ content: "Roadmap draft", layer: "stm", importance: 0.2 });
+    const major = await memoryService.addMemory({ content: "Roadmap approved", layer: "ltm", importance: 0.8 });
+    const linkedMinor = await memoryService.addMemory({ content: "Spring plans", layer: "stm", importance: 0.2 });
+    const linkedMajor = await memoryService.addMemory({ content: "Launch plans", layer: "ltm", importance: 0.8 });
+    const roadmap = knowledgeRepository.upsertEntity({ name: "Roadmap", type: "project" });
+    for (const memory of [linkedMinor, linkedMajor]) {
+      repositories.mention.replaceForMemory(memory.id, [{ entityId: roadmap.id, surface: "Roadmap" }]);
+    }
+
+    // No embeddings and no query vector, so every hit comes from full-text or graph retrieval.
+    const search = async (minImportance?: number) =>
+      (await memoryService.searchMemories({ query: "roadmap", topK: 10, includeReferences: false, minImportance }))
+        .map((result) => result.id)
+        .sort();
+
+    expect(await search()).toEqual([minor.id, major.id, linkedMinor.id, linkedMajor.id].sort());
+    expect(await search(0.5)).toEqual([major.id, linkedMajor.id].sort());
+  });
+
+  it("fuses vector and full-text scores by the requested strategy", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    // Vector ranking: vectorOnly, both, textFirst. Text ranking: both, textFirst.
+    const vectorOnly = await memoryService.addMemory({ content: "Coffee", layer: "stm" });
+    const both = await memoryService.addMemory({ content: "Coffee deadline deadline", layer: "stm" });
+    const textFirst = await memoryService.addMemory({
+      content: "Berlin project deadline was moved to next week",
+      layer: "stm",
+    });
+
+    const search = (fusion?: MemorySearchRequest["fusion"]) =>
+      memoryService.searchMemories({
+        query: "deadline",
+        queryVector: [1, 0, 0],
+        topK: 10,
+        includeReferences: false,
+        fusion,
+      });
+
+    const rrf = await search();
+    expect(rrf.map((result) => result.id)).toEqual([both.id, textFirst.id, vectorOnly.id]);
+    expect(rrf[0]!.score).toBeCloseTo(1 / 61 + 1 / 62);
+    // bm25 is negated, so full-text scores are positive like cosine similarity.
+    expect(rrf[0]!.textScore).toBeGreaterThan(0);
+
+    const linear = await search({ strategy: "linear" });
+    expect(linear.map((result) => result.id)).toEqual([both.id, vectorOnly.id, textFirst.id]);
+    expect(linear[1]!.score).toBeCloseTo(0.5);
+
+    // Weights alone select the weighted strategy.
+    const vectorWeighted = await search({ weights: { vector: 1, text: 0 } });
+    expect(vectorWeighted.map((result) => result.id)).toEqual([
+      vectorOnly.id,
+      both.id,
+      textFirst.id,
+    ]);
+    expect(vectorWeighted[0]!.score).toBe(1);
+  });
+
+  it("reranks near-duplicate hits by diversity", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    const coffee: string[] = [];
+    for (const content of ["Coffee deadline", "Coffee deadline moved", "Coffee deadline moved again"]) {
+      coffee.push((await memoryService.addMemory({ content, layer: "stm" })).id);
+    }
+    const berlin = await memoryService.addMemory({ content: "Berlin deadline", layer: "stm" });
+
+    // Vector-only, so the three coffee memories tie at cosine 1 and Berlin trails at 0.5.
+    const search = (diversity?: number) =>
+      memoryService.searchMemories({
+        queryVector: [1, 0, 1],
+        topK: 2,
+        includeReferences: false,
+        diversity,
+      });
+
+    const relevant = await search();
+    expect(relevant.map((result) => result.id).every((id) => coffee.includes(id))).toBe(true);
+
+    const diverse = await search(0.8);
+    expect(coffee).toContain(diverse[0]!.id);
+    expect(diverse[1]!.id).toBe(berlin.id);
+    // Scores keep the fused relevance; only the order changes.
+    expect(diverse[1]!.score).toBeLessThan(diverse[0]!.score);
+  });
+
+  it("ranks recent memories first under the recent profile", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    const lastYear = await memoryService.addMemory({ content: "Coffee deadline preference", layer: "stm" });
+    const yesterday = await memoryService.addMemory({ content: "Coffee preference", layer: "stm" });
+    const now = Date.now();
+    db.run("UPDATE memories SET updated_at = ? WHERE id = ?;", [now - 365 * 86_400_000, lastYear.id]);
+    db.run("UPDATE memories SET updated_at = ? WHERE id = ?;", [now - 86_400_000, yesterday.id]);
+
+    // Vector-only: last year's memory matches at cosine 1, yesterday's at 0.71.
+    const request: MemorySearchRequest = {
+      queryVector: [1, 0, 1],
+      topK: 2,
+      includeReferences: false,
+    };
+
+    const relevant = await memoryService.searchMemories(request);
+    expect(relevant.map((result) => result.id)).toEqual([lastYear.id, yesterday.id]);
+
+    const { results, explanation } = await memoryService.explainSearch({ ...request, profile: "recent" });
+    expect(results.map((result) => result.id)).toEqual([yesterday.id, lastYear.id]);
+    expect(explanation.ranking).toMatchObject({ profile: "recent", recencyWeight: 0.5 });
+    expect(results[0]!.explanation!.ranking).toMatchObject({ relevance: 0 });
+    expect(results[0]!.explanation!.ranking!.recency).toBeCloseTo(0.5 ** (1 / 7));
+    expect(results[1]!.explanation!.ranking).toMatchObject({ relevance: 1 });
+    expect(results[1]!.explanation!.ranking!.recency).toBeLessThan(0.001);
+  });
+
+  it("searches with FTS5 phrases, operators and column filters by query mode", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    const launch = await memoryService.addMemory({ content: "Berlin: the launch plan is final", layer: "stm" });
+    const draft = await memoryService.addMemory({ content: "Berlin: plan the launch party", layer: "stm" });
+    const mail = await memoryService.addMemory({ content: "Berlin: send the e-mail: v2 draft", layer: "stm" });
+    // Only FTS hits are compared; the vector retriever returns every memory.
+    const search = (query: string, queryMode?: MemorySearchRequest["queryMode"]) =>
+      memoryService
+        .searchMemories({ query, queryMode, queryVector: [0, 1, 0], topK: 10, includeReferences: false })
+        .then((results) => results.filter((result) => result.textScore !== undefined).map((result) => result.id));
+
+    expect(new Set(await search("launch plan"))).toEqual(new Set([launch.id, draft.id]));
+    expect(await search("launch plan", "phrase")).toEqual([launch.id]);
+    expect(await search('"e-mail: v2"')).toEqual([mail.id]);
+    expect(await search("launch NOT party", "fts")).toEqual([launch.id]);
+    expect(new Set(await search('"launch plan" OR mail', "fts"))).toEqual(new Set([launch.id, mail.id]));
+    expect(await search("layer: stm AND content: final", "fts")).toEqual([launch.id]);
+    await expect(search("launch OR", "fts")).rejects.toThrow(FtsQueryError);
+  });
+
+  it("explains how each hit was retrieved and fused", async () => {
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+
+    await memoryService.addMemory({ content: "Coffee", layer: "stm" });
+    const both = await memoryService.addMemory({ content: "Coffee deadline deadline", layer: "stm" });
+    const request: MemorySearchRequest = {
+      query: "deadline",
+      queryVector: [1, 0, 0],
+      topK: 10,
+      includeReferences: false,
+      layers: ["stm"],
+    };
+
+    const { results, explanation } = await memoryService.explainSearch(request);
+    const [top] = results;
+    expect(top!.id).toBe(both.id);
+    expect(top!.explanation).toMatchObject({
+      retrievers: ["vector", "text"],
+      vector: { rank: 2, normalized: 0 },
+      text: { rank: 1, normalized: 1 },
+      fusion: "1/(60+2) vector + 1/(60+1) text = 0.0325",
+    });
+    expect(top!.explanation!.vector!.cosine).toBeCloseTo(Math.SQRT1_2);
+    expect(top!.explanation!.text!.bm25).toBeLessThan(0);
+    expect(top!.explanation!.vector!.contribution + top!.explanation!.text!.contribution).toBeCloseTo(
+      top!.score,
+    );
+
+    expect(explanation).toMatchObject({
+      ftsQuery: '"deadline"*',
+      fusion: { strategy: "rrf", rrfK: 60, formula: "score = sum over vector, text of 1/(60 + rank)" },
+      filters: { namespaces: ["default"], layers: ["stm"] },
+    });
+    expect(explanation.timings.totalMs).toBeGreaterThanOrEqual(explanation.timings.hydrateMs);
+
+    const [plain] = await memoryService.searchMemories(request);
+    expect(plain!.explanation).toBeUndefined();
+  });
+
+  it("retrieves memories through entities related to the query", async () => {
+    const knowledgeRepository = repositories.knowledge;
+    const entityExtractor: EntityExtractor = {
+      extract: async (text) =>
+        ["Alice", "Bob", "Billing"]
+          .filter((name) => text.toLowerCase().includes(name.toLowerCase()))
+          .map((name) => ({ name, type: "other", confidence: 0.9 })),
+    };
+    const { searchService, memoryService } = createMemoryServices(db, vectra, repositories, {
+      embeddings: embeddingProvider,
+      search: { knowledgeRepository, entityExtractor },
+      memory: { knowledgeRepository, entityExtractor, mentionRepository: repositories.mention },
+    });
+
+    const alice = await memoryService.addMemory({ content: "Alice joined in March", layer: "stm" });
+    const bob = await memoryService.addMemory({
+      content: "Bob is rewriting the billing service",
+      layer: "stm",
+    });
+    await memoryService.addMemory({ content: "Lunch is at noon", layer: "stm" });
+
+    const entity = (name: string) => knowledgeRepository.findByName(name)!.id;
+    knowledgeRepository.upsertEdge({ src: entity("Bob"), dst: entity("Alice"), relation: "manages", weight: 1 });
+    knowledgeRepository.upsertEdge({ src: entity("Bob"), dst: entity("Billing"), relation: "works_on", weight: 0.8 });
+
+    const search = (graphHops?: number) =>
+      searchService.searchMemories({
+        query: "Alice manager",
+        topK: 10,
+        includeReferences: false,
+        graphHops,
+      });
+
+    // Bob's memory never mentions Alice but is one "manages" hop away.
+    const results = await search();
+    expect(results.map((result) => result.id)).toEqual([alice.id, bob.id]);
+    expect(results.map((result) => result.source)).toEqual(["graph", "graph"]);
+    expect(results[0]!.graphScore).toBeCloseTo(0.9);
+    expect(results[1]!.graphScore).toBeCloseTo(0.45);
+
+    expect((await search(0)).map((result) => result.id)).toEqual([alice.id]);
+  });
+
+  it("caches search results and query vectors until memories change", async () => {
+    const embedded: string[] = [];
+    const embeddings: EmbeddingProvider = {
+      embed: async (texts) => {
+        embedded.push(...texts);
+        return new KeywordEmbeddingProvider().embed(texts);
+      },
+    };
+    const metrics: MemoryMetricDTO[] = [];
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      embeddings,
+      search: {
+        embeddings,
+        analytics: { recordMetric: (metric) => metrics.push(metric), listRecentMetrics: () => metrics },
+        cache: { resultEntries: 10, embeddingEntries: 10, ttlMs: 60_000 },
+      },
+    });
+
+    const team = await memoryService.addMemory({ content: "Coffee with the team", layer: "stm" });
+    const search = (query: string) =>
+      memoryService.searchMemories({ query, topK: 5, includeReferences: false });
+
+    expect((await search("coffee")).map((result) => result.id)).toEqual([team.id]);
+    // Whitespace is normalized, so the second search is served from the result cache.
+    expect((await search("  coffee ")).map((result) => result.id)).toEqual([team.id]);
+    expect(metrics.map((metric) => [metric.cacheHit, metric.resultCount])).toEqual([
+      [false, 1],
+      [true, 1],
+    ]);
+    expect(metrics.every((metric) => metric.queryMs >= 0)).toBe(true);
+
+    // A write invalidates the results; the query vector is still reused.
+    const beans = await memoryService.addMemory({ content: "Coffee beans from Ethiopia", layer: "ltm" });
+    expect((await search("coffee")).map((result) => result.id).sort()).toEqual(
+      [team.id, beans.id].sort(),
+    );
+    expect(metrics.at(-1)).toMatchObject({ cacheHit: false, resultCount: 2 });
+    expect(embedded.filter((text) => text === "coffee")).toHaveLength(1);
+  });
+
+  it("drops cached results when relations, mentions or graph edges change", async () => {
+    const relationRepository = repositories.relation;
+    const knowledgeRepository = repositories.knowledge;
+    const entityExtractor: EntityExtractor = {
+      extract: async (text) =>
+        /berlin/i.test(text) ? [{ name: "Berlin", type: "place", confidence: 0.9 }] : [],
+    };
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      search: {
+        relationRepository,
+        mentionRepository: repositories.mention,
+        knowledgeRepository,
+        entityExtractor,
+        cache: { resultEntries: 10, embeddingEntries: 10, ttlMs: 60_000 },
+      },
+      memory: { relationRepository },
+    });
+    const search = async () =>
+      (
+        await memoryService.searchMemories({
+          query: "Berlin",
+          topK: 5,
+          includeReferences: false,
+          collapseSuperseded: true,
+        })
+      ).map((result) => result.id);
+
+    const berlin = await memoryService.addMemory({ content: "User lives in Berlin", layer: "semantic" });
+    const paris = await memoryService.addMemory({ content: "User moved from Berlin to Paris", layer: "semantic" });
+    const trip = await memoryService.addMemory({ content: "Trip planning for spring", layer: "episodic" });
+    const visa = await memoryService.addMemory({ content: "Visa paperwork for Germany", layer: "episodic" });
+    const city = knowledgeRepository.upsertEntity({ name: "Berlin", type: "place" });
+    const country = knowledgeRepository.upsertEntity({ name: "Germany", type: "place" });
+    expect((await search()).sort()).toEqual([berlin.id, paris.id].sort());
+
+    await memoryService.relateMemories({ srcId: paris.id, dstId: berlin.id, relation: "supersedes" });
+    expect(await search()).toEqual([paris.id]);
+
+    repositories.mention.replaceForMemory(trip.id, [{ entityId: city.id, surface: "Berlin" }]);
+    expect(await search()).toContain(trip.id);
+
+    repositories.mention.replaceForMemory(visa.id, [{ entityId: country.id, surface: "Germany" }]);
+    expect(await search()).not.toContain(visa.id);
+    knowledgeRepository.upsertEdge({ src: city.id, dst: country.id, relation: "located_in", weight: 1 });
+    expect(await search()).toContain(visa.id);
+  });
+
+  it("does not serve expired memories from the result cache", async () => {
+    const metrics: MemoryMetricDTO[] = [];
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      search: {
+        analytics: { recordMetric: (metric) => metrics.push(metric), listRecentMetrics: () => metrics },
+        cache: { resultEntries: 10, embeddingEntries: 10, ttlMs: 60_000 },
+      },
+    });
+    const search = async () =>
+      (await memoryService.searchMemories({ query: "coffee", topK: 5, includeReferences: false })).map(
+        (result) => result.id,
+      );
+
+    const lasting = await memoryService.addMemory({ content: "Coffee with the team", layer: "stm" });
+    const fleeting = await memoryService.addMemory({
+      content: "Coffee tasting today",
+      layer: "stm",
+      expiresAt: Date.now() + 50,
+    });
+    expect((await search()).sort()).toEqual([lasting.id, fleeting.id].sort());
+    expect((await search()).sort()).toEqual([lasting.id, fleeting.id].sort());
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(await search()).toEqual([lasting.id]);
+    expect(metrics.map((metric) => metric.cacheHit)).toEqual([false, true, false]);
+  });
+
+  it("searches document chunks with snippets and neighbouring context", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const documentService = new DefaultDocumentService({
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository: repositories.knowledge,
+      vectra,
+      embeddings: embeddingProvider,
+      textSplitter,
+    });
+    const options = { chunkSize: 100, chunkOverlap: 0, generateSummary: false, detectEntities: false };
+    const paragraph = (text: string) => text.padEnd(100, ".");
+
+    const plan = await documentService.ingest({
+      content: ["Intro notes", "Budget review", "The deadline moved to Friday", "Closing remarks"]
+        .map(paragraph)
+        .join(""),
+      options,
+    });
+    const other = await documentService.ingest({ content: paragraph("Another deadline"), options });
+    const [, budget, deadline, closing] = plan.document.chunks;
+
+    const [top, ...rest] = await documentService.searchChunks({
+      query: "deadline",
+      topK: 10,
+      context: 1,
+    });
+    // Every chunk matches the vector query; only the FTS hits are boosted above the rest.
+    expect([top!.chunk.id, rest[0]!.chunk.id].sort()).toEqual(
+      [deadline!.id, other.document.chunks[0]!.id].sort(),
+    );
+    expect(top!.snippet).toContain("**deadline**");
+    expect(rest).toHaveLength(4);
+    expect(rest[1]!.snippet).toBeUndefined();
+
+    const [scoped] = await documentService.searchChunks({
+      query: "deadline",
+      docId: plan.document.id,
+      topK: 4,
+      context: 1,
+    });
+    expect(scoped).toMatchObject({
+      chunk: { id: deadline!.id },
+      document: { id: plan.document.id, namespace: "default" },
+      vectorScore: expect.any(Number),
+      textScore: expect.any(Number),
+    });
+    expect(scoped!.before.map((chunk) => chunk.id)).toEqual([budget!.id]);
+    expect(scoped!.after.map((chunk) => chunk.id)).toEqual([closing!.id]);
+  });
+
+  it("searches memories, document chunks and entities in one ranked list", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const knowledgeRepository = repositories.knowledge;
+    const embeddings = new KeywordEmbeddingProvider();
+    // A blending default profile must not put memory scores on another scale than the rest.
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      embeddings,
+      search: { ranking: { ...DEFAULT_RANKING, profile: "balanced" } },
+    });
+    const documentService = new DefaultDocumentService({
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository,
+      vectra,
+      embeddings,
+      textSplitter,
+    });
+    const unifiedSearch = new DefaultUnifiedSearchService({
+      memoryService,
+      documentService,
+      knowledgeRepository,
+      embeddings,
+    });
+
+    const memory = await memoryService.addMemory({ content: "Coffee tasting in Berlin", layer: "stm" });
+    const ingested = await documentService.ingest({
+      content: "Berlin roasters publish their coffee menu weekly.",
+      options: { chunkSize: 160, chunkOverlap: 20, generateSummary: false, detectEntities: false },
+    });
+    const entity = knowledgeRepository.upsertEntity({ name: "Berlin", type: "place" });
+    knowledgeRepository.upsertEntity({ name: "Berlin", type: "place", namespace: "other" });
+
+    const hits = await unifiedSearch.searchAll({ query: "berlin", topK: 10 });
+    expect(hits.map((hit) => [hit.type, hit.id]).sort()).toEqual(
+      [
+        ["chunk", ingested.document.chunks[0]!.id],
+        ["entity", entity.id],
+        ["memory", memory.id],
+      ].sort(),
+    );
+    expect(hits.map((hit) => hit.score)).toEqual([...hits.map((hit) => hit.score)].sort((a, b) => b - a));
+    const [queryVector] = await embeddings.embed(["berlin"]);
+    const memoryRequest = { query: "berlin", queryVector, topK: 10, includeReferences: false };
+    const [fused] = await memoryService.searchMemories({ ...memoryRequest, profile: "relevance" });
+    const [blended] = await memoryService.searchMemories(memoryRequest);
+    expect(blended!.score).not.toBe(fused!.score);
+    expect(hits.find((hit) => hit.type === "memory")?.score).toBe(fused!.score);
+    const chunkHit = hits.find((hit) => hit.type === "chunk");
+    expect(chunkHit).toMatchObject({
+      vectorScore: expect.any(Number),
+      textScore: expect.any(Number),
+      document: { id: ingested.document.id, namespace: "default" },
+    });
+
+    const quoted = await unifiedSearch.searchAll({ query: "berlin", topK: 10, quotas: { chunk: 0 } });
+    expect(quoted.map((hit) => hit.type).sort()).toEqual(["entity", "memory"]);
+
+    const entitiesOnly = await unifiedSearch.searchAll({ query: "berlin", topK: 10, types: ["entity"] });
+    expect(entitiesOnly.map((hit) => hit.id)).toEqual([entity.id]);
+
+    // Chunks of trashed documents drop out even though their vectors remain.
+    documentRepository.trash(ingested.document.id);
+    const afterTrash = await unifiedSearch.searchAll({ query: "berlin", topK: 10, types: ["chunk"] });
+    expect(afterTrash).toEqual([]);
+  });
+
+  it("protects pinned memories from decay, dedupe, retention and unforced edits", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { memory: { dedupe: { enabled: true, threshold: 0.9, importanceBoost: 0.1 } } });
+    const config = loadConfig({}, { useDotenv: false });
+    const decayService = new DefaultDecayService({
+      memoryRepository,
+      vectra,
+      settings: { ...config.decay, halfLifeMs: 1_000, floor: 0.1 },
+    });
+    const retentionService = new DefaultRetentionService({
+      memoryRepository,
+      vectra,
+      settings: {
+        ...config.retention,
+        layers: { ...config.retention.layers, stm: { maxAgeMs: 1_000, keepImportanceAbove: null } },
+      },
+    });
+
+    const rule = await memoryService.addMemory({
+      content: "Never book Berlin flights before the deadline",
+      layer: "stm",
+      importance: 0.6,
+      expiresAt: Date.now() - 1,
+      pinned: true,
+    });
+    expect(rule.pinned).toBe(true);
+
+    const copy = await memoryService.addMemory({
+      content: "Never book Berlin flights before the deadline",
+      layer: "stm",
+    });
+    expect(copy.deduplicated).toBe(false);
+    expect(copy.id).not.toBe(rule.id);
+
+    await expect(memoryService.updateMemory(rule.id, { content: "Book whenever" })).rejects.toThrow(
+      /is pinned/,
+    );
+    await expect(memoryService.deleteMemory(rule.id)).rejects.toThrow(/is pinned/);
+    await expect(memoryService.updateMemory(rule.id, { pinned: false })).rejects.toThrow(/is pinned/);
+
+    const now = rule.createdAt + 2_000;
+    await decayService.applyDecay({ now });
+    expect(memoryRepository.findById(rule.id)?.importance).toBe(0.6);
+
+    const report = await retentionService.purge({ now });
+    expect(report).toMatchObject({ expired: 0, byLayer: { stm: 1 } });
+    expect(memoryRepository.findById(rule.id)).toBeDefined();
+    expect(memoryRepository.findById(copy.id)).toBeUndefined();
+
+    const coffee = await memoryService.addMemory({ content: "Coffee tasting notes", layer: "stm" });
+    const plain = await memoryService.searchMemories({
+      query: "coffee",
+      topK: 1,
+      includeReferences: false,
+    });
+    expect(plain.map((result) => result.id)).toEqual([coffee.id]);
+    const withPinned = await memoryService.searchMemories({
+      query: "coffee",
+      topK: 1,
+      layers: ["stm"],
+      includeReferences: false,
+      includePinned: true,
+    });
+    expect(withPinned.map((result) => [result.id, result.pinned])).toEqual([
+      [coffee.id, false],
+      [rule.id, true],
+    ]);
+
+    const updated = await memoryService.updateMemory(rule.id, { pinned: false }, { force: true });
+    expect(updated.pinned).toBe(false);
+    await memoryService.deleteMemory(rule.id);
+    expect(memoryRepository.findById(rule.id)).toBeUndefined();
+  });
+
+  it("moves deletes to the trash, restores them and purges after the grace period", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const memoryRepository = repositories.memory;
+    const knowledgeRepository = repositories.knowledge;
+    const { memoryService } = createMemoryServices(db, vectra, repositories);
+    const documentService = new DefaultDocumentService({
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository,
+      vectra,
+      embeddings: embeddingProvider,
+      textSplitter,
+    });
+    const knowledgeService = new DefaultKnowledgeGraphService({
+      repository: knowledgeRepository,
+      documentRepository,
+      memoryRepository,
+      documentChunkRepository: chunkRepository,
+    });
+    const gracePeriodMs = 60_000;
+    const trashService = new DefaultTrashService({
+      trashRepository: repositories.trash,
+      memoryRepository,
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository,
+      vectra,
+      settings: { gracePeriodMs },
+    });
+
+    const memory = await memoryService.addMemory({ content: "Coffee with Berlin team", layer: "stm" });
+    const { document } = await documentService.ingest({
+      content: "Berlin travel policy",
+      options: { chunkSize: 160, chunkOverlap: 20, generateSummary: false, detectEntities: false },
+    });
+    const berlin = await knowledgeService.createEntity({ name: "Berlin", type: "place" });
+    const team = await knowledgeService.createEntity({ name: "Team", type: "group" });
+    await knowledgeService.createRelation({ src: team.id, dst: berlin.id, relation: "based_in" });
+
+    await memoryService.deleteMemory(memory.id);
+    await documentService.deleteDocument({ id: document.id });
+    await knowledgeService.deleteEntity({ id: berlin.id });
+
+    expect(await memoryService.getMemory({ id: memory.id })).toBeUndefined();
+    expect(
+      await memoryService.searchMemories({ query: "coffee", topK: 5, includeReferences: false }),
+    ).toEqual([]);
+    expect(await documentService.listDocuments()).toEqual([]);
+    expect(await knowledgeService.getEntity({ id: berlin.id })).toBeUndefined();
+    expect(await knowledgeService.getEntityRelations({ entityId: team.id })).toEqual([]);
+
+    const trashed = await trashService.list();
+    expect(trashed.map((item) => [item.kind, item.id]).sort()).toEqual(
+      [
+        ["document", document.id],
+        ["entity", berlin.id],
+        ["memory", memory.id],
+      ].sort(),
+    );
+    const trashedMemory = trashed.find((item) => item.kind === "memory");
+    expect(trashedMemory?.label).toBe("Coffee with Berlin team");
+    expect(trashedMemory?.purgeAfter).toBe(trashedMemory!.deletedAt + gracePeriodMs);
+
+    await trashService.restore({ kind: "entity", id: berlin.id });
+    expect(await knowledgeService.getEntityRelations({ entityId: team.id })).toHaveLength(1);
+    await expect(trashService.restore({ kind: "entity", id: berlin.id })).rejects.toThrow(
+      `No trashed entity ${berlin.id}`,
+    );
+
+    const early = await trashService.purge({ dryRun: true });
+    expect(early).toMatchObject({ purged: 0, byKind: { memory: 0, document: 0 } });
+
+    const dryRun = await trashService.purge({ now: Date.now() + gracePeriodMs + 1, dryRun: true });
+    expect(dryRun).toMatchObject({ purged: 0, byKind: { memory: 1, document: 1, entity: 0 } });
+
+    const report = await trashService.purge({ now: Date.now() + gracePeriodMs + 1 });
+    expect(report).toMatchObject({ purged: 2, byKind: { memory: 1, document: 1, entity: 0 } });
+    expect(await trashService.list()).toEqual([]);
+    expect(chunkRepository.listByDocument(document.id)).toEqual([]);
+    expect(await vectra.getMemoryVector(memory.id)).toBeUndefined();
+    expect(await vectra.stats()).toEqual({ memories: 0, docChunks: 0 });
+
+    // Purged memories stay recoverable from their revision history.
+    const history = await memoryService.getHistory({ id: memory.id });
+    expect(history.revisions[0]?.operation).toBe("delete");
+  });
+
+  it("isolates memories, documents and entities per namespace", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const memoryRepository = repositories.memory;
+    const knowledgeRepository = repositories.knowledge;
+    const entityExtractor: EntityExtractor = {
+      extract: async (text) =>
+        /berlin/i.test(text) ? [{ name: "Berlin", type: "place", confidence: 0.8 }] : [],
+    };
+    const defaultNamespace = "alpha";
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      search: { defaultNamespace },
+      memory: {
+        knowledgeRepository,
+        entityExtractor,
+        mentionRepository: repositories.mention,
+        dedupe: { enabled: true, threshold: 0.9, importanceBoost: 0.1 },
+        defaultNamespace,
+      },
+    });
+    const documentService = new DefaultDocumentService({
+      documentRepository,
+      chunkRepository,
+      knowledgeRepository,
+      vectra,
+      embeddings: embeddingProvider,
+      textSplitter,
+      entityExtractor,
+      defaultNamespace,
+    });
+    const knowledgeService = new DefaultKnowledgeGraphService({
+      repository: knowledgeRepository,
+      documentRepository,
+      memoryRepository,
+      defaultNamespace,
+    });
+    const namespaceService = new DefaultNamespaceService({
+      namespaceRepository: repositories.namespace,
+      defaultNamespace,
+    });
+
+    const alpha = await memoryService.addMemory({ content: "Coffee in Berlin", layer: "ltm" });
+    const beta = await memoryService.addMemory({
+      namespace: "beta",
+      content: "Coffee in Berlin",
+      layer: "stm",
+    });
+    expect(alpha.namespace).toBe("alpha");
+    expect(beta).toMatchObject({ namespace: "beta", deduplicated: false });
+    expect(beta.id).not.toBe(alpha.id);
+
+    const options = { chunkSize: 160, chunkOverlap: 20, generateSummary: false, detectEntities: true };
+    const alphaDoc = await documentService.ingest({ content: "Berlin office guide", options });
+    const betaDoc = await documentService.ingest({
+      namespace: "beta",
+      content: "Berlin office guide",
+      options,
+    });
+    expect(betaDoc.document.id).not.toBe(alphaDoc.document.id);
+    expect(await documentService.listDocuments()).toHaveLength(1);
+    expect(await documentService.getDocument(betaDoc.document.id)).toBeUndefined();
+
+    const [alphaBerlin] = await knowledgeService.listEntities();
+    const [betaBerlin] = await knowledgeService.listEntities(50, 0, "beta");
+    expect(alphaBerlin).toMatchObject({ name: "Berlin", namespace: "alpha", count: 2 });
+    expect(betaBerlin).toMatchObject({ name: "Berlin", namespace: "beta", count: 2 });
+    expect(betaBerlin!.id).not.toBe(alphaBerlin!.id);
+    await expect(
+      knowledgeService.createRelation({ src: alphaBerlin!.id, dst: betaBerlin!.id, relation: "twin" }),
+    ).rejects.toThrow(/not found/);
+
+    const search = async (request: Partial<MemorySearchRequest>) =>
+      (
+        await memoryService.searchMemories({ query: "coffee", topK: 5, includeReferences: false, ...request })
+      ).map((result) => result.id).sort();
+    expect(await search({})).toEqual([alpha.id]);
+    expect(await search({ namespace: "beta" })).toEqual([beta.id]);
+    expect(await search({ namespaces: ["alpha", "beta"] })).toEqual([alpha.id, beta.id].sort());
+    expect(await search({ allNamespaces: true })).toEqual([alpha.id, beta.id].sort());
+
+    expect(await memoryService.getMemory({ id: beta.id })).toBeUndefined();
+    expect((await memoryService.getMemory({ id: beta.id, namespace: "beta" }))?.id).toBe(beta.id);
+    await expect(memoryService.deleteMemory(beta.id)).rejects.toThrow(`Memory ${beta.id} not found`);
+
+    expect(await namespaceService.list()).toMatchObject([
+      { namespace: "alpha", memories: 1, documents: 1, entities: 1, edges: 0 },
+      { namespace: "beta", memories: 1, documents: 1, entities: 1, edges: 0 },
+    ]);
+    const stats = await namespaceService.stats({ namespace: "beta" });
+    expect(stats).toMatchObject({
+      byLayer: { stm: 1 },
+      pinned: 0,
+      docChunks: 1,
+      trashed: { memories: 0, documents: 0, entities: 0 },
+    });
+    expect(stats.lastActivityAt).toBe(betaDoc.document.ingestedAt);
+    expect((await namespaceService.stats()).namespace).toBe("alpha");
+  });
+
+  it("merges near-duplicate memories on add and in bulk", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { memory: { dedupe: { enabled: false, threshold: 0.9, importanceBoost: 0.5 } } });
+
+    const original = await memoryService.addMemory({
+      content: "User drinks coffee every morning",
+      layer: "ltm",
+      importance: 0.4,
+      metadata: { source: "chat" },
+    });
+    expect(original.deduplicated).toBe(false);
+
+    const merged = await memoryService.addMemory({
+      content: "Every morning the user has coffee",
+      layer: "ltm",
+      importance: 0.6,
+      sessionId: "session-1",
+      dedupe: true,
+    });
+    expect(merged.deduplicated).toBe(true);
+    expect(merged.id).toBe(original.id);
+    expect(merged.importance).toBeCloseTo(0.8);
+    expect(merged.metadata.source).toBe("chat");
+    expect(merged.metadata.provenance).toEqual([
+      expect.objectContaining({
+        content: "Every morning the user has coffee",
+        sessionId: "session-1",
+      }),
+    ]);
+    expect(memoryRepository.listAll()).toHaveLength(1);
+
+    const unrelated = await memoryService.addMemory({
+      content: "The deadline moved to Friday",
+      layer: "ltm",
+      dedupe: true,
+    });
+    expect(unrelated.deduplicated).toBe(false);
+
+    // Stored without dedupe, then cleaned up in bulk.
+    const copy = await memoryService.addMemory({
+      content: "User drinks coffee every morning",
+      layer: "ltm",
+    });
+
+    const report = await memoryService.findDuplicates();
+    expect(report.scanned).toBe(3);
+    expect(report.merged).toBe(0);
+    expect(report.groups).toEqual([
+      {
+        memoryId: original.id,
+        duplicates: [expect.objectContaining({ memoryId: copy.id })],
+      },
+    ]);
+
+    const cleanup = await memoryService.findDuplicates({ merge: true });
+    expect(cleanup.merged).toBe(1);
+    expect(memoryRepository.findById(copy.id)).toBeUndefined();
+    expect(await vectra.getMemoryVector(copy.id)).toBeUndefined();
+    expect(memoryRepository.findById(original.id)?.metadata.provenance).toHaveLength(2);
+  });
+
+  it("updates memories and manages document links", async () => {
+    const documentRepository = repositories.document;
+    const chunkRepository = repositories.chunk;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { memory: { documentRepository, chunkRepository } });
+
+    const doc = documentRepository.create({ id: "doc-link", hash: "hash-link", title: "Travel notes" });
+    const other = documentRepository.create({ id: "doc-other", hash: "hash-other", title: "Other" });
+    const chunk = chunkRepository.insert({
+      docId: doc.id,
+      positionStart: 0,
+      positionEnd: 20,
+      content: "Berlin itinerary",
+    });
+
+    const memory = await memoryService.addMemory({
+      content: "Coffee tasting in Berlin",
+      layer: "stm",
+    });
+
+    const moved = await memoryService.updateMemory(memory.id, { layer: "ltm", importance: 0.7 });
+    expect(moved.layer).toBe("ltm");
+    expect((await vectra.getMemoryVector(memory.id))?.metadata).toMatchObject({
+      layer: "ltm",
+      importance: 0.7,
+    });
+
+    await memoryService.updateMemory(memory.id, { content: "The deadline is Friday" });
+    expect((await vectra.getMemoryVector(memory.id))?.vector).toEqual([0, 0, 1]);
+
+    await expect(
+      memoryService.linkDocument({ memoryId: memory.id, docId: "missing" }),
+    ).rejects.toThrow("Document missing not found");
+    await expect(
+      memoryService.linkDocument({ memoryId: memory.id, docId: other.id, chunkId: chunk.id }),
+    ).rejects.toThrow(`Chunk ${chunk.id} not found in document ${other.id}`);
+
+    await memoryService.linkDocument({ memoryId: memory.id, docId: doc.id, score: 0.4 });
+    const linked = await memoryService.linkDocument({
+      memoryId: memory.id,
+      docId: doc.id,
+      score: 0.9,
+    });
+    expect(linked.references).toEqual([{ docId: doc.id, score: 0.9 }]);
+
+    const unlinked = await memoryService.unlinkDocument({ memoryId: memory.id, docId: doc.id });
+    expect(unlinked.references).toEqual([]);
+    await expect(
+      memoryService.unlinkDocument({ memoryId: memory.id, docId: doc.id }),
+    ).rejects.toThrow("is not linked");
+
+    await memoryService.deleteMemory(memory.id);
+    await expect(memoryService.deleteMemory(memory.id)).rejects.toThrow(
+      `Memory ${memory.id} not found`,
+    );
+  });
+
+  it("relates memories and collapses superseded search results", async () => {
+    const memoryRepository = repositories.memory;
+    const relationRepository = repositories.relation;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, {
+      search: { relationRepository },
+      memory: { relationRepository },
+    });
+
+    const berlin = await memoryService.addMemory({
+      content: "User lives in Berlin",
+      layer: "semantic",
+    });
+    const paris = await memoryService.addMemory({
+      content: "User moved from Berlin to Paris",
+      layer: "semantic",
+    });
+    const flat = await memoryService.addMemory({
+      content: "User needs a flat before the deadline",
+      layer: "episodic",
+    });
+
+    const relation = await memoryService.relateMemories({
+      srcId: paris.id,
+      dstId: berlin.id,
+      relation: "supersedes",
+    });
+    expect(relation).toMatchObject({ srcId: paris.id, dstId: berlin.id, relation: "supersedes" });
+    await memoryService.relateMemories({ srcId: flat.id, dstId: paris.id, relation: "follows" });
+    await expect(
+      memoryService.relateMemories({ srcId: flat.id, dstId: flat.id, relation: "elaborates" }),
+    ).rejects.toThrow("cannot be related to itself");
+
+    const direct = await memoryService.getRelated({ id: berlin.id });
+    expect(direct.related.map((entry) => [entry.memory.id, entry.depth])).toEqual([[paris.id, 1]]);
+
+    const walk = await memoryService.getRelated({ id: berlin.id, depth: 2 });
+    expect(walk.related.map((entry) => [entry.memory.id, entry.depth])).toEqual([
+      [paris.id, 1],
+      [flat.id, 2],
+    ]);
+
+    const outgoing = await memoryService.getRelated({
+      id: berlin.id,
+      direction: "outgoing",
+    });
+    expect(outgoing.related).toEqual([]);
+
+    const plain = await memoryService.searchMemories({
+      query: "Berlin",
+      topK: 5,
+      includeReferences: false,
+    });
+    expect(plain.map((result) => result.id)).toContain(berlin.id);
+
+    const collapsed = await memoryService.searchMemories({
+      query: "Berlin",
+      topK: 5,
+      includeReferences: false,
+      collapseSuperseded: true,
+    });
+    const ids = collapsed.map((result) => result.id);
+    expect(ids).not.toContain(berlin.id);
+    expect(ids.filter((id) => id === paris.id)).toHaveLength(1);
+    expect(collapsed.find((result) => result.id === paris.id)?.collapsed).toEqual([berlin.id]);
+
+    // Trashing a memory hides it from related lookups; purging it drops its relations.
+    await memoryService.deleteMemory(paris.id);
+    expect((await memoryService.getRelated({ id: berlin.id })).related).toEqual([]);
+    memoryRepository.delete(paris.id);
+    expect(relationRepository.listForMemory(berlin.id)).toEqual([]);
+  });
+
+  it("records memory revisions and reverts to them", async () => {
+    const memoryRepository = repositories.memory;
+    const embeddings = new KeywordEmbeddingProvider();
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings });
+
+    const memory = await memoryService.addMemory({
+      content: "Team offsite is in Berlin",
+      layer: "stm",
+      importance: 0.5,
+    });
+    await memoryService.updateMemory(memory.id, { content: "Team offsite is in Lisbon" });
+    await memoryService.updateMemory(memory.id, { layer: "ltm", importance: 0.7 });
+
+    // Access bookkeeping must not produce revisions.
+    await memoryService.getMemory({ id: memory.id });
+
+    const history = await memoryService.getHistory({ id: memory.id });
+    expect(history.current?.content).toBe("Team offsite is in Lisbon");
+    expect(history.revisions.map((revision) => revision.revision)).toEqual([2, 1]);
+    expect(history.revisions[1]?.content).toBe("Team offsite is in Berlin");
+
+    const diff = await memoryService.diffRevisions({ id: memory.id, from: 1 });
+    expect(diff.to).toBeNull();
+    expect(diff.changes.map((change) => change.field)).toEqual([
+      "layer",
+      "content",
+      "importance",
+    ]);
+    expect(diff.contentDiff).toEqual([
+      { op: "equal", text: "Team offsite is in " },
+      { op: "delete", text: "Berlin" },
+      { op: "insert", text: "Lisbon" },
+    ]);
+
+    const reverted = await memoryService.revertMemory({ id: memory.id, revision: 1 });
+    expect(reverted.content).toBe("Team offsite is in Berlin");
+    expect(reverted.layer).toBe("stm");
+    expect((await vectra.getMemoryVector(memory.id))?.vector).toEqual([0, 1, 0]);
+
+    await memoryService.deleteMemory(memory.id);
+    const afterDelete = await memoryService.getHistory({ id: memory.id });
+    expect(afterDelete.current).toBeUndefined();
+    expect(afterDelete.revisions[0]?.operation).toBe("delete");
+
+    const restored = await memoryService.revertMemory({
+      id: memory.id,
+      revision: afterDelete.revisions[0]!.revision,
+    });
+    expect(restored.content).toBe("Team offsite is in Berlin");
+    expect(await vectra.getMemoryVector(memory.id)).toBeDefined();
+
+    // Restoring a purged memory brings back its pinned flag and expiry.
+    const expiresAt = Date.now() + 86_400_000;
+    const pinned = await memoryService.addMemory({
+      content: "Standup moves to 9:30",
+      layer: "stm",
+      pinned: true,
+      expiresAt,
+    });
+    memoryRepository.delete(pinned.id, { force: true });
+    const [deletion] = (await memoryService.getHistory({ id: pinned.id })).revisions;
+    expect(deletion).toMatchObject({ operation: "delete", pinned: true, expiresAt });
+    const unpurged = await memoryService.revertMemory({ id: pinned.id, revision: deletion!.revision });
+    expect(unpurged).toMatchObject({ pinned: true, expiresAt });
+
+    // Unpinning and clearing the expiry are revisioned, so a revert puts both back.
+    await memoryService.updateMemory(pinned.id, { pinned: false, expiresAt: null }, { force: true });
+    const [unpinned] = (await memoryService.getHistory({ id: pinned.id })).revisions;
+    expect(unpinned).toMatchObject({ operation: "update", pinned: true, expiresAt });
+    const pinDiff = await memoryService.diffRevisions({ id: pinned.id, from: unpinned!.revision });
+    expect(pinDiff.changes).toEqual([
+      { field: "pinned", before: true, after: false },
+      { field: "expiresAt", before: expiresAt, after: null },
+    ]);
+    const repinned = await memoryService.revertMemory({ id: pinned.id, revision: unpinned!.revision });
+    expect(repinned).toMatchObject({ pinned: true, expiresAt });
+
+    await expect(
+      memoryService.revertMemory({ id: memory.id, revision: 99 }),
+    ).rejects.toThrow("Revision 99");
+  });
+
+  it("groups memories into episodes and summarizes them on end", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings: embeddingProvider });
+    const episodeService = new DefaultEpisodeService({
+      episodeRepository: repositories.episode,
+      memoryRepository,
+      memoryService,
+    });
+
+    const episode = await episodeService.startEpisode({
+      name: "Fix login bug",
+      sessionId: "session-1",
+    });
+    expect(episode.status).toBe("open");
+
+    await memoryService.addMemory({
+      content: "Reproduced the login failure",
+      layer: "stm",
+      importance: 0.4,
+      episodeId: episode.id,
+    });
+    await memoryService.addMemory({
+      content: "Root cause was an expired token cache",
+      layer: "stm",
+      importance: 0.7,
+      episodeId: episode.id,
+    });
+
+    const ended = await episodeService.endEpisode({ id: episode.id, summarize: true });
+    expect(ended.episode.status).toBe("closed");
+    expect(ended.summary?.layer).toBe("episodic");
+    expect(ended.summary?.content).toContain("Root cause was an expired token cache");
+    expect(ended.summary?.importance).toBeCloseTo(0.7);
+    expect(ended.episode.summaryMemoryId).toBe(ended.summary?.id);
+
+    await expect(episodeService.endEpisode({ id: episode.id })).rejects.toThrow(
+      "already ended",
+    );
+
+    const detail = await episodeService.getEpisode({ id: episode.id });
+    expect(detail?.episode.memoryCount).toBe(2);
+    expect(detail?.memories.map((memory) => memory.content)).toEqual([
+      "Reproduced the login failure",
+      "Root cause was an expired token cache",
+    ]);
+    expect(detail?.summary?.id).toBe(ended.summary?.id);
+
+    const next = await episodeService.startEpisode({ name: "Write release notes" });
+    expect(await episodeService.listEpisodes({ status: "open" })).toEqual([
+      expect.objectContaining({ id: next.id }),
+    ]);
+    expect(await episodeService.listEpisodes({ sessionId: "session-1" })).toHaveLength(1);
+
+    const timeline = await episodeService.getTimeline();
+    expect(timeline.entries.map((entry) => entry.episode.id)).toEqual([episode.id, next.id]);
+    expect(timeline.entries[0]?.durationMs).toBeGreaterThanOrEqual(0);
+    expect(timeline.entries[0]?.summary).toBe(ended.summary?.content);
+    expect(timeline.entries[1]?.durationMs).toBeNull();
+  });
+
+  it("lists sessions, returns transcripts and rolls them up on close", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings: embeddingProvider });
+    const sessionService = new DefaultSessionService({
+      sessionRepository: repositories.session,
+      memoryRepository,
+      memoryService,
+    });
+
+    const tuesday = Date.UTC(2025, 0, 7, 10);
+    await memoryRepository.create({
+      id: "m-1",
+      content: "Discussed the Q1 roadmap",
+      layer: "stm",
+      metadata: {},
+      importance: 0.5,
+      sessionId: "chat-tuesday",
+      createdAt: tuesday,
+    });
+    await memoryRepository.create({
+      id: "m-2",
+      content: "Agreed to ship search fusion first",
+      layer: "ltm",
+      metadata: {},
+      importance: 0.8,
+      sessionId: "chat-tuesday",
+      createdAt: tuesday + 60_000,
+    });
+    await memoryRepository.create({
+      id: "m-3",
+      content: "Unrelated chat",
+      layer: "stm",
+      metadata: {},
+      importance: 0.5,
+      sessionId: "chat-friday",
+      createdAt: tuesday + 3 * 86_400_000,
+    });
+
+    const sessions = await sessionService.listSessions();
+    expect(sessions.map((session) => session.id)).toEqual(["chat-friday", "chat-tuesday"]);
+
+    const onTuesday = await sessionService.listSessions({
+      from: tuesday - 3_600_000,
+      to: tuesday + 3_600_000,
+    });
+    expect(onTuesday).toEqual([
+      expect.objectContaining({
+        id: "chat-tuesday",
+        status: "open",
+        memoryCount: 2,
+        durationMs: 60_000,
+      }),
+    ]);
+
+    const transcript = await sessionService.getSession({ id: "chat-tuesday" });
+    expect(transcript?.memories.map((memory) => memory.id)).toEqual(["m-1", "m-2"]);
+    expect(transcript?.layerCounts).toEqual({ stm: 1, ltm: 1 });
+
+    const closed = await sessionService.closeSession({ id: "chat-tuesday", summarize: true });
+    expect(closed.session.status).toBe("closed");
+    expect(closed.summary?.layer).toBe("episodic");
+    expect(closed.summary?.sessionId).toBe("chat-tuesday");
+    expect(closed.summary?.content).toContain("Agreed to ship search fusion first");
+
+    const afterClose = await sessionService.getSession({ id: "chat-tuesday" });
+    expect(afterClose?.session.memoryCount).toBe(2);
+    expect(afterClose?.memories).toHaveLength(2);
+    expect(afterClose?.summary?.id).toBe(closed.summary?.id);
+    expect(await sessionService.listSessions({ status: "open" })).toEqual([
+      expect.objectContaining({ id: "chat-friday" }),
+    ]);
+
+    await expect(sessionService.closeSession({ id: "chat-tuesday" })).rejects.toThrow(
+      "already closed",
+    );
+    await expect(sessionService.closeSession({ id: "missing" })).rejects.toThrow("not found");
+  });
+
+  it("keeps sessions and episodes and their summaries inside one namespace", async () => {
+    const memoryRepository = repositories.memory;
+    const { memoryService } = createMemoryServices(db, vectra, repositories, { embeddings: embeddingProvider });
+    const sessionService = new DefaultSessionService({
+      sessionRepository: repositories.session,
+      memoryRepository,
+      memoryService,
+    });
+    const episodeService = new DefaultEpisodeService({
+      episodeRepository: repositories.episode,
+      memoryRepository,
+      memoryService,
+    });
+
+    const episode = await episodeService.startEpisode({ namespace: "alpha", name: "Plan launch", sessionId: "chat" });
+    const alpha = await memoryService.addMemory({
+      namespace: "alpha",
+      content: "Launch moves to May",
+      layer: "stm",
+      sessionId: "chat",
+      episodeId: episode.id,
+    });
+    const beta = await memoryService.addMemory({
+      namespace: "beta",
+      content: "Hiring plan approved",
+      layer: "stm",
+      sessionId: "chat",
+    });
+
+    expect(await sessionService.listSessions()).toEqual([]);
+    expect(await sessionService.getSession({ id: "chat" })).toBeUndefined();
+    expect(await sessionService.listSessions({ namespace: "alpha" })).toEqual([
+      expect.objectContaining({ id: "chat", namespace: "alpha", memoryCount: 1, episodeCount: 1 }),
+    ]);
+    const transcript = await sessionService.getSession({ id: "chat", namespace: "beta" });
+    expect(transcript?.memories.map((memory) => memory.id)).toEqual([beta.id]);
+    expect(transcript?.session.episodeCount).toBe(0);
+
+    expect(await episodeService.listEpisodes()).toEqual([]);
+    expect((await episodeService.getTimeline({ namespace: "beta" })).entries).toEqual([]);
+    expect(await episodeService.getEpisode({ id: episode.id })).toBeUndefined();
+    await expect(episodeService.endEpisode({ id: episode.id })).rejects.toThrow("not found");
+
+    const ended = await episodeService.endEpisode({ id: episode.id, namespace: "alpha", summarize: true });
+    expect(ended.episode.namespace).toBe("alpha");
+    expect(ended.summary?.namespace).toBe("alpha");
+
+    const closed = await sessionService.closeSession({ id: "chat", namespace: "alpha", summarize: true });
+    expect(closed.summary?.namespace).toBe("alpha");
+    expect(closed.summary?.metadata.memoryIds).toEqual([alpha.id, ended.summary?.id]);
+    expect((await sessionService.getSession({ id: "chat", namespace: "beta" }))?.session.status).toBe("open");
+  });
+
   it("reports analytics and system status", async () => {
-    const analyticsRepository = new AnalyticsRepository(db);
-    const jobRepository = new JobRepository(db);
+    const analyticsRepository = repositories.analytics;
+    const jobRepository = repositories.job;
     const analyticsService = new DefaultAnalyticsService({ repository: analyticsRepository });
     analyticsService.recordMetric({
       timestamp: Date.now(),